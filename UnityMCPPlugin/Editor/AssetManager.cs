@@ -19,13 +19,20 @@ namespace UnityMCP.Editor
             public string filter { get; set; } // For search (e.g. "t:Material")
         }
 
-        public async Task HandleAssetManagement(ClientWebSocket webSocket, CancellationToken cancellationToken, string dataJson)
+        public async Task HandleAssetManagement(ClientWebSocket webSocket, CancellationToken cancellationToken, string requestId, string dataJson)
         {
             try
             {
                 var requestData = JsonConvert.DeserializeObject<ManageAssetsData>(dataJson);
                 object result = null;
 
+                var progress = new RequestProgress(webSocket, requestId, cancellationToken);
+                if (requestData.action == "refresh")
+                {
+                    // The refresh blocks the editor until it is done, so announce it up front
+                    progress.Report(0, 1, "Refreshing the AssetDatabase");
+                }
+
                 await EditorUtilities.WaitForUnityCompilationAsync();
 
                 // Dispatch to main thread
@@ -47,11 +54,11 @@ namespace UnityMCP.Editor
                 var message = JsonConvert.SerializeObject(new
                 {
                     type = "assetManagementResult",
+                    requestId = requestId,
                     data = result
                 });
 
-                var buffer = Encoding.UTF8.GetBytes(message);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+                await EditorUtilities.SendMessageAsync(webSocket, message, cancellationToken);
                 Debug.Log($"[UnityMCP] Asset management '{requestData.action}' completed.");
             }
             catch (Exception e)
@@ -60,10 +67,10 @@ namespace UnityMCP.Editor
                 var errorMessage = JsonConvert.SerializeObject(new
                 {
                     type = "assetManagementResult",
+                    requestId = requestId,
                     data = new { error = e.Message }
                 });
-                var buffer = Encoding.UTF8.GetBytes(errorMessage);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+                await EditorUtilities.SendMessageAsync(webSocket, errorMessage, cancellationToken);
             }
         }
 
@@ -15,17 +15,79 @@ namespace UnityMCP.Editor
 {
     public class EditorCommandExecutor
     {
+        // VRChat Udon and UdonSharp assemblies, referenced when the project has them
+        private static readonly string[] VrchatAssemblies =
+        {
+            "VRC.Udon",
+            "VRC.Udon.Common",
+            "VRC.Udon.Editor",
+            "VRC.Udon.Serialization.OdinSerializer",
+            "VRC.Udon.VM",
+            "VRC.Udon.Wrapper",
+            "UdonSharp.Editor",
+            "UdonSharp.Runtime",
+            "VRCSDK3",
+            "VRCSDKBase", // Additional VRC SDK parts that might be needed
+        };
+
+        /// <summary>
+        /// The optional assemblies loaded in this editor. Declared in hello so the
+        /// server can add matching usings when it wraps snippets.
+        /// </summary>
+        public static string[] GetLoadedOptionalAssemblies()
+        {
+            var loaded = new HashSet<string>(AppDomain.CurrentDomain.GetAssemblies().Select(a => a.GetName().Name));
+            return VrchatAssemblies.Where(loaded.Contains).ToArray();
+        }
+
         public class EditorCommandData
         {
             public string code { get; set; }
         }
 
-        public static async Task ExecuteEditorCommand(ClientWebSocket webSocket, CancellationToken cancellationToken, string commandData)
+        /// <summary>
+        /// One compiler error or warning, with line and column in the submitted code.
+        /// </summary>
+        public class CompilerDiagnostic
+        {
+            public int line { get; set; }
+            public int column { get; set; }
+            public string code { get; set; }
+            public string message { get; set; }
+            public string severity { get; set; }
+        }
+
+        /// <summary>
+        /// Thrown by CompileAndExecute when the code does not compile.
+        /// </summary>
+        public class CompilationException : Exception
+        {
+            public List<CompilerDiagnostic> Diagnostics { get; }
+
+            public CompilationException(List<CompilerDiagnostic> diagnostics)
+                : base(FormatMessage(diagnostics))
+            {
+                Diagnostics = diagnostics;
+            }
+
+            private static string FormatMessage(List<CompilerDiagnostic> diagnostics)
+            {
+                var errors = diagnostics
+                    .Where(d => d.severity == "error")
+                    .Select(d => $"({d.line},{d.column}) {d.code}: {d.message}");
+                return "Compilation failed:\n" + string.Join("\n", errors);
+            }
+        }
+
+        public static async Task ExecuteEditorCommand(ClientWebSocket webSocket, CancellationToken cancellationToken, string requestId, string commandData)
         {
             var logs = new List<string>();
             var errors = new List<string>();
             var warnings = new List<string>();
 
+            // Cancelled when the server gives up on the request or the connection closes
+            var cancellation = RequestCancellation.Register(requestId, cancellationToken);
+
             Application.logMessageReceived += LogHandler;
 
             try
@@ -35,7 +97,14 @@ namespace UnityMCP.Editor
 
                 Debug.Log($"[UnityMCP] Executing code...");
 
+                var progress = new RequestProgress(webSocket, requestId, cancellationToken);
+                if (EditorApplication.isCompiling)
+                {
+                    progress.Report(0, 1, "Waiting for Unity to finish compiling");
+                }
+
                 await EditorUtilities.WaitForUnityCompilationAsync();
+                cancellation.ThrowIfCancellationRequested();
 
                 // Dispatch to main thread using delayCall
                 var tcs = new TaskCompletionSource<object>(TaskCreationOptions.RunContinuationsAsynchronously);
@@ -43,8 +112,11 @@ namespace UnityMCP.Editor
                 {
                     try
                     {
+                        // Skip commands cancelled while they were queued
+                        cancellation.ThrowIfCancellationRequested();
+
                         // Execute the provided code on main thread
-                        var result = CompileAndExecute(code);
+                        var result = CompileAndExecute(code, cancellation, progress);
                         tcs.SetResult(result);
                     }
                     catch (Exception ex)
@@ -55,12 +127,24 @@ namespace UnityMCP.Editor
 
                 var executionResult = await tcs.Task;
 
+                // Long-running commands can return a Task (e.g. an async Execute that
+                // waits for a bake); its result is sent once it completes
+                if (executionResult is Task task)
+                {
+                    await task;
+                    var resultProperty = task.GetType().GetProperty("Result");
+                    executionResult = resultProperty != null && resultProperty.PropertyType.Name != "VoidTaskResult"
+                        ? resultProperty.GetValue(task)
+                        : null;
+                }
+
                 Debug.Log($"[UnityMCP] Code executed");
 
                 // Send back detailed execution results
                 var resultMessage = JsonConvert.SerializeObject(new
                 {
                     type = "commandResult",
+                    requestId = requestId,
                     data = new
                     {
                         result = executionResult,
@@ -71,10 +155,9 @@ namespace UnityMCP.Editor
                     }
                 });
 
-                var buffer = Encoding.UTF8.GetBytes(resultMessage);
                 try
                 {
-                    await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+                    await EditorUtilities.SendMessageAsync(webSocket, resultMessage, cancellationToken);
                 }
                 catch (Exception sendEx)
                 {
@@ -82,6 +165,11 @@ namespace UnityMCP.Editor
                     throw; // Re-throw to be caught by outer catch
                 }
             }
+            catch (OperationCanceledException) when (cancellation.IsCancellationRequested)
+            {
+                // The server no longer waits for this request, so there is nobody to answer
+                Debug.Log("[UnityMCP] Editor command cancelled");
+            }
             catch (Exception e)
             {
                 var firstStackLine = e.StackTrace?.Split('\n')?.FirstOrDefault() ?? "";
@@ -93,6 +181,7 @@ namespace UnityMCP.Editor
                 var errorMessage = JsonConvert.SerializeObject(new
                 {
                     type = "commandResult",
+                    requestId = requestId,
                     data = new
                     {
                         result = (object)null,
@@ -104,14 +193,14 @@ namespace UnityMCP.Editor
                         {
                             message = e.Message,
                             stackTrace = firstStackLine,
-                            type = e.GetType().Name
+                            type = e.GetType().Name,
+                            diagnostics = (e as CompilationException)?.Diagnostics
                         }
                     }
                 });
-                var buffer = Encoding.UTF8.GetBytes(errorMessage);
                 try
                 {
-                    await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+                    await EditorUtilities.SendMessageAsync(webSocket, errorMessage, cancellationToken);
                 }
                 catch (Exception sendEx)
                 {
@@ -122,6 +211,7 @@ namespace UnityMCP.Editor
             finally
             {
                 Application.logMessageReceived -= LogHandler;
+                RequestCancellation.Complete(requestId);
             }
 
             void LogHandler(string message, string stackTrace, LogType type)
@@ -144,7 +234,12 @@ namespace UnityMCP.Editor
         }
 
 
-        public static object CompileAndExecute(string code)
+        /// <summary>
+        /// Compile the code and call EditorCommand.Execute. Execute may take, in any order,
+        /// a CancellationToken that is cancelled when the server gives up on the request and
+        /// a RequestProgress to report how far it got, for commands that run long.
+        /// </summary>
+        public static object CompileAndExecute(string code, CancellationToken cancellationToken = default(CancellationToken), RequestProgress progress = null)
         {
             // Wait for any ongoing Unity compilation to finish first
             EditorUtilities.WaitForUnityCompilation();
@@ -228,20 +323,7 @@ namespace UnityMCP.Editor
                 }
 
                 // Add VRChat Udon and UdonSharp assemblies
-                var vrchatAssemblies = new[] {
-                    "VRC.Udon",
-                    "VRC.Udon.Common",
-                    "VRC.Udon.Editor",
-                    "VRC.Udon.Serialization.OdinSerializer",
-                    "VRC.Udon.VM",
-                    "VRC.Udon.Wrapper",
-                    "UdonSharp.Editor",
-                    "UdonSharp.Runtime",
-                    "VRCSDK3",
-                    "VRCSDKBase", // Additional VRC SDK parts that might be needed
-                };
-
-                foreach (var assemblyName in vrchatAssemblies)
+                foreach (var assemblyName in VrchatAssemblies)
                 {
                     AddAssemblyByName(assemblyName);
                 }
@@ -264,14 +346,28 @@ namespace UnityMCP.Editor
                     {
                         Debug.LogError($"Error {error.ErrorNumber}: {error.ErrorText}, Line {error.Line}");
                     }
-                    var errors = string.Join("\n", results.Errors.Cast<CompilerError>().Select(e => e.ErrorText));
-                    throw new Exception($"Compilation failed:\n{errors}");
+                    var diagnostics = results.Errors.Cast<CompilerError>()
+                        .Select(e => new CompilerDiagnostic
+                        {
+                            line = e.Line,
+                            column = e.Column,
+                            code = e.ErrorNumber,
+                            message = e.ErrorText,
+                            severity = e.IsWarning ? "warning" : "error"
+                        })
+                        .ToList();
+                    throw new CompilationException(diagnostics);
                 }
 
                 var assembly = results.CompiledAssembly;
                 var type = assembly.GetType("EditorCommand");
                 var method = type.GetMethod("Execute");
-                return method.Invoke(null, null);
+                var arguments = method.GetParameters()
+                    .Select(p => p.ParameterType == typeof(CancellationToken) ? (object)cancellationToken
+                        : p.ParameterType == typeof(RequestProgress) ? progress
+                        : throw new ArgumentException($"EditorCommand.Execute cannot take a parameter of type {p.ParameterType.Name}"))
+                    .ToArray();
+                return method.Invoke(null, arguments);
             }
         }
     }
@@ -16,7 +16,7 @@ namespace UnityMCP.Editor
         private string lastErrorMessage = "";
 
         // New method to send editor state
-        public async Task SendEditorState(ClientWebSocket webSocket, CancellationToken cancellationToken)
+        public async Task SendEditorState(ClientWebSocket webSocket, CancellationToken cancellationToken, string requestId)
         {
             try
             {
@@ -44,10 +44,10 @@ namespace UnityMCP.Editor
                     var message = JsonConvert.SerializeObject(new
                     {
                         type = "editorState",
+                        requestId = requestId,
                         data = result
                     });
-                    var buffer = Encoding.UTF8.GetBytes(message);
-                    await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+                    await EditorUtilities.SendMessageAsync(webSocket, message, cancellationToken);
                     Debug.Log("[UnityMCP] Sent editor state upon request");
                 }
                 else
@@ -84,17 +84,7 @@ namespace UnityMCP.Editor
                     }
                 }
 
-                var selection = Selection.gameObjects;
-                if (selection != null)
-                {
-                    foreach (var obj in selection)
-                    {
-                        if (obj != null && !string.IsNullOrEmpty(obj.name))
-                        {
-                            selectedObjects.Add(obj.name);
-                        }
-                    }
-                }
+                selectedObjects.AddRange(GetSelectedObjects());
 
                 var currentScene = UnityEngine.SceneManagement.SceneManager.GetActiveScene();
                 var sceneHierarchy = currentScene.IsValid() ? GetSceneHierarchy() : new List<object>();
@@ -129,7 +119,24 @@ namespace UnityMCP.Editor
             }
         }
 
-        private object GetSceneHierarchy()
+        public List<string> GetSelectedObjects()
+        {
+            var selectedObjects = new List<string>();
+            var selection = Selection.gameObjects;
+            if (selection != null)
+            {
+                foreach (var obj in selection)
+                {
+                    if (obj != null && !string.IsNullOrEmpty(obj.name))
+                    {
+                        selectedObjects.Add(obj.name);
+                    }
+                }
+            }
+            return selectedObjects;
+        }
+
+        public object GetSceneHierarchy()
         {
             try
             {
@@ -204,7 +211,9 @@ namespace UnityMCP.Editor
                 {
                     name = obj.name ?? "Unnamed",
                     components = GetComponentNames(obj),
-                    children = children
+                    children = children,
+                    active = obj.activeSelf,
+                    instanceId = obj.GetInstanceID()
                 };
             }
             catch (Exception e)
@@ -0,0 +1,93 @@
+using UnityEngine;
+using UnityEditor;
+using System;
+using System.Collections.Generic;
+using System.Net.WebSockets;
+using System.Text;
+using System.Threading;
+using Newtonsoft.Json;
+
+namespace UnityMCP.Editor
+{
+    /// <summary>
+    /// Pushes "editorStateChanged" messages when the scene hierarchy, the selection or
+    /// the play mode changes, so the server can keep its live resources up to date
+    /// without polling. Only the parts that changed are sent, at most twice a second.
+    /// </summary>
+    public static class EditorStateWatcher
+    {
+        private const double DebounceSeconds = 0.5;
+
+        private static bool isInitialized = false;
+        private static bool hierarchyChanged = false;
+        private static bool selectionChanged = false;
+        private static bool playModeChanged = false;
+        private static double lastChangeTime = 0;
+        private static bool isSending = false;
+
+        public static void Initialize()
+        {
+            if (isInitialized)
+                return;
+
+            EditorApplication.hierarchyChanged += () => MarkChanged(ref hierarchyChanged);
+            Selection.selectionChanged += () => MarkChanged(ref selectionChanged);
+            EditorApplication.playModeStateChanged += _ => MarkChanged(ref playModeChanged);
+            isInitialized = true;
+        }
+
+        /// <summary>
+        /// Send everything with the next update, e.g. after (re)connecting.
+        /// </summary>
+        public static void MarkAllChanged()
+        {
+            hierarchyChanged = true;
+            selectionChanged = true;
+            playModeChanged = true;
+            lastChangeTime = 0;
+        }
+
+        private static void MarkChanged(ref bool flag)
+        {
+            flag = true;
+            lastChangeTime = EditorApplication.timeSinceStartup;
+        }
+
+        /// <summary>
+        /// Called from the editor update loop while connected.
+        /// </summary>
+        public static async void Update(ClientWebSocket webSocket, EditorStateReporter reporter, CancellationToken cancellationToken)
+        {
+            if (isSending || !(hierarchyChanged || selectionChanged || playModeChanged))
+                return;
+            if (EditorApplication.timeSinceStartup - lastChangeTime < DebounceSeconds)
+                return;
+            if (webSocket == null || webSocket.State != WebSocketState.Open || reporter == null)
+                return;
+
+            var data = new Dictionary<string, object>();
+            if (hierarchyChanged)
+                data["sceneHierarchy"] = reporter.GetSceneHierarchy();
+            if (selectionChanged)
+                data["selectedObjects"] = reporter.GetSelectedObjects();
+            if (playModeChanged)
+                data["playModeState"] = EditorApplication.isPlaying ? "Playing" : "Stopped";
+            hierarchyChanged = selectionChanged = playModeChanged = false;
+
+            isSending = true;
+            try
+            {
+                var json = JsonConvert.SerializeObject(new { type = "editorStateChanged", data = data });
+                await EditorUtilities.SendMessageAsync(webSocket, json, cancellationToken);
+            }
+            catch (Exception e)
+            {
+                Debug.LogWarning($"[UnityMCP] Failed to send editor state change: {e.Message}");
+            }
+            finally
+            {
+                isSending = false;
+            }
+        }
+    }
+}
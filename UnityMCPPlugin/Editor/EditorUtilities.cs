@@ -1,12 +1,35 @@
 using UnityEngine;
 using UnityEditor;
 using System;
+using System.Net.WebSockets;
+using System.Text;
+using System.Threading;
 using System.Threading.Tasks;
 
 namespace UnityMCP.Editor
 {
     public static class EditorUtilities
     {
+        // ClientWebSocket allows one SendAsync at a time, but handlers run concurrently
+        private static readonly SemaphoreSlim sendLock = new SemaphoreSlim(1, 1);
+
+        /// <summary>
+        /// Sends a text message to the server once no other message is being sent
+        /// </summary>
+        public static async Task SendMessageAsync(ClientWebSocket webSocket, string message, CancellationToken cancellationToken)
+        {
+            var buffer = Encoding.UTF8.GetBytes(message);
+            await sendLock.WaitAsync(cancellationToken);
+            try
+            {
+                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+            }
+            finally
+            {
+                sendLock.Release();
+            }
+        }
+
         /// <summary>
         /// Waits for Unity to finish any ongoing compilation or asset processing
         /// </summary>
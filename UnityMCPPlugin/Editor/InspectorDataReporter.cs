@@ -17,9 +17,14 @@ namespace UnityMCP.Editor
         public class GetObjectDetailsData
         {
             public string objectName { get; set; }
+            public ObjectSelector target { get; set; }
+            public string[] components { get; set; }
+            public string[] excludeComponents { get; set; }
+            public string[] fields { get; set; } // "name" or "Type.name"
+            public int childDepth { get; set; }
         }
 
-        public async Task SendObjectDetails(ClientWebSocket webSocket, CancellationToken cancellationToken, string dataJson)
+        public async Task SendObjectDetails(ClientWebSocket webSocket, CancellationToken cancellationToken, string requestId, string dataJson)
         {
             try
             {
@@ -34,7 +39,7 @@ namespace UnityMCP.Editor
                 {
                     try
                     {
-                        var details = GetObjectDetails(requestData.objectName);
+                        var details = GetObjectDetails(ObjectSelector.Resolve(requestData.target, requestData.objectName), requestData, 0);
                         tcs.SetResult(details);
                     }
                     catch (Exception ex)
@@ -48,12 +53,12 @@ namespace UnityMCP.Editor
                 var message = JsonConvert.SerializeObject(new
                 {
                     type = "objectDetails",
+                    requestId = requestId,
                     data = result
                 });
 
-                var buffer = Encoding.UTF8.GetBytes(message);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
-                Debug.Log($"[UnityMCP] Sent details for object: {requestData.objectName}");
+                await EditorUtilities.SendMessageAsync(webSocket, message, cancellationToken);
+                Debug.Log($"[UnityMCP] Sent details for object: {requestData.target?.ToString() ?? requestData.objectName}");
             }
             catch (Exception e)
             {
@@ -62,27 +67,21 @@ namespace UnityMCP.Editor
                  var errorMessage = JsonConvert.SerializeObject(new
                 {
                     type = "objectDetails",
+                    requestId = requestId,
                     data = new { error = e.Message }
                 });
-                var buffer = Encoding.UTF8.GetBytes(errorMessage);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+                await EditorUtilities.SendMessageAsync(webSocket, errorMessage, cancellationToken);
             }
         }
 
-        private object GetObjectDetails(string objectName)
+        private object GetObjectDetails(GameObject obj, GetObjectDetailsData request, int depth)
         {
-            var obj = GameObject.Find(objectName);
-            if (obj == null)
-            {
-                return new { error = $"GameObject '{objectName}' not found." };
-            }
-
             var componentsData = new List<object>();
             var components = obj.GetComponents<Component>();
 
             foreach (var comp in components)
             {
-                if (comp == null) continue;
+                if (comp == null || !IncludeComponent(comp, request)) continue;
 
                 var compType = comp.GetType();
                 var fieldsData = new Dictionary<string, object>();
@@ -90,7 +89,7 @@ namespace UnityMCP.Editor
                 // Get public fields
                 foreach (var field in compType.GetFields(BindingFlags.Public | BindingFlags.Instance))
                 {
-                    if (IsSerializableType(field.FieldType))
+                    if (IsSerializableType(field.FieldType) && IncludeField(compType, field.Name, request))
                     {
                         try {
                             fieldsData[field.Name] = FormatValue(field.GetValue(comp));
@@ -101,7 +100,8 @@ namespace UnityMCP.Editor
                 // Get public properties (that are readable and not obsolete)
                 foreach (var prop in compType.GetProperties(BindingFlags.Public | BindingFlags.Instance))
                 {
-                    if (prop.CanRead && IsSerializableType(prop.PropertyType) && prop.GetIndexParameters().Length == 0)
+                    if (prop.CanRead && IsSerializableType(prop.PropertyType) && prop.GetIndexParameters().Length == 0
+                        && IncludeField(compType, prop.Name, request))
                     {
                          try {
                              // Skip some dangerous or heavy properties
@@ -122,6 +122,8 @@ namespace UnityMCP.Editor
             return new
             {
                 name = obj.name,
+                path = ObjectSelector.GetPath(obj),
+                instanceId = obj.GetInstanceID(),
                 active = obj.activeSelf,
                 tag = obj.tag,
                 layer = LayerMask.LayerToName(obj.layer),
@@ -130,10 +132,30 @@ namespace UnityMCP.Editor
                     rotation = FormatValue(obj.transform.rotation.eulerAngles),
                     scale = FormatValue(obj.transform.localScale)
                 },
-                components = componentsData
+                components = componentsData,
+                childCount = obj.transform.childCount,
+                // Children are only listed while within the requested depth
+                children = depth < request.childDepth
+                    ? obj.transform.Cast<Transform>().Select(child => GetObjectDetails(child.gameObject, request, depth + 1)).ToList()
+                    : null
             };
         }
 
+        private bool IncludeComponent(Component comp, GetObjectDetailsData request)
+        {
+            if (request.components != null && request.components.Length > 0
+                && !request.components.Any(typeName => ObjectSelector.IsOfType(comp, typeName)))
+                return false;
+            return request.excludeComponents == null
+                || !request.excludeComponents.Any(typeName => ObjectSelector.IsOfType(comp, typeName));
+        }
+
+        private bool IncludeField(Type compType, string name, GetObjectDetailsData request)
+        {
+            return request.fields == null || request.fields.Length == 0
+                || request.fields.Contains(name) || request.fields.Contains($"{compType.Name}.{name}");
+        }
+
         private bool IsSerializableType(Type type)
         {
             return type.IsPrimitive || 
@@ -144,7 +166,9 @@ namespace UnityMCP.Editor
                    type == typeof(Vector4) || 
                    type == typeof(Quaternion) || 
                    type == typeof(Color) ||
-                   type == typeof(Rect);
+                   type == typeof(Rect) ||
+                   (type.IsArray && IsSerializableType(type.GetElementType())) ||
+                   (type.IsGenericType && type.GetGenericTypeDefinition() == typeof(List<>) && IsSerializableType(type.GetGenericArguments()[0]));
         }
 
         private object FormatValue(object val)
@@ -155,6 +179,8 @@ namespace UnityMCP.Editor
             if (val is Vector4 v4) return new { x = v4.x, y = v4.y, z = v4.z, w = v4.w };
             if (val is Quaternion q) return new { x = q.x, y = q.y, z = q.z, w = q.w };
             if (val is Color c) return new { r = c.r, g = c.g, b = c.b, a = c.a };
+            // Arrays and lists in full; the server cuts them to the requested size
+            if (val is System.Collections.IList list) return list.Cast<object>().Select(FormatValue).ToList();
             return val;
         }
     }
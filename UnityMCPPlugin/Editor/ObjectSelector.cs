@@ -0,0 +1,256 @@
+using UnityEngine;
+using UnityEditor;
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Net.WebSockets;
+using System.Text;
+using System.Text.RegularExpressions;
+using System.Threading;
+using System.Threading.Tasks;
+using Newtonsoft.Json;
+using Newtonsoft.Json.Linq;
+
+namespace UnityMCP.Editor
+{
+    /// <summary>
+    /// Selects GameObjects in the open scenes by hierarchy path, instance ID, name,
+    /// tag, layer or component type. Every criterion given must match; path and
+    /// name are globs (* within one level, ** across levels, ? one character).
+    /// Shared by findGameObjects, getGameObjectDetails and manipulateScene.
+    /// </summary>
+    public class ObjectSelector
+    {
+        // Candidates listed in the error when a selector must match one object but matches several
+        private const int MaxListedCandidates = 5;
+
+        public string path { get; set; }
+        public int? instanceId { get; set; }
+        public string name { get; set; }
+        public string tag { get; set; }
+        public string layer { get; set; }
+        public string component { get; set; }
+
+        public class FindGameObjectsData
+        {
+            public ObjectSelector selector { get; set; }
+            public int limit { get; set; } = 100;
+        }
+
+        /// <summary>
+        /// A selector from a JSON value that is either a selector object or a plain
+        /// string, which is treated like GameObject.Find does: a path when it contains
+        /// "/", otherwise a name.
+        /// </summary>
+        public static ObjectSelector FromJson(object value)
+        {
+            if (value == null) return null;
+            if (value is JObject obj) return obj.ToObject<ObjectSelector>();
+            var text = value.ToString();
+            if (string.IsNullOrEmpty(text)) return null;
+            return text.Contains("/") ? new ObjectSelector { path = text.TrimStart('/') } : new ObjectSelector { name = text };
+        }
+
+        public static async Task HandleFindGameObjects(ClientWebSocket webSocket, CancellationToken cancellationToken, string requestId, string dataJson)
+        {
+            object result;
+            try
+            {
+                var requestData = JsonConvert.DeserializeObject<FindGameObjectsData>(dataJson);
+                if (requestData?.selector == null) throw new Exception("selector is required");
+
+                await EditorUtilities.WaitForUnityCompilationAsync();
+
+                // Dispatch to main thread using delayCall
+                var tcs = new TaskCompletionSource<object>(TaskCreationOptions.RunContinuationsAsynchronously);
+                EditorApplication.delayCall += () =>
+                {
+                    try
+                    {
+                        var matches = requestData.selector.FindAll();
+                        tcs.SetResult(new
+                        {
+                            objects = matches.Take(requestData.limit).Select(Describe).ToList(),
+                            total = matches.Count
+                        });
+                    }
+                    catch (Exception ex)
+                    {
+                        tcs.SetException(ex);
+                    }
+                };
+
+                result = await tcs.Task;
+            }
+            catch (Exception e)
+            {
+                Debug.LogError($"[UnityMCP] Error finding GameObjects: {e.Message}");
+                result = new { error = e.Message };
+            }
+
+            var message = JsonConvert.SerializeObject(new
+            {
+                type = "foundGameObjects",
+                requestId = requestId,
+                data = result
+            });
+            await EditorUtilities.SendMessageAsync(webSocket, message, cancellationToken);
+        }
+
+        /// <summary>
+        /// Every matching GameObject, active or not, in hierarchy order.
+        /// Must be called on the main thread.
+        /// </summary>
+        public List<GameObject> FindAll()
+        {
+            var matches = new List<GameObject>();
+            var pathPattern = path != null ? GlobToRegex(path) : null;
+            var namePattern = name != null ? GlobToRegex(name) : null;
+            if (instanceId.HasValue)
+            {
+                var obj = EditorUtility.InstanceIDToObject(instanceId.Value) as GameObject;
+                // Prefab assets have instance IDs too; only scene objects are selectable
+                if (obj != null && obj.scene.IsValid() && Matches(obj, GetPath(obj), pathPattern, namePattern))
+                    matches.Add(obj);
+                return matches;
+            }
+
+            for (int i = 0; i < UnityEngine.SceneManagement.SceneManager.sceneCount; i++)
+            {
+                var scene = UnityEngine.SceneManagement.SceneManager.GetSceneAt(i);
+                if (!scene.isLoaded) continue;
+                foreach (var root in scene.GetRootGameObjects())
+                    Collect(root, root.name, pathPattern, namePattern, matches);
+            }
+            return matches;
+        }
+
+        /// <summary>
+        /// The one GameObject the selector matches. Throws when none or several match,
+        /// listing the candidates so the caller can narrow the selector.
+        /// </summary>
+        public GameObject FindOne()
+        {
+            var matches = FindAll();
+            if (matches.Count == 1) return matches[0];
+            if (matches.Count == 0) throw new Exception($"No GameObject matches {this}");
+
+            var candidates = string.Join(", ", matches.Take(MaxListedCandidates).Select(obj => $"'{GetPath(obj)}' (instanceId {obj.GetInstanceID()})"));
+            var more = matches.Count > MaxListedCandidates ? $" and {matches.Count - MaxListedCandidates} more" : "";
+            throw new Exception($"{matches.Count} GameObjects match {this}: {candidates}{more}. Select one by path or instanceId.");
+        }
+
+        /// <summary>
+        /// The GameObject addressed by a request: the selector when given, otherwise
+        /// the exact name as GameObject.Find understood it before selectors existed.
+        /// </summary>
+        public static GameObject Resolve(ObjectSelector target, string legacyName)
+        {
+            if (target != null) return target.FindOne();
+            if (string.IsNullOrEmpty(legacyName)) throw new Exception("No target or name given");
+
+            var obj = GameObject.Find(legacyName);
+            if (obj == null) throw new Exception($"GameObject '{legacyName}' not found");
+            return obj;
+        }
+
+        /// <summary>Hierarchy path from the scene root, as used in editor state and selectors.</summary>
+        public static string GetPath(GameObject obj)
+        {
+            var result = obj.name;
+            for (var parent = obj.transform.parent; parent != null; parent = parent.parent)
+                result = parent.name + "/" + result;
+            return result;
+        }
+
+        public override string ToString()
+        {
+            var criteria = new List<string>();
+            if (path != null) criteria.Add($"path '{path}'");
+            if (instanceId.HasValue) criteria.Add($"instanceId {instanceId.Value}");
+            if (name != null) criteria.Add($"name '{name}'");
+            if (tag != null) criteria.Add($"tag '{tag}'");
+            if (layer != null) criteria.Add($"layer '{layer}'");
+            if (component != null) criteria.Add($"component '{component}'");
+            return criteria.Count > 0 ? string.Join(", ", criteria) : "(empty selector)";
+        }
+
+        private void Collect(GameObject obj, string objPath, Regex pathPattern, Regex namePattern, List<GameObject> matches)
+        {
+            if (Matches(obj, objPath, pathPattern, namePattern))
+                matches.Add(obj);
+
+            foreach (Transform child in obj.transform)
+                Collect(child.gameObject, objPath + "/" + child.name, pathPattern, namePattern, matches);
+        }
+
+        private bool Matches(GameObject obj, string objPath, Regex pathPattern, Regex namePattern)
+        {
+            if (pathPattern != null && !pathPattern.IsMatch(objPath)) return false;
+            if (namePattern != null && !namePattern.IsMatch(obj.name)) return false;
+            if (tag != null && obj.tag != tag) return false;
+            if (layer != null && LayerMask.LayerToName(obj.layer) != layer) return false;
+            if (component != null && !HasComponent(obj, component)) return false;
+            return true;
+        }
+
+        private static bool HasComponent(GameObject obj, string typeName)
+        {
+            // Missing scripts show up as null components
+            return obj.GetComponents<Component>().Any(comp => comp != null && IsOfType(comp, typeName));
+        }
+
+        /// <summary>Whether the component's type or one of its base types has this name or full name.</summary>
+        public static bool IsOfType(Component comp, string typeName)
+        {
+            for (var type = comp.GetType(); type != null && type != typeof(object); type = type.BaseType)
+            {
+                if (type.Name == typeName || type.FullName == typeName) return true;
+            }
+            return false;
+        }
+
+        private static object Describe(GameObject obj)
+        {
+            return new
+            {
+                name = obj.name,
+                path = GetPath(obj),
+                instanceId = obj.GetInstanceID(),
+                active = obj.activeSelf,
+                tag = obj.tag,
+                layer = LayerMask.LayerToName(obj.layer),
+                components = obj.GetComponents<Component>().Where(c => c != null).Select(c => c.GetType().Name).ToList()
+            };
+        }
+
+        /// <summary>Same glob syntax as the server's tools/glob.ts: case-insensitive, whole string.</summary>
+        private static Regex GlobToRegex(string pattern)
+        {
+            var source = new StringBuilder("^");
+            for (int i = 0; i < pattern.Length; i++)
+            {
+                char c = pattern[i];
+                if (c == '*' && i + 1 < pattern.Length && pattern[i + 1] == '*')
+                {
+                    source.Append(".*");
+                    i++;
+                }
+                else if (c == '*')
+                {
+                    source.Append("[^/]*");
+                }
+                else if (c == '?')
+                {
+                    source.Append("[^/]");
+                }
+                else
+                {
+                    source.Append(Regex.Escape(c.ToString()));
+                }
+            }
+            source.Append("$");
+            return new Regex(source.ToString(), RegexOptions.IgnoreCase);
+        }
+    }
+}
@@ -0,0 +1,74 @@
+using UnityEngine;
+using System;
+using System.Collections.Generic;
+using System.Threading;
+
+namespace UnityMCP.Editor
+{
+    /// <summary>
+    /// Cancellation tokens for the requests being handled, so a "cancel" message from
+    /// the server (sent when a tool call times out or the MCP client gives up) can stop
+    /// work that has not finished yet.
+    /// </summary>
+    public static class RequestCancellation
+    {
+        private static readonly Dictionary<string, CancellationTokenSource> active = new Dictionary<string, CancellationTokenSource>();
+        private static readonly object activeLock = new object();
+
+        /// <summary>
+        /// Start tracking a request. The token is also cancelled when the connection closes.
+        /// Call Complete once the request has been answered.
+        /// </summary>
+        public static CancellationToken Register(string requestId, CancellationToken connectionToken)
+        {
+            if (string.IsNullOrEmpty(requestId))
+                return connectionToken;
+
+            var source = CancellationTokenSource.CreateLinkedTokenSource(connectionToken);
+            lock (activeLock)
+            {
+                active[requestId] = source;
+            }
+            return source.Token;
+        }
+
+        public static void Complete(string requestId)
+        {
+            if (string.IsNullOrEmpty(requestId))
+                return;
+
+            CancellationTokenSource source;
+            lock (activeLock)
+            {
+                if (!active.TryGetValue(requestId, out source))
+                    return;
+                active.Remove(requestId);
+            }
+            source.Dispose();
+        }
+
+        /// <summary>
+        /// Cancel a tracked request. Returns false if it already finished.
+        /// </summary>
+        public static bool Cancel(string requestId, string reason)
+        {
+            CancellationTokenSource source;
+            lock (activeLock)
+            {
+                if (requestId == null || !active.TryGetValue(requestId, out source))
+                    return false;
+            }
+
+            Debug.Log($"[UnityMCP] Cancelling request {requestId}: {reason}");
+            try
+            {
+                source.Cancel();
+            }
+            catch (ObjectDisposedException)
+            {
+                return false;
+            }
+            return true;
+        }
+    }
+}
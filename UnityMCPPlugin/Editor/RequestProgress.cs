@@ -0,0 +1,60 @@
+using UnityEngine;
+using System;
+using System.Net.WebSockets;
+using System.Text;
+using System.Threading;
+using Newtonsoft.Json;
+
+namespace UnityMCP.Editor
+{
+    /// <summary>
+    /// Sends "progress" messages for one request, which the server forwards to the
+    /// MCP client so long operations (bakes, builds, imports) do not look hung.
+    /// Editor commands receive one when their Execute method takes a RequestProgress.
+    /// </summary>
+    public class RequestProgress
+    {
+        private readonly ClientWebSocket webSocket;
+        private readonly string requestId;
+        private readonly CancellationToken cancellationToken;
+        private bool isSending = false;
+
+        public RequestProgress(ClientWebSocket webSocket, string requestId, CancellationToken cancellationToken)
+        {
+            this.webSocket = webSocket;
+            this.requestId = requestId;
+            this.cancellationToken = cancellationToken;
+        }
+
+        /// <summary>
+        /// Report how far the request got, e.g. Report(3, 10, "Baking lightmaps").
+        /// Reports made while the previous one is still being sent are dropped.
+        /// </summary>
+        public async void Report(float progress, float total = 1f, string message = null)
+        {
+            if (isSending || string.IsNullOrEmpty(requestId) || webSocket == null || webSocket.State != WebSocketState.Open)
+                return;
+
+            isSending = true;
+            try
+            {
+                var json = JsonConvert.SerializeObject(new
+                {
+                    type = "progress",
+                    requestId = requestId,
+                    data = new { progress = progress, total = total, message = message }
+                });
+
+                await EditorUtilities.SendMessageAsync(webSocket, json, cancellationToken);
+            }
+            catch (Exception e)
+            {
+                Debug.LogWarning($"[UnityMCP] Failed to send progress: {e.Message}");
+            }
+            finally
+            {
+                isSending = false;
+            }
+        }
+    }
+}
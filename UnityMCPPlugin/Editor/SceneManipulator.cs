@@ -7,6 +7,7 @@ using System.Threading;
 using System.Threading.Tasks;
 using System.Collections.Generic;
 using Newtonsoft.Json;
+using Newtonsoft.Json.Linq;
 using System.Linq;
 
 namespace UnityMCP.Editor
@@ -17,6 +18,7 @@ namespace UnityMCP.Editor
         {
             public string action { get; set; }
             public string name { get; set; } // Name or Path
+            public ObjectSelector target { get; set; }
             public SceneManipulationDetails details { get; set; }
         }
 
@@ -27,16 +29,19 @@ namespace UnityMCP.Editor
             public Vector3Data position { get; set; }
             public Vector3Data rotation { get; set; }
             public Vector3Data scale { get; set; }
-            public string parent { get; set; }
+            public object parent { get; set; } // Name, path or selector
 
             // For set_transform
             public Vector3Data newPosition { get; set; }
             public Vector3Data newRotation { get; set; }
             public Vector3Data newScale { get; set; }
 
-            // For manage_component
+            // For manage_component and set_properties
             public string componentName { get; set; }
             public string componentAction { get; set; } // "add" or "remove"
+
+            // For set_properties: serialized property path -> value
+            public Dictionary<string, JToken> properties { get; set; }
         }
 
         public class Vector3Data
@@ -48,7 +53,7 @@ namespace UnityMCP.Editor
             public Vector3 ToVector3() => new Vector3(x, y, z);
         }
 
-        public async Task HandleSceneManipulation(ClientWebSocket webSocket, CancellationToken cancellationToken, string dataJson)
+        public async Task HandleSceneManipulation(ClientWebSocket webSocket, CancellationToken cancellationToken, string requestId, string dataJson)
         {
             try
             {
@@ -83,11 +88,11 @@ namespace UnityMCP.Editor
                 var message = JsonConvert.SerializeObject(new
                 {
                     type = "sceneManipulationResult",
+                    requestId = requestId,
                     data = result
                 });
 
-                var buffer = Encoding.UTF8.GetBytes(message);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+                await EditorUtilities.SendMessageAsync(webSocket, message, cancellationToken);
                 Debug.Log($"[UnityMCP] Scene manipulation '{requestData.action}' completed.");
             }
             catch (Exception e)
@@ -96,10 +101,10 @@ namespace UnityMCP.Editor
                 var errorMessage = JsonConvert.SerializeObject(new
                 {
                     type = "sceneManipulationResult",
+                    requestId = requestId,
                     data = new { error = e.Message }
                 });
-                var buffer = Encoding.UTF8.GetBytes(errorMessage);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+                await EditorUtilities.SendMessageAsync(webSocket, errorMessage, cancellationToken);
             }
         }
 
@@ -110,11 +115,13 @@ namespace UnityMCP.Editor
                 case "create_game_object":
                     return CreateGameObject(data);
                 case "delete_game_object":
-                    return DeleteGameObject(data.name);
+                    return DeleteGameObject(data);
                 case "set_transform":
                     return SetTransform(data);
                 case "manage_component":
                     return ManageComponent(data);
+                case "set_properties":
+                    return SetProperties(data);
                 default:
                     throw new Exception($"Unknown action: {data.action}");
             }
@@ -122,15 +129,13 @@ namespace UnityMCP.Editor
 
         private object CreateGameObject(ManipulateSceneData data)
         {
+            // Resolved before anything is created so a bad parent leaves the scene untouched
+            var parentObj = ObjectSelector.FromJson(data.details?.parent)?.FindOne();
+
             GameObject obj = new GameObject(data.name);
-            
-            if (!string.IsNullOrEmpty(data.details?.parent))
+            if (parentObj != null)
             {
-                var parentObj = GameObject.Find(data.details.parent);
-                if (parentObj != null)
-                {
-                    obj.transform.SetParent(parentObj.transform, false);
-                }
+                obj.transform.SetParent(parentObj.transform, false);
             }
 
             if (data.details?.position != null) obj.transform.position = data.details.position.ToVector3();
@@ -151,19 +156,18 @@ namespace UnityMCP.Editor
             return new { message = $"Created GameObject '{obj.name}'", instanceId = obj.GetInstanceID() };
         }
 
-        private object DeleteGameObject(string name)
+        private object DeleteGameObject(ManipulateSceneData data)
         {
-            var obj = GameObject.Find(name);
-            if (obj == null) throw new Exception($"GameObject '{name}' not found");
+            var obj = ObjectSelector.Resolve(data.target, data.name);
+            var path = ObjectSelector.GetPath(obj);
 
             Undo.DestroyObjectImmediate(obj);
-            return new { message = $"Deleted GameObject '{name}'" };
+            return new { message = $"Deleted GameObject '{path}'" };
         }
 
         private object SetTransform(ManipulateSceneData data)
         {
-            var obj = GameObject.Find(data.name);
-            if (obj == null) throw new Exception($"GameObject '{data.name}' not found");
+            var obj = ObjectSelector.Resolve(data.target, data.name);
 
             Undo.RecordObject(obj.transform, "Set Transform (MCP)");
 
@@ -176,8 +180,7 @@ namespace UnityMCP.Editor
 
         private object ManageComponent(ManipulateSceneData data)
         {
-            var obj = GameObject.Find(data.name);
-            if (obj == null) throw new Exception($"GameObject '{data.name}' not found");
+            var obj = ObjectSelector.Resolve(data.target, data.name);
 
             string compName = data.details?.componentName;
             if (string.IsNullOrEmpty(compName)) throw new Exception("Component name required");
@@ -199,6 +202,57 @@ namespace UnityMCP.Editor
             throw new Exception("Invalid component action");
         }
 
+        private object SetProperties(ManipulateSceneData data)
+        {
+            var obj = ObjectSelector.Resolve(data.target, data.name);
+
+            string compName = data.details?.componentName;
+            if (string.IsNullOrEmpty(compName)) throw new Exception("Component name required");
+            if (data.details.properties == null || data.details.properties.Count == 0) throw new Exception("No properties given");
+
+            var comp = obj.GetComponents<Component>().FirstOrDefault(c => c != null && ObjectSelector.IsOfType(c, compName));
+            if (comp == null) throw new Exception($"Component '{compName}' not found on '{obj.name}'");
+
+            // Each property is applied on its own so one bad value does not block the others;
+            // a failed one is discarded, even if it got half way (e.g. an array resized)
+            Undo.SetCurrentGroupName("Set Properties (MCP)");
+            int undoGroup = Undo.GetCurrentGroup();
+            var serialized = new SerializedObject(comp);
+            var results = new List<object>();
+            int setCount = 0;
+            foreach (var entry in data.details.properties)
+            {
+                var property = SerializedPropertyWriter.Find(serialized, entry.Key);
+                if (property == null)
+                {
+                    results.Add(new { path = entry.Key, status = "error", error = $"{comp.GetType().Name} has no serialized property '{entry.Key}'" });
+                    continue;
+                }
+
+                try
+                {
+                    SerializedPropertyWriter.Set(property, entry.Value);
+                    // Records undo and prefab overrides like an Inspector edit
+                    serialized.ApplyModifiedProperties();
+                    results.Add(new { path = property.propertyPath, status = "set", value = SerializedPropertyWriter.Read(property) });
+                    setCount++;
+                }
+                catch (Exception e)
+                {
+                    serialized.Update();
+                    results.Add(new { path = property.propertyPath, status = "error", error = e.Message });
+                }
+            }
+            Undo.CollapseUndoOperations(undoGroup);
+
+            return new
+            {
+                message = $"Set {setCount} of {data.details.properties.Count} properties of {comp.GetType().Name} on '{ObjectSelector.GetPath(obj)}'",
+                instanceId = obj.GetInstanceID(),
+                properties = results
+            };
+        }
+
         private Component AddComponentByName(GameObject obj, string className)
         {
             // Try fundamental types first
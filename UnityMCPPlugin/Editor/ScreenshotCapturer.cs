@@ -13,7 +13,7 @@ namespace UnityMCP.Editor
 {
     public class ScreenshotCapturer
     {
-        public async Task SendScreenshot(ClientWebSocket webSocket, CancellationToken cancellationToken)
+        public async Task SendScreenshot(ClientWebSocket webSocket, CancellationToken cancellationToken, string requestId)
         {
             try
             {
@@ -54,12 +54,12 @@ namespace UnityMCP.Editor
                 var message = JsonConvert.SerializeObject(new
                 {
                     type = "screenshot",
+                    requestId = requestId,
                     data = new { base64 = base64Image, format = "jpg" }
                 });
 
                 // Sending can happen on background thread
-                var buffer = Encoding.UTF8.GetBytes(message);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+                await EditorUtilities.SendMessageAsync(webSocket, message, cancellationToken);
                 Debug.Log("[UnityMCP] Sent screenshot");
             }
             catch (Exception e)
@@ -68,10 +68,10 @@ namespace UnityMCP.Editor
                  var errorMessage = JsonConvert.SerializeObject(new
                 {
                     type = "screenshot",
+                    requestId = requestId,
                     data = new { error = e.Message }
                 });
-                var buffer = Encoding.UTF8.GetBytes(errorMessage);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cancellationToken);
+                await EditorUtilities.SendMessageAsync(webSocket, errorMessage, cancellationToken);
             }
         }
 
@@ -0,0 +1,302 @@
+using UnityEngine;
+using UnityEditor;
+using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Text.RegularExpressions;
+using Newtonsoft.Json.Linq;
+
+namespace UnityMCP.Editor
+{
+    /// <summary>
+    /// Writes JSON values from set_properties into SerializedProperties and reads
+    /// them back for the result. Going through SerializedObject (rather than
+    /// reflection) reaches private [SerializeField]s, marks prefab overrides and
+    /// records undo like an edit in the Inspector.
+    /// </summary>
+    public static class SerializedPropertyWriter
+    {
+        // Element type of an object reference, e.g. "PPtr<$Material>" -> "Material"
+        private static readonly Regex ReferenceType = new Regex(@"^PPtr<\$?(.+)>$");
+
+        /// <summary>
+        /// The property at a path, also trying Unity's "m_" naming so "intensity"
+        /// finds "m_Intensity". Null when neither exists.
+        /// </summary>
+        public static SerializedProperty Find(SerializedObject serialized, string path)
+        {
+            var property = serialized.FindProperty(path);
+            if (property != null || path.StartsWith("m_")) return property;
+            return serialized.FindProperty("m_" + char.ToUpperInvariant(path[0]) + path.Substring(1));
+        }
+
+        /// <summary>Set a property from a JSON value; throws with a message for the caller when it does not fit.</summary>
+        public static void Set(SerializedProperty property, JToken value)
+        {
+            if (property.isArray && property.propertyType == SerializedPropertyType.Generic)
+            {
+                if (!(value is JArray items)) throw new Exception($"expected an array for {property.propertyPath}");
+                property.arraySize = items.Count;
+                for (int i = 0; i < items.Count; i++)
+                    Set(property.GetArrayElementAtIndex(i), items[i]);
+                return;
+            }
+
+            switch (property.propertyType)
+            {
+                case SerializedPropertyType.Integer:
+                    property.longValue = ToNumber<long>(value, property);
+                    break;
+                case SerializedPropertyType.Float:
+                    property.doubleValue = ToNumber<double>(value, property);
+                    break;
+                case SerializedPropertyType.Boolean:
+                    if (value.Type != JTokenType.Boolean) throw Mismatch(property, "true or false");
+                    property.boolValue = value.Value<bool>();
+                    break;
+                case SerializedPropertyType.String:
+                    if (value.Type != JTokenType.String) throw Mismatch(property, "a string");
+                    property.stringValue = value.Value<string>();
+                    break;
+                case SerializedPropertyType.Enum:
+                    SetEnum(property, value);
+                    break;
+                case SerializedPropertyType.LayerMask:
+                    SetLayerMask(property, value);
+                    break;
+                case SerializedPropertyType.Color:
+                    property.colorValue = ToColor(value, property);
+                    break;
+                case SerializedPropertyType.Vector2:
+                    property.vector2Value = ToVector(value, property, 2);
+                    break;
+                case SerializedPropertyType.Vector3:
+                    property.vector3Value = ToVector(value, property, 3);
+                    break;
+                case SerializedPropertyType.Vector4:
+                    property.vector4Value = ToVector(value, property, 4);
+                    break;
+                case SerializedPropertyType.Vector2Int:
+                    var v2 = ToVector(value, property, 2);
+                    property.vector2IntValue = new Vector2Int(Mathf.RoundToInt(v2.x), Mathf.RoundToInt(v2.y));
+                    break;
+                case SerializedPropertyType.Vector3Int:
+                    var v3 = ToVector(value, property, 3);
+                    property.vector3IntValue = new Vector3Int(Mathf.RoundToInt(v3.x), Mathf.RoundToInt(v3.y), Mathf.RoundToInt(v3.z));
+                    break;
+                case SerializedPropertyType.Quaternion:
+                    // Euler angles {x,y,z} as in the Inspector, or a full {x,y,z,w}
+                    var q = ToVector(value, property, 3);
+                    property.quaternionValue = value["w"] != null ? new Quaternion(q.x, q.y, q.z, q.w) : Quaternion.Euler(q.x, q.y, q.z);
+                    break;
+                case SerializedPropertyType.Rect:
+                    if (!(value is JObject rect)) throw Mismatch(property, "{ x, y, width, height }");
+                    property.rectValue = new Rect(Field(rect, "x", property), Field(rect, "y", property), Field(rect, "width", property), Field(rect, "height", property));
+                    break;
+                case SerializedPropertyType.ObjectReference:
+                    SetReference(property, value);
+                    break;
+                case SerializedPropertyType.Generic:
+                    // A serializable struct or class: set the fields given, leave the rest
+                    if (!(value is JObject fields)) throw Mismatch(property, "an object with its fields");
+                    foreach (var field in fields)
+                    {
+                        var child = property.FindPropertyRelative(field.Key);
+                        if (child == null) throw new Exception($"{property.propertyPath} has no field '{field.Key}'");
+                        Set(child, field.Value);
+                    }
+                    break;
+                default:
+                    throw new Exception($"{property.propertyPath} is a {property.propertyType}, which set_properties cannot set");
+            }
+        }
+
+        /// <summary>The property's value in the same JSON shapes Set accepts.</summary>
+        public static object Read(SerializedProperty property)
+        {
+            if (property.isArray && property.propertyType == SerializedPropertyType.Generic)
+                return new { arraySize = property.arraySize };
+
+            switch (property.propertyType)
+            {
+                case SerializedPropertyType.Integer: return property.longValue;
+                case SerializedPropertyType.Float: return property.doubleValue;
+                case SerializedPropertyType.Boolean: return property.boolValue;
+                case SerializedPropertyType.String: return property.stringValue;
+                case SerializedPropertyType.LayerMask: return property.intValue;
+                case SerializedPropertyType.Enum:
+                    return property.enumValueIndex >= 0 && property.enumValueIndex < property.enumNames.Length
+                        ? property.enumNames[property.enumValueIndex]
+                        : (object)property.intValue;
+                case SerializedPropertyType.Color:
+                    var c = property.colorValue;
+                    return new { r = c.r, g = c.g, b = c.b, a = c.a };
+                case SerializedPropertyType.Vector2:
+                    return new { x = property.vector2Value.x, y = property.vector2Value.y };
+                case SerializedPropertyType.Vector3:
+                    return new { x = property.vector3Value.x, y = property.vector3Value.y, z = property.vector3Value.z };
+                case SerializedPropertyType.Vector4:
+                    return new { x = property.vector4Value.x, y = property.vector4Value.y, z = property.vector4Value.z, w = property.vector4Value.w };
+                case SerializedPropertyType.Vector2Int:
+                    return new { x = property.vector2IntValue.x, y = property.vector2IntValue.y };
+                case SerializedPropertyType.Vector3Int:
+                    return new { x = property.vector3IntValue.x, y = property.vector3IntValue.y, z = property.vector3IntValue.z };
+                case SerializedPropertyType.Quaternion:
+                    var euler = property.quaternionValue.eulerAngles;
+                    return new { x = euler.x, y = euler.y, z = euler.z };
+                case SerializedPropertyType.Rect:
+                    var r = property.rectValue;
+                    return new { x = r.x, y = r.y, width = r.width, height = r.height };
+                case SerializedPropertyType.ObjectReference:
+                    return DescribeReference(property.objectReferenceValue);
+                default:
+                    return null;
+            }
+        }
+
+        private static T ToNumber<T>(JToken value, SerializedProperty property)
+        {
+            if (value.Type != JTokenType.Integer && value.Type != JTokenType.Float) throw Mismatch(property, "a number");
+            if (typeof(T) == typeof(long) && value.Type == JTokenType.Float) throw Mismatch(property, "a whole number");
+            return value.Value<T>();
+        }
+
+        private static void SetEnum(SerializedProperty property, JToken value)
+        {
+            if (value.Type == JTokenType.Integer)
+            {
+                // The enum's underlying value, as in C#
+                property.intValue = value.Value<int>();
+                return;
+            }
+            if (value.Type != JTokenType.String) throw Mismatch(property, "an enum name or value");
+
+            var name = value.Value<string>();
+            var index = Array.FindIndex(property.enumNames, n => string.Equals(n, name, StringComparison.OrdinalIgnoreCase));
+            if (index < 0) index = Array.FindIndex(property.enumDisplayNames, n => string.Equals(n, name, StringComparison.OrdinalIgnoreCase));
+            if (index < 0) throw new Exception($"'{name}' is not one of {property.propertyPath}'s values: {string.Join(", ", property.enumNames)}");
+            property.enumValueIndex = index;
+        }
+
+        private static void SetLayerMask(SerializedProperty property, JToken value)
+        {
+            if (value.Type == JTokenType.Integer)
+            {
+                property.intValue = value.Value<int>();
+                return;
+            }
+            if (!(value is JArray names)) throw Mismatch(property, "a mask or an array of layer names");
+
+            int mask = 0;
+            foreach (var name in names.Values<string>())
+            {
+                var layer = LayerMask.NameToLayer(name);
+                if (layer < 0) throw new Exception($"Layer '{name}' does not exist");
+                mask |= 1 << layer;
+            }
+            property.intValue = mask;
+        }
+
+        private static Color ToColor(JToken value, SerializedProperty property)
+        {
+            if (value.Type == JTokenType.String)
+            {
+                if (ColorUtility.TryParseHtmlString(value.Value<string>(), out var parsed)) return parsed;
+                throw Mismatch(property, "a color such as '#FFCC99'");
+            }
+            if (!(value is JObject color)) throw Mismatch(property, "a color { r, g, b, a } or '#RRGGBB'");
+            return new Color(Field(color, "r", property), Field(color, "g", property), Field(color, "b", property), color["a"] != null ? Field(color, "a", property) : 1f);
+        }
+
+        private static Vector4 ToVector(JToken value, SerializedProperty property, int components)
+        {
+            var names = new[] { "x", "y", "z", "w" };
+            if (!(value is JObject vector)) throw Mismatch(property, "{ " + string.Join(", ", names.Take(components)) + " }");
+
+            var result = Vector4.zero;
+            for (int i = 0; i < 4; i++)
+            {
+                if (i < components || vector[names[i]] != null) result[i] = Field(vector, names[i], property);
+            }
+            return result;
+        }
+
+        private static float Field(JObject value, string name, SerializedProperty property)
+        {
+            var field = value[name];
+            if (field == null || (field.Type != JTokenType.Integer && field.Type != JTokenType.Float))
+                throw new Exception($"{property.propertyPath} needs a number for '{name}'");
+            return field.Value<float>();
+        }
+
+        /// <summary>
+        /// Object references: null, an asset by { guid } or { assetPath }, or a scene object
+        /// by selector. A GameObject found for a component field is replaced by its component.
+        /// </summary>
+        private static void SetReference(SerializedProperty property, JToken value)
+        {
+            if (value.Type == JTokenType.Null)
+            {
+                property.objectReferenceValue = null;
+                return;
+            }
+            if (!(value is JObject reference)) throw Mismatch(property, "null, { guid }, { assetPath } or a selector such as { path }");
+
+            var typeMatch = ReferenceType.Match(property.type);
+            var typeName = typeMatch.Success ? typeMatch.Groups[1].Value : "Object";
+            UnityEngine.Object target;
+
+            var assetPath = reference["guid"] != null
+                ? AssetDatabase.GUIDToAssetPath(reference["guid"].Value<string>())
+                : reference["assetPath"]?.Value<string>();
+            if (assetPath != null)
+            {
+                if (string.IsNullOrEmpty(assetPath)) throw new Exception($"No asset has GUID {reference["guid"]}");
+                var assets = AssetDatabase.LoadAllAssetsAtPath(assetPath);
+                if (assets.Length == 0) throw new Exception($"No asset at '{assetPath}'");
+                // Sub-assets (e.g. a mesh inside a model) are matched by type
+                target = assets.FirstOrDefault(asset => asset != null && IsNamed(asset.GetType(), typeName)) ?? AssetDatabase.LoadMainAssetAtPath(assetPath);
+            }
+            else
+            {
+                target = reference.ToObject<ObjectSelector>().FindOne();
+            }
+
+            if (target is GameObject obj && typeName != "GameObject")
+            {
+                target = obj.GetComponents<Component>().FirstOrDefault(comp => comp != null && ObjectSelector.IsOfType(comp, typeName)) ?? target;
+            }
+
+            property.objectReferenceValue = target;
+            // Unity silently stores null when the object does not fit the field's type
+            if (property.objectReferenceValue != target)
+                throw new Exception($"{DescribeReference(target)} cannot be assigned to {property.propertyPath}, which takes a {typeName}");
+        }
+
+        private static bool IsNamed(Type type, string typeName)
+        {
+            for (; type != null; type = type.BaseType)
+            {
+                if (type.Name == typeName) return true;
+            }
+            return false;
+        }
+
+        private static object DescribeReference(UnityEngine.Object value)
+        {
+            if (value == null) return null;
+            var assetPath = AssetDatabase.GetAssetPath(value);
+            if (!string.IsNullOrEmpty(assetPath)) return new { type = value.GetType().Name, assetPath };
+
+            var obj = value is Component comp ? comp.gameObject : value as GameObject;
+            return obj != null
+                ? new { type = value.GetType().Name, path = ObjectSelector.GetPath(obj), instanceId = obj.GetInstanceID() }
+                : (object)new { type = value.GetType().Name, name = value.name };
+        }
+
+        private static Exception Mismatch(SerializedProperty property, string expected)
+        {
+            return new Exception($"{property.propertyPath} is a {property.propertyType} and needs {expected}");
+        }
+    }
+}
@@ -19,8 +19,9 @@ namespace UnityMCP.Editor
     {
         private static ClientWebSocket webSocket;
         private static bool isConnected = false;
-        private static readonly Uri serverUri = new Uri("ws://localhost:8080");
-        private static readonly Uri healthCheckUri = new Uri("http://localhost:8081/health");
+        // Resolved from UnityMCPSettings on every connection attempt so edits apply on retry
+        private static Uri serverUri = UnityMCPSettings.ServerUri;
+        private static Uri healthCheckUri = UnityMCPSettings.HealthCheckUri;
         private static string lastErrorMessage = "";
         private static readonly Queue<LogEntry> logBuffer = new Queue<LogEntry>();
         private static readonly int maxLogBufferSize = 1000;
@@ -34,6 +35,21 @@ namespace UnityMCP.Editor
         private static bool isSendingLog = false;
         private static bool isConnecting = false;
 
+        // Message schema version and the request types HandleMessage understands,
+        // declared in hello so the server only exposes tools this plugin can serve
+        private const int ProtocolVersion = 1;
+        private static readonly string[] SupportedMessageTypes =
+        {
+            "executeEditorCommand",
+            "getEditorState",
+            "getGameObjectDetails",
+            "findGameObjects",
+            "takeScreenshot",
+            "manipulateScene",
+            "manageAssets",
+            "cancel"
+        };
+
         // Public properties for the debug window
         public static bool IsConnected => isConnected && webSocket != null && webSocket.State == WebSocketState.Open;
         public static Uri ServerUri => serverUri;
@@ -85,6 +101,27 @@ namespace UnityMCP.Editor
                 ConnectToServer();
             };
             EditorApplication.update += Update;
+            AssemblyReloadEvents.beforeAssemblyReload += OnBeforeAssemblyReload;
+            EditorStateWatcher.Initialize();
+        }
+
+        // Close the socket cleanly so the server fails pending requests right away
+        // instead of waiting for them to time out while scripts recompile
+        private static void OnBeforeAssemblyReload()
+        {
+            if (webSocket == null || webSocket.State != WebSocketState.Open)
+                return;
+
+            try
+            {
+                webSocket.CloseOutputAsync(WebSocketCloseStatus.EndpointUnavailable, "Domain reload", CancellationToken.None)
+                    .Wait(TimeSpan.FromSeconds(1));
+            }
+            catch (Exception e)
+            {
+                Debug.LogWarning($"[UnityMCP] Failed to close connection before domain reload: {e.Message}");
+            }
+            isConnected = false;
         }
 
         private static void HandleLogMessage(string message, string stackTrace, LogType type)
@@ -133,8 +170,7 @@ namespace UnityMCP.Editor
                     }
                 });
 
-                var buffer = Encoding.UTF8.GetBytes(message);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cts.Token);
+                await EditorUtilities.SendMessageAsync(webSocket, message, cts.Token);
             }
             catch (Exception e)
             {
@@ -166,7 +202,14 @@ namespace UnityMCP.Editor
         {
             try
             {
-                var response = await httpClient.GetAsync(healthCheckUri);
+                // The server only reports version and uptime to callers presenting the token
+                using var request = new HttpRequestMessage(HttpMethod.Get, healthCheckUri);
+                var token = UnityMCPSettings.ResolveAuthToken();
+                if (!string.IsNullOrEmpty(token))
+                {
+                    request.Headers.Authorization = new System.Net.Http.Headers.AuthenticationHeaderValue("Bearer", token);
+                }
+                var response = await httpClient.SendAsync(request);
 
                 if (response.IsSuccessStatusCode)
                 {
@@ -176,7 +219,14 @@ namespace UnityMCP.Editor
                     // Only log success on initial connection or after failures
                     if (consecutiveFailures > 0 || !hasLoggedDisconnection)
                     {
-                        Debug.Log($"[UnityMCP] Health check passed - Server version: {healthData["version"]}, Uptime: {healthData["uptime"]}s");
+                        if (healthData != null && healthData.ContainsKey("version"))
+                        {
+                            Debug.Log($"[UnityMCP] Health check passed - Server version: {healthData["version"]}, Uptime: {healthData["uptime"]}s");
+                        }
+                        else
+                        {
+                            Debug.Log("[UnityMCP] Health check passed - Server did not accept the auth token, check the Auth Token setting");
+                        }
                     }
                     return true;
                 }
@@ -237,14 +287,20 @@ namespace UnityMCP.Editor
                     data = new
                     {
                         version = "1.0.0",
+                        protocolVersion = ProtocolVersion,
+                        messageTypes = SupportedMessageTypes,
+                        assemblies = EditorCommandExecutor.GetLoadedOptionalAssemblies(),
                         unityVersion = Application.unityVersion,
                         platform = Application.platform.ToString(),
+                        // Identifies this editor when several are connected to one server
+                        projectPath = System.IO.Path.GetDirectoryName(Application.dataPath),
+                        projectName = Application.productName,
+                        token = UnityMCPSettings.ResolveAuthToken(),
                         timestamp = DateTime.UtcNow
                     }
                 });
 
-                var buffer = Encoding.UTF8.GetBytes(handshakeMessage);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cts.Token);
+                await EditorUtilities.SendMessageAsync(webSocket, handshakeMessage, cts.Token);
                 Debug.Log("[UnityMCP] Handshake message sent");
             }
             catch (Exception e)
@@ -263,6 +319,8 @@ namespace UnityMCP.Editor
             }
 
             isConnecting = true;
+            serverUri = UnityMCPSettings.ServerUri;
+            healthCheckUri = UnityMCPSettings.HealthCheckUri;
             try
             {
                 // Perform health check before attempting WebSocket connection
@@ -291,6 +349,14 @@ namespace UnityMCP.Editor
 
                 await webSocket.ConnectAsync(serverUri, linkedCts.Token);
 
+                // Handlers must exist before the handshake: the server starts sending
+                // queued requests as soon as it has received "hello"
+                editorStateReporter = new EditorStateReporter();
+                inspectorDataReporter = new InspectorDataReporter();
+                screenshotCapturer = new ScreenshotCapturer();
+                sceneManipulator = new SceneManipulator();
+                assetManager = new AssetManager();
+
                 // Send initial handshake
                 Debug.Log("[UnityMCP] Sending initial handshake...");
                 await SendHandshakeMessage();
@@ -298,6 +364,9 @@ namespace UnityMCP.Editor
                 isConnected = true;
                 lastPongReceived = DateTime.UtcNow; // Initialize heartbeat tracking
 
+                // The server's live resources start from the full state
+                EditorStateWatcher.MarkAllChanged();
+
                 // Reset backoff on successful connection
                 consecutiveFailures = 0;
                 currentReconnectInterval = reconnectInterval;
@@ -305,13 +374,6 @@ namespace UnityMCP.Editor
 
                 Debug.Log("[UnityMCP] Successfully connected to MCP Server");
                 StartReceiving();
-
-                // Initialize editor state reporter
-                editorStateReporter = new EditorStateReporter();
-                inspectorDataReporter = new InspectorDataReporter();
-                screenshotCapturer = new ScreenshotCapturer();
-                sceneManipulator = new SceneManipulator();
-                assetManager = new AssetManager();
             }
             catch (OperationCanceledException)
             {
@@ -328,11 +390,11 @@ namespace UnityMCP.Editor
                 // Common Windows Winsock error codes
                 if (nativeError == 10061) // WSAECONNREFUSED
                 {
-                    errorDetail = "Connection refused - WebSocket server may not be listening on port 8080";
+                    errorDetail = $"Connection refused - WebSocket server may not be listening on port {serverUri.Port}";
                 }
                 else if (nativeError == 10048) // WSAEADDRINUSE
                 {
-                    errorDetail = "Port 8080 is already in use by another application";
+                    errorDetail = $"Port {serverUri.Port} is already in use by another application";
                 }
                 else if (nativeError == 10060) // WSAETIMEDOUT
                 {
@@ -436,6 +498,8 @@ namespace UnityMCP.Editor
                     lastHeartbeatTime = now;
                 }
 
+                EditorStateWatcher.Update(webSocket, editorStateReporter, cts.Token);
+
                 // Check for heartbeat timeout
                 if (lastPongReceived != DateTime.MinValue)
                 {
@@ -468,8 +532,11 @@ namespace UnityMCP.Editor
                         if (result.EndOfMessage)
                         {
                             var message = Encoding.UTF8.GetString(messageBuffer.ToArray());
-                            await HandleMessage(message);
                             messageBuffer.Clear();
+                            // Not awaited, so a "cancel" can be received while a long command is still running
+                            _ = HandleMessage(message).ContinueWith(
+                                task => Debug.LogError($"[UnityMCP] Error handling message: {task.Exception?.GetBaseException().Message}"),
+                                TaskContinuationOptions.OnlyOnFaulted);
                         }
                         // Otherwise, continue receiving the rest of the message
                     }
@@ -502,34 +569,60 @@ namespace UnityMCP.Editor
                 }
 
                 string messageType = data["type"].ToString();
+                // Echoed back on the response so the server can match it to the pending tool call
+                string requestId = data.ContainsKey("requestId") ? data["requestId"]?.ToString() : null;
 
                 switch (messageType)
                 {
+                    case "error":
+                        // Sent before the server drops the connection, e.g. for a wrong auth token
+                        var error = data.ContainsKey("data") ? JsonConvert.DeserializeObject<Dictionary<string, object>>(data["data"].ToString()) : null;
+                        lastErrorMessage = $"[UnityMCP] Server rejected the connection: {(error != null && error.ContainsKey("message") ? error["message"] : "unknown reason")}";
+                        if (error != null && error.ContainsKey("code") && error["code"]?.ToString() == "unauthorized")
+                        {
+                            lastErrorMessage += $"\nSet the Auth Token in UnityMCP > Debug Window to the server's token ({UnityMCPSettings.AuthTokenFile}).";
+                        }
+                        Debug.LogError(lastErrorMessage);
+                        break;
                     case "welcome":
                         Debug.Log($"[UnityMCP] Received welcome from server: {(data.ContainsKey("data") ? data["data"] : "")}");
+                        var welcome = data.ContainsKey("data") ? JsonConvert.DeserializeObject<Dictionary<string, object>>(data["data"].ToString()) : null;
+                        if (welcome != null && welcome.ContainsKey("warning") && welcome["warning"] != null)
+                        {
+                            lastErrorMessage = $"[UnityMCP] Protocol mismatch: {welcome["warning"]}";
+                            Debug.LogWarning(lastErrorMessage);
+                        }
                         break;
                     case "executeEditorCommand":
                         if (!data.ContainsKey("data")) { Debug.LogWarning("[UnityMCP] executeEditorCommand missing 'data'"); break; }
-                        await EditorCommandExecutor.ExecuteEditorCommand(webSocket, cts.Token, data["data"].ToString());
+                        await EditorCommandExecutor.ExecuteEditorCommand(webSocket, cts.Token, requestId, data["data"].ToString());
                         break;
                     case "getEditorState":
-                        await editorStateReporter.SendEditorState(webSocket, cts.Token);
+                        await editorStateReporter.SendEditorState(webSocket, cts.Token, requestId);
                         break;
                     case "getGameObjectDetails":
                         if (!data.ContainsKey("data")) { Debug.LogWarning("[UnityMCP] getGameObjectDetails missing 'data'"); break; }
-                        await inspectorDataReporter.SendObjectDetails(webSocket, cts.Token, data["data"].ToString());
+                        await inspectorDataReporter.SendObjectDetails(webSocket, cts.Token, requestId, data["data"].ToString());
+                        break;
+                    case "findGameObjects":
+                        if (!data.ContainsKey("data")) { Debug.LogWarning("[UnityMCP] findGameObjects missing 'data'"); break; }
+                        await ObjectSelector.HandleFindGameObjects(webSocket, cts.Token, requestId, data["data"].ToString());
                         break;
                     case "takeScreenshot":
-                        await screenshotCapturer.SendScreenshot(webSocket, cts.Token);
+                        await screenshotCapturer.SendScreenshot(webSocket, cts.Token, requestId);
                         break;
                     case "manipulateScene":
                         if (!data.ContainsKey("data")) { Debug.LogWarning("[UnityMCP] manipulateScene missing 'data'"); break; }
                         Debug.Log("[UnityMCP] Handling manipulateScene");
-                        await sceneManipulator.HandleSceneManipulation(webSocket, cts.Token, data["data"].ToString());
+                        await sceneManipulator.HandleSceneManipulation(webSocket, cts.Token, requestId, data["data"].ToString());
                         break;
                     case "manageAssets":
                         if (!data.ContainsKey("data")) { Debug.LogWarning("[UnityMCP] manageAssets missing 'data'"); break; }
-                        await assetManager.HandleAssetManagement(webSocket, cts.Token, data["data"].ToString());
+                        await assetManager.HandleAssetManagement(webSocket, cts.Token, requestId, data["data"].ToString());
+                        break;
+                    case "cancel":
+                        var cancel = data.ContainsKey("data") ? JsonConvert.DeserializeObject<Dictionary<string, object>>(data["data"].ToString()) : null;
+                        RequestCancellation.Cancel(requestId, cancel != null && cancel.ContainsKey("reason") ? cancel["reason"]?.ToString() : "cancelled by the server");
                         break;
                     case "pong":
                         lastPongReceived = DateTime.UtcNow;
@@ -558,8 +651,7 @@ namespace UnityMCP.Editor
                     data = new { timestamp = DateTime.UtcNow }
                 });
 
-                var buffer = Encoding.UTF8.GetBytes(message);
-                await webSocket.SendAsync(new ArraySegment<byte>(buffer), WebSocketMessageType.Text, true, cts.Token);
+                await EditorUtilities.SendMessageAsync(webSocket, message, cts.Token);
             }
             catch (Exception e)
             {
@@ -0,0 +1,69 @@
+using UnityEngine;
+using UnityEditor;
+using System;
+using System.IO;
+
+namespace UnityMCP.Editor
+{
+    /// <summary>
+    /// Connection settings for the MCP server, stored in EditorPrefs per project so
+    /// two projects open on the same machine can talk to different server instances.
+    /// </summary>
+    public static class UnityMCPSettings
+    {
+        public const string DefaultHost = "localhost";
+        public const int DefaultPort = 8080;
+        public const int DefaultHealthPort = 8081;
+
+        private static string KeyPrefix => $"UnityMCP.{Application.dataPath}.";
+
+        public static string Host
+        {
+            get => EditorPrefs.GetString(KeyPrefix + "Host", DefaultHost);
+            set => EditorPrefs.SetString(KeyPrefix + "Host", string.IsNullOrWhiteSpace(value) ? DefaultHost : value.Trim());
+        }
+
+        public static int Port
+        {
+            get => EditorPrefs.GetInt(KeyPrefix + "Port", DefaultPort);
+            set => EditorPrefs.SetInt(KeyPrefix + "Port", value);
+        }
+
+        public static int HealthPort
+        {
+            get => EditorPrefs.GetInt(KeyPrefix + "HealthPort", DefaultHealthPort);
+            set => EditorPrefs.SetInt(KeyPrefix + "HealthPort", value);
+        }
+
+        /// <summary>
+        /// Shared secret sent in the hello message. Leave empty to use the token the
+        /// server generated in ~/.unity-mcp/auth-token on this machine.
+        /// </summary>
+        public static string AuthToken
+        {
+            get => EditorPrefs.GetString(KeyPrefix + "AuthToken", "");
+            set => EditorPrefs.SetString(KeyPrefix + "AuthToken", value?.Trim() ?? "");
+        }
+
+        public static string AuthTokenFile => Path.Combine(
+            Environment.GetFolderPath(Environment.SpecialFolder.UserProfile), ".unity-mcp", "auth-token");
+
+        /// <summary>The configured token, or the contents of the server's token file.</summary>
+        public static string ResolveAuthToken()
+        {
+            if (!string.IsNullOrEmpty(AuthToken)) return AuthToken;
+
+            try
+            {
+                return File.Exists(AuthTokenFile) ? File.ReadAllText(AuthTokenFile).Trim() : "";
+            }
+            catch (IOException)
+            {
+                return "";
+            }
+        }
+
+        public static Uri ServerUri => new Uri($"ws://{Host}:{Port}");
+        public static Uri HealthCheckUri => new Uri($"http://{Host}:{HealthPort}/health");
+    }
+}
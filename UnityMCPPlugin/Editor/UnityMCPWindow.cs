@@ -9,6 +9,7 @@ namespace UnityMCP.Editor
         // State tracking for efficient repainting
         private bool previousConnectionState;
         private string previousErrorMessage;
+        private bool showSettings;
 
         [MenuItem("UnityMCP/Debug Window", false, 1)]
         public static void ShowWindow()
@@ -73,6 +74,29 @@ namespace UnityMCP.Editor
                 EditorGUILayout.SelectableLabel(UnityMCPConnection.ServerUri.ToString(), EditorStyles.textField, GUILayout.Height(20));
                 EditorGUILayout.EndHorizontal();
 
+                EditorGUILayout.Space(5);
+
+                // Server settings, must match the MCP server's --host/--port/--health-port
+                showSettings = EditorGUILayout.Foldout(showSettings, "Server Settings", true);
+                if (showSettings)
+                {
+                    EditorGUI.indentLevel++;
+                    var host = EditorGUILayout.TextField("Host", UnityMCPSettings.Host);
+                    var port = EditorGUILayout.IntField("WebSocket Port", UnityMCPSettings.Port);
+                    var healthPort = EditorGUILayout.IntField("Health Port", UnityMCPSettings.HealthPort);
+                    var authToken = EditorGUILayout.PasswordField("Auth Token", UnityMCPSettings.AuthToken);
+                    if (host != UnityMCPSettings.Host) UnityMCPSettings.Host = host;
+                    if (port != UnityMCPSettings.Port) UnityMCPSettings.Port = port;
+                    if (healthPort != UnityMCPSettings.HealthPort) UnityMCPSettings.HealthPort = healthPort;
+                    if (authToken != UnityMCPSettings.AuthToken) UnityMCPSettings.AuthToken = authToken;
+                    if (string.IsNullOrEmpty(UnityMCPSettings.AuthToken))
+                    {
+                        EditorGUILayout.HelpBox($"Empty: using the token from {UnityMCPSettings.AuthTokenFile}", MessageType.None);
+                    }
+                    EditorGUILayout.HelpBox("Changes take effect on the next connection attempt.", MessageType.Info);
+                    EditorGUI.indentLevel--;
+                }
+
                 EditorGUILayout.Space(10);
 
                 // Retry button - make it more prominent
@@ -8,18 +8,26 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const rootDir = path.resolve(__dirname, '..');
 
-const src = path.join(rootDir, 'src', 'resources', 'text');
-const dest = path.join(rootDir, 'build', 'resources', 'text');
+// Non-TypeScript files the server loads at runtime
+const directories = [
+  path.join('resources', 'text'),
+  path.join('scripts', 'templates'),
+];
 
 async function copyResources() {
   try {
-    // Ensure the destination directory exists
-    await mkdir(dirname(dest), { recursive: true });
-    
-    // Copy files recursively
-    await cp(src, dest, { recursive: true, force: true });
-    
-    console.log(`Successfully copied ${src} to ${dest}`);
+    for (const directory of directories) {
+      const src = path.join(rootDir, 'src', directory);
+      const dest = path.join(rootDir, 'build', directory);
+
+      // Ensure the destination directory exists
+      await mkdir(dirname(dest), { recursive: true });
+
+      // Copy files recursively
+      await cp(src, dest, { recursive: true, force: true });
+
+      console.log(`Successfully copied ${src} to ${dest}`);
+    }
   } catch (err) {
     console.error('Error copying resources:', err);
     process.exit(1);
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { WebSocket } from 'ws';
+import { EditorSession } from './EditorSession.js';
+
+const info = {
+    projectPath: '/home/user/Projects/MyWorld',
+    unityVersion: '2022.3.22f1',
+    platform: 'LinuxEditor',
+};
+
+describe('EditorSession', () => {
+    it('should derive a stable id from the handshake data', () => {
+        expect(EditorSession.idFor(info)).toBe(EditorSession.idFor({ ...info }));
+        expect(EditorSession.idFor(info)).toMatch(/^[0-9a-f]{8}$/);
+        expect(EditorSession.idFor({ ...info, projectPath: '/other' })).not.toBe(EditorSession.idFor(info));
+    });
+
+    it('should give each connection its own id when the plugin sends nothing to derive one from', () => {
+        const first = EditorSession.idFor({ pluginVersion: '1.0.0' });
+
+        expect(first).toMatch(/^[0-9a-f]{8}$/);
+        expect(EditorSession.idFor({ pluginVersion: '1.0.0' })).not.toBe(first);
+        expect(EditorSession.isIdentifiable({ pluginVersion: '1.0.0' })).toBe(false);
+        expect(EditorSession.isIdentifiable(info)).toBe(true);
+    });
+
+    it('should fall back to the project folder name', () => {
+        const session = new EditorSession(info, {} as WebSocket, 10);
+        expect(session.projectName).toBe('MyWorld');
+        expect(new EditorSession({ ...info, projectName: 'My World' }, {} as WebSocket, 10).projectName).toBe('My World');
+    });
+
+    it('should match by id, project name or project path', () => {
+        const session = new EditorSession(info, {} as WebSocket, 10);
+        expect(session.matches(session.id)).toBe(true);
+        expect(session.matches('myworld')).toBe(true);
+        expect(session.matches('/home/user/Projects/MyWorld')).toBe(true);
+        expect(session.matches('OtherWorld')).toBe(false);
+    });
+
+    it('should keep at most the configured number of log entries', () => {
+        const session = new EditorSession(info, {} as WebSocket, 2);
+        for (const message of ['a', 'b', 'c']) {
+            session.addLog({ message, stackTrace: '', logType: 'Log', timestamp: '' });
+        }
+        expect(session.getLogBuffer().map((entry) => entry.message)).toEqual(['b', 'c']);
+    });
+});
@@ -0,0 +1,142 @@
+import { WebSocket } from "ws";
+import { createHash, randomBytes } from "crypto";
+import path from "path";
+import { LogEntry } from "../tools/types.js";
+import { NegotiatedProtocol, negotiateProtocol } from "./protocol.js";
+import { EditorStateChange, OutboundMessage } from "./messages.js";
+
+/** Editor identity reported by the plugin in the hello handshake. */
+export interface EditorInfo {
+  projectPath?: string;
+  projectName?: string;
+  unityVersion?: string;
+  platform?: string;
+  pluginVersion?: string;
+  /** Optional assemblies loaded in the editor, used to pick usings for snippets. */
+  assemblies?: string[];
+}
+
+/**
+ * One Unity Editor instance known to the server. The session outlives its
+ * socket so that an editor reconnecting after a domain reload keeps its id,
+ * log history and any requests held for replay.
+ */
+export class EditorSession {
+  public readonly id: string;
+  public info: EditorInfo;
+  public socket: WebSocket | null;
+  public connectedAt: Date;
+  public lastActiveAt: Date;
+  /** Result of the protocol negotiation in the latest hello. */
+  public protocol: NegotiatedProtocol;
+
+  private logBuffer: LogEntry[] = [];
+  /** Latest editor state pushed by the plugin; parts it never sent are missing. */
+  private liveState: EditorStateChange = {};
+  private readonly maxLogBufferSize: number;
+
+  constructor(
+    info: EditorInfo,
+    socket: WebSocket,
+    maxLogBufferSize: number,
+    protocol: NegotiatedProtocol = negotiateProtocol({}),
+    id: string = EditorSession.idFor(info),
+  ) {
+    this.id = id;
+    this.info = info;
+    this.socket = socket;
+    this.connectedAt = new Date();
+    this.lastActiveAt = this.connectedAt;
+    this.maxLogBufferSize = maxLogBufferSize;
+    this.protocol = protocol;
+  }
+
+  /**
+   * Stable short id derived from the handshake data, so reconnects map to the
+   * same session. Plugins too old to send any identifying field get a random id
+   * per connection instead of all sharing one session.
+   */
+  public static idFor(info: EditorInfo): string {
+    if (!EditorSession.isIdentifiable(info)) return randomBytes(4).toString("hex");
+    return createHash("sha1")
+      .update(`${info.projectPath ?? ""}|${info.unityVersion ?? ""}|${info.platform ?? ""}`)
+      .digest("hex")
+      .slice(0, 8);
+  }
+
+  /** Whether the handshake data has anything a stable id can be derived from. */
+  public static isIdentifiable(info: EditorInfo): boolean {
+    return info.projectPath !== undefined || info.unityVersion !== undefined || info.platform !== undefined;
+  }
+
+  public get projectName(): string {
+    if (this.info.projectName) return this.info.projectName;
+    return this.info.projectPath ? path.basename(this.info.projectPath) : "Unknown project";
+  }
+
+  public isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  /** Whether a tool's `editor` argument refers to this session (id, project name or project path). */
+  public matches(selector: string): boolean {
+    const needle = selector.toLowerCase();
+    return (
+      this.id === selector ||
+      this.projectName.toLowerCase() === needle ||
+      (this.info.projectPath !== undefined && this.info.projectPath.toLowerCase() === needle)
+    );
+  }
+
+  /** Whether the plugin declared it handles this request type. */
+  public supports(type: string): boolean {
+    return this.protocol.compatible && this.protocol.messageTypes.includes(type);
+  }
+
+  public send(message: OutboundMessage): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  public touch(): void {
+    this.lastActiveAt = new Date();
+  }
+
+  public addLog(logEntry: LogEntry): void {
+    // Add to buffer, removing oldest if at capacity
+    this.logBuffer.push(logEntry);
+    if (this.logBuffer.length > this.maxLogBufferSize) {
+      this.logBuffer.shift();
+    }
+  }
+
+  public getLogBuffer(): LogEntry[] {
+    return [...this.logBuffer];
+  }
+
+  /** Merge a pushed change into the live state and return the keys that were sent. */
+  public updateLiveState(change: EditorStateChange): (keyof EditorStateChange)[] {
+    const keys = (["sceneHierarchy", "selectedObjects", "playModeState"] as const).filter((key) => change[key] !== undefined);
+    this.liveState = { ...this.liveState, ...Object.fromEntries(keys.map((key) => [key, change[key]])) };
+    return keys;
+  }
+
+  public getLiveState(): EditorStateChange {
+    return this.liveState;
+  }
+
+  public describe() {
+    return {
+      id: this.id,
+      projectName: this.projectName,
+      projectPath: this.info.projectPath ?? null,
+      unityVersion: this.info.unityVersion ?? null,
+      platform: this.info.platform ?? null,
+      pluginVersion: this.info.pluginVersion ?? null,
+      protocolVersion: this.protocol.version,
+      protocolWarning: this.protocol.warning ?? null,
+      connected: this.isConnected(),
+      connectedAt: this.connectedAt.toISOString(),
+      lastActiveAt: this.lastActiveAt.toISOString(),
+    };
+  }
+}
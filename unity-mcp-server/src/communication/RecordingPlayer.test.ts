@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { UnityConnection } from './UnityConnection.js';
+import { RecordingPlayer } from './RecordingPlayer.js';
+import { readRecording } from './SessionRecorder.js';
+import { UnityDisconnectedError } from './errors.js';
+import { getFreePort, MockUnityEditor } from '../testing/MockUnityEditor.js';
+
+const AUTH_TOKEN = 'replay-test-token-0123456';
+
+async function startConnection(recordFile?: string) {
+    const port = await getFreePort();
+    const connection = new UnityConnection(port, await getFreePort(), {
+        host: '127.0.0.1',
+        authToken: AUTH_TOKEN,
+        connectionWaitMs: 200,
+        recordFile,
+    });
+    return { connection, url: `ws://127.0.0.1:${port}` };
+}
+
+describe('RecordingPlayer', () => {
+    let tempDir: string;
+    let recordFile: string;
+
+    beforeEach(async () => {
+        tempDir = mkdtempSync(path.join(tmpdir(), 'unity-mcp-replay-'));
+        recordFile = path.join(tempDir, 'session.jsonl');
+
+        // Record a session against the mock editor
+        const { connection, url } = await startConnection(recordFile);
+        const editor = new MockUnityEditor({ url, token: AUTH_TOKEN, projectName: 'Recorded' })
+            .respondOnce('getGameObjectDetails', { data: { error: 'GameObject not found: Player' } })
+            .respondOnce('executeEditorCommand', { disconnect: true, code: 4000 });
+        await editor.connect();
+        const logged = new Promise((resolve) => connection.subscribeLogs(resolve));
+        editor.sendLog({ message: 'Scene loaded' });
+        await logged;
+        await connection.sendRequest('getEditorState', {}, 2000);
+        await connection.sendRequest('getGameObjectDetails', { objectName: 'Player' }, 2000);
+        await expect(connection.sendRequest('executeEditorCommand', { code: 'x' }, 2000)).rejects.toThrow();
+        connection.close();
+    });
+
+    afterEach(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should record the handshake, requests, responses and disconnects', () => {
+        const messages = readRecording(recordFile).map((entry) =>
+            entry.direction === 'disconnect' ? 'disconnect' : `${entry.direction}:${(entry.message as any).type}`,
+        );
+
+        expect(messages).toEqual([
+            'in:hello',
+            'out:welcome',
+            'in:log',
+            'out:getEditorState',
+            'in:editorState',
+            'out:getGameObjectDetails',
+            'in:objectDetails',
+            'out:executeEditorCommand',
+            'disconnect',
+        ]);
+    });
+
+    it('should answer the same requests with the recorded responses', async () => {
+        const { connection, url } = await startConnection();
+        const player = RecordingPlayer.load(recordFile);
+        await player.start(url, AUTH_TOKEN);
+
+        try {
+            expect(connection.getDefaultSession()?.projectName).toBe('Recorded');
+            await expect(connection.sendRequest('getEditorState', {}, 2000)).resolves.toMatchObject({
+                playModeState: 'Stopped',
+            });
+            expect(connection.getLogBuffer().map((entry) => entry.message)).toEqual(['Scene loaded']);
+            await expect(
+                connection.sendRequest('getGameObjectDetails', { objectName: 'Player' }, 2000),
+            ).resolves.toEqual({ error: 'GameObject not found: Player' });
+            await expect(connection.sendRequest('executeEditorCommand', { code: 'x' }, 2000)).rejects.toBeInstanceOf(
+                UnityDisconnectedError,
+            );
+        } finally {
+            player.close();
+            connection.close();
+        }
+    });
+
+    it('should replay editors that did not identify themselves in the handshake', async () => {
+        const anonymousFile = path.join(tempDir, 'anonymous.jsonl');
+        const recording = await startConnection(anonymousFile);
+        const editor = new MockUnityEditor({ url: recording.url, token: AUTH_TOKEN, anonymous: true });
+        await editor.connect();
+        await recording.connection.sendRequest('getEditorState', {}, 2000);
+        await editor.disconnect();
+        recording.connection.close();
+
+        const { connection, url } = await startConnection();
+        const player = RecordingPlayer.load(anonymousFile);
+        await player.start(url, AUTH_TOKEN);
+
+        try {
+            await expect(connection.sendRequest('getEditorState', {}, 2000)).resolves.toMatchObject({
+                playModeState: 'Stopped',
+            });
+        } finally {
+            player.close();
+            connection.close();
+        }
+    });
+});
@@ -0,0 +1,197 @@
+import { WebSocket } from "ws";
+import { EditorSession } from "./EditorSession.js";
+import { readRecording, RecordedEntry } from "./SessionRecorder.js";
+
+interface Envelope {
+  type: string;
+  requestId?: string;
+  data?: any;
+}
+
+interface RecordedRequest {
+  requestId: string;
+  type: string;
+  data: unknown;
+  /** Position of the request in the recording. */
+  index: number;
+  used: boolean;
+}
+
+// Pause before reconnecting after a recorded disconnect, like the plugin's retry
+const RECONNECT_DELAY_MS = 100;
+
+function isEnvelope(message: unknown): message is Envelope {
+  return typeof message === "object" && message !== null && typeof (message as Envelope).type === "string";
+}
+
+/**
+ * Replays the editor side of one recorded session: sends the recorded hello,
+ * then answers each request from the server with the response recorded for the
+ * matching request (same type, preferring identical data, in recorded order).
+ * Logs recorded before a response are sent ahead of it, and a request that was
+ * interrupted by a disconnect in the recording disconnects again.
+ */
+class ReplayedEditor {
+  private socket: WebSocket | null = null;
+  private requests: RecordedRequest[] = [];
+  private sentLogs = new Set<number>();
+  private closed = false;
+
+  constructor(
+    public readonly sessionId: string,
+    private readonly entries: RecordedEntry[],
+    private readonly hello: Envelope,
+    private readonly url: string,
+    private readonly token: string | undefined,
+  ) {
+    entries.forEach((entry, index) => {
+      if (entry.direction !== "out" || !isEnvelope(entry.message) || entry.message.requestId === undefined) return;
+      this.requests.push({
+        requestId: entry.message.requestId,
+        type: entry.message.type,
+        data: entry.message.data,
+        index,
+        used: false,
+      });
+    });
+  }
+
+  public connect(): Promise<void> {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    return new Promise<void>((resolve, reject) => {
+      socket.on("open", () => {
+        socket.send(JSON.stringify({ ...this.hello, data: { ...this.hello.data, token: this.token } }));
+      });
+      socket.on("message", (raw: Buffer) => {
+        const message = JSON.parse(raw.toString()) as Envelope;
+        if (message.type === "welcome") {
+          // Logs recorded before the next request would already be in the buffer
+          this.sendLogsBefore(this.requests.find((request) => !request.used)?.index ?? this.entries.length);
+          resolve();
+        } else if (message.type === "error") {
+          console.error(`[Unity MCP] Replay of editor ${this.sessionId} rejected: ${message.data?.message}`);
+        } else if (message.requestId !== undefined) {
+          this.answer(message);
+        }
+      });
+      socket.on("close", () => {
+        reject(new Error(`Replay of editor ${this.sessionId} was disconnected during the handshake`));
+      });
+      socket.on("error", reject);
+    });
+  }
+
+  public close(): void {
+    this.closed = true;
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private answer(request: Envelope) {
+    const candidates = this.requests.filter((candidate) => !candidate.used && candidate.type === request.type);
+    const data = JSON.stringify(request.data);
+    const recorded = candidates.find((candidate) => JSON.stringify(candidate.data) === data) ?? candidates[0];
+    if (!recorded) {
+      console.error(`[Unity MCP] Replay has no recorded response for ${request.type}, leaving it unanswered`);
+      return;
+    }
+    recorded.used = true;
+
+    // The first thing after the request that settled it in the recording
+    const outcome = this.entries.findIndex(
+      (entry, index) =>
+        index > recorded.index &&
+        (entry.direction === "disconnect" ||
+          (entry.direction === "in" && isEnvelope(entry.message) && entry.message.requestId === recorded.requestId)),
+    );
+    if (outcome === -1) return;
+
+    this.sendLogsBefore(outcome);
+    const entry = this.entries[outcome];
+    if (entry.direction === "disconnect") {
+      this.disconnect(entry.code);
+      return;
+    }
+    this.socket?.send(JSON.stringify({ ...(entry.message as Envelope), requestId: request.requestId }));
+  }
+
+  private sendLogsBefore(position: number) {
+    this.entries.forEach((entry, index) => {
+      if (index >= position || this.sentLogs.has(index)) return;
+      if (entry.direction !== "in" || !isEnvelope(entry.message) || entry.message.type !== "log") return;
+
+      this.sentLogs.add(index);
+      this.socket?.send(JSON.stringify(entry.message));
+    });
+  }
+
+  private disconnect(code: number) {
+    const socket = this.socket;
+    this.socket = null;
+    // Close codes below 3000 other than 1000 cannot be sent by an application
+    socket?.close(code >= 3000 && code < 5000 ? code : 1000);
+    setTimeout(() => {
+      if (this.closed) return;
+      this.connect().catch((error) => console.error("[Unity MCP]", error.message));
+    }, RECONNECT_DELAY_MS);
+  }
+}
+
+/**
+ * Stands in for the Unity Editor(s) of a recording made with --record-file, so the
+ * same tool sequence can be run against the server again without Unity.
+ * Answers are sent as soon as the request arrives; recorded latencies are not
+ * reproduced.
+ */
+export class RecordingPlayer {
+  private editors: ReplayedEditor[] = [];
+
+  constructor(private readonly entries: RecordedEntry[]) {}
+
+  public static load(filePath: string): RecordingPlayer {
+    return new RecordingPlayer(readRecording(filePath));
+  }
+
+  /** Connect one replayed editor per recorded session to the server's WebSocket. */
+  public async start(url: string, token: string | undefined): Promise<void> {
+    const sessions = new Map<string, { hello: Envelope; entries: RecordedEntry[] }>();
+    for (const [index, entry] of this.entries.entries()) {
+      if (entry.direction === "in" && isEnvelope(entry.message) && entry.message.type === "hello") {
+        // The hello is recorded before its session exists; derive the id like the server does,
+        // or for a plugin too old to identify itself, take the next session id not seen yet
+        const data = entry.message.data ?? {};
+        const id = EditorSession.isIdentifiable(data)
+          ? EditorSession.idFor(data)
+          : this.entries
+              .slice(index + 1)
+              .map((next) => next.sessionId)
+              .find((next) => next !== null && !sessions.has(next));
+        if (!id) continue;
+        if (!sessions.has(id)) sessions.set(id, { hello: entry.message, entries: [] });
+        continue;
+      }
+      if (entry.sessionId !== null) {
+        sessions.get(entry.sessionId)?.entries.push(entry);
+      }
+    }
+
+    if (sessions.size === 0) {
+      throw new Error("The recording contains no editor handshake to replay");
+    }
+
+    for (const [id, { hello, entries }] of sessions) {
+      const editor = new ReplayedEditor(id, entries, hello, url, token);
+      this.editors.push(editor);
+      await editor.connect();
+      console.error(`[Unity MCP] Replaying editor ${id} from the recording (${entries.length} messages)`);
+    }
+  }
+
+  public close(): void {
+    for (const editor of this.editors) {
+      editor.close();
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RequestRegistry } from './RequestRegistry.js';
+import { UnityDisconnectedError, UnityRequestTimeoutError } from './errors.js';
+
+describe('RequestRegistry', () => {
+    let registry: RequestRegistry;
+
+    beforeEach(() => {
+        registry = new RequestRegistry();
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should generate a unique requestId for each request', () => {
+        const first = registry.create('getGameObjectDetails', {}, 30000);
+        const second = registry.create('getGameObjectDetails', {}, 30000);
+
+        expect(first.requestId).not.toBe(second.requestId);
+        expect(registry.size).toBe(2);
+    });
+
+    it('should resolve concurrent requests to the matching caller', async () => {
+        const first = registry.create<string>('getGameObjectDetails', {}, 30000);
+        const second = registry.create<string>('getGameObjectDetails', {}, 30000);
+
+        // Responses arrive out of order
+        expect(registry.resolve(second.requestId, 'second')).toBe(true);
+        expect(registry.resolve(first.requestId, 'first')).toBe(true);
+
+        await expect(first.promise).resolves.toBe('first');
+        await expect(second.promise).resolves.toBe('second');
+        expect(registry.size).toBe(0);
+    });
+
+    it('should reject with UnityRequestTimeoutError and forget the request on timeout', async () => {
+        const { requestId, promise } = registry.create('executeEditorCommand', {}, 60000);
+
+        vi.advanceTimersByTime(60001);
+
+        await expect(promise).rejects.toBeInstanceOf(UnityRequestTimeoutError);
+        await expect(promise).rejects.toThrow('60 seconds');
+        expect(registry.has(requestId)).toBe(false);
+    });
+
+    it('should ignore responses for unknown or expired requests', async () => {
+        const { requestId, promise } = registry.create('takeScreenshot', {}, 1000);
+        vi.advanceTimersByTime(1001);
+        await expect(promise).rejects.toThrow('timed out');
+
+        expect(registry.resolve(requestId, {})).toBe(false);
+        expect(registry.resolve('unknown-id', {})).toBe(false);
+    });
+
+    it('should clear the timeout once a request is resolved', async () => {
+        const { requestId, promise } = registry.create('manageAssets', {}, 1000);
+
+        registry.resolve(requestId, { count: 0 });
+        await expect(promise).resolves.toEqual({ count: 0 });
+
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should reject every pending request with rejectAll', async () => {
+        const first = registry.create('manipulateScene', {}, 30000);
+        const second = registry.create('manageAssets', {}, 30000);
+
+        registry.rejectAll(new Error('shutting down'));
+
+        await expect(first.promise).rejects.toThrow('shutting down');
+        await expect(second.promise).rejects.toThrow('shutting down');
+        expect(registry.size).toBe(0);
+    });
+
+    describe('rejectInFlight', () => {
+        const disconnected = (type: string) => new UnityDisconnectedError(type, 'domain reload');
+
+        it('should reject every in-flight request with UnityDisconnectedError', async () => {
+            const command = registry.create('executeEditorCommand', { code: '' }, 60000, { sessionId: 'editor-a' });
+            const state = registry.create('getEditorState', {}, 60000, { idempotent: true, sessionId: 'editor-a' });
+
+            registry.rejectInFlight('editor-a', (type) => new UnityDisconnectedError(type, 'domain reload'), false);
+
+            await expect(command.promise).rejects.toBeInstanceOf(UnityDisconnectedError);
+            await expect(state.promise).rejects.toThrow('domain reload');
+            expect(registry.size).toBe(0);
+            expect(vi.getTimerCount()).toBe(0);
+        });
+
+        it('should hold idempotent requests for replay when requested', async () => {
+            const command = registry.create('executeEditorCommand', { code: '' }, 60000, { sessionId: 'editor-a' });
+            const state = registry.create<string>('getEditorState', {}, 60000, { idempotent: true, sessionId: 'editor-a' });
+
+            registry.rejectInFlight('editor-a', disconnected, true);
+
+            await expect(command.promise).rejects.toBeInstanceOf(UnityDisconnectedError);
+            expect(registry.has(state.requestId)).toBe(true);
+
+            const replayable = registry.takeReplayable('editor-a');
+            expect(replayable).toEqual([{ requestId: state.requestId, type: 'getEditorState', data: {} }]);
+
+            // Only handed out once
+            expect(registry.takeReplayable('editor-a')).toEqual([]);
+
+            registry.resolve(state.requestId, 'state');
+            await expect(state.promise).resolves.toBe('state');
+        });
+
+        it('should still time out held requests that are never replayed', async () => {
+            const state = registry.create('getEditorState', {}, 60000, { idempotent: true, sessionId: 'editor-a' });
+
+            registry.rejectInFlight('editor-a', disconnected, true);
+            vi.advanceTimersByTime(60001);
+
+            await expect(state.promise).rejects.toBeInstanceOf(UnityRequestTimeoutError);
+            expect(registry.takeReplayable('editor-a')).toEqual([]);
+        });
+
+        it('should only affect requests sent to the disconnected session', async () => {
+            const other = registry.create<string>('executeEditorCommand', { code: '' }, 60000, { sessionId: 'editor-b' });
+            const state = registry.create('getEditorState', {}, 60000, { idempotent: true, sessionId: 'editor-a' });
+
+            registry.rejectInFlight('editor-a', disconnected, true);
+
+            expect(registry.takeReplayable('editor-b')).toEqual([]);
+            expect(registry.takeReplayable('editor-a').map((r) => r.requestId)).toEqual([state.requestId]);
+
+            registry.resolve(other.requestId, 'still running');
+            await expect(other.promise).resolves.toBe('still running');
+        });
+    });
+    describe('history', () => {
+        it('should record the outcome and duration of settled requests', async () => {
+            const settled = vi.fn();
+            registry = new RequestRegistry({ onSettled: settled });
+            const ok = registry.create('getEditorState', {}, 60000, { sessionId: 'editor-a' });
+            const slow = registry.create('takeScreenshot', {}, 1000);
+            const gone = registry.create('executeEditorCommand', {}, 60000, { sessionId: 'editor-a' });
+
+            vi.advanceTimersByTime(500);
+            registry.resolve(ok.requestId, {});
+            registry.rejectInFlight('editor-a', (type) => new UnityDisconnectedError(type, 'domain reload'), false);
+            vi.advanceTimersByTime(501);
+            await expect(slow.promise).rejects.toThrow('timed out');
+            await expect(gone.promise).rejects.toBeInstanceOf(UnityDisconnectedError);
+
+            const history = registry.getHistory();
+            expect(history.map((r) => [r.type, r.outcome])).toEqual([
+                ['getEditorState', 'success'],
+                ['executeEditorCommand', 'disconnected'],
+                ['takeScreenshot', 'timeout'],
+            ]);
+            expect(history[0].durationMs).toBe(500);
+            expect(history[2].error).toContain('timed out');
+            expect(settled).toHaveBeenCalledTimes(3);
+        });
+
+        it('should list pending requests and keep only the most recent history', () => {
+            registry = new RequestRegistry({ historySize: 2 });
+            const first = registry.create('getEditorState', {}, 60000);
+            registry.create('takeScreenshot', {}, 60000);
+
+            expect(registry.listPending().map((r) => r.requestId)).toContain(first.requestId);
+
+            for (let i = 0; i < 3; i++) {
+                const { requestId } = registry.create('manageAssets', {}, 60000);
+                registry.resolve(requestId, {});
+            }
+            expect(registry.getHistory()).toHaveLength(2);
+            expect(registry.listPending()).toHaveLength(2);
+        });
+    });
+});
@@ -0,0 +1,242 @@
+import { randomUUID } from "crypto";
+import { UnityDisconnectedError, UnityRequestCancelledError, UnityRequestTimeoutError } from "./errors.js";
+import { ProgressData } from "./messages.js";
+
+interface PendingRequest {
+  type: string;
+  sessionId: string | undefined;
+  data: unknown;
+  idempotent: boolean;
+  awaitingReplay: boolean;
+  startedAt: number;
+  onProgress: ((progress: ProgressData) => void) | undefined;
+  resolve: (value: any) => void;
+  reject: (reason?: any) => void;
+  timer: NodeJS.Timeout;
+}
+
+export interface CreateRequestOptions {
+  /** Safe to send again after a reconnect. */
+  idempotent?: boolean;
+  /** Editor session the request is sent to. */
+  sessionId?: string;
+  /** Called for each progress message Unity sends for the request. */
+  onProgress?: (progress: ProgressData) => void;
+}
+
+export interface ReplayableRequest {
+  requestId: string;
+  type: string;
+  data: unknown;
+}
+
+/** How a request ended, as seen by the connection (Unity-side errors in a response count as success). */
+export type RequestOutcome = "success" | "timeout" | "cancelled" | "disconnected" | "error";
+
+/** A request still waiting for its response, for diagnostics. */
+export interface PendingRequestInfo {
+  requestId: string;
+  type: string;
+  sessionId: string | undefined;
+  startedAt: string;
+  ageMs: number;
+  awaitingReplay: boolean;
+}
+
+/** A finished request, kept in the registry's history for diagnostics. */
+export interface SettledRequest {
+  requestId: string;
+  type: string;
+  sessionId: string | undefined;
+  startedAt: string;
+  durationMs: number;
+  outcome: RequestOutcome;
+  error?: string;
+}
+
+export interface RequestRegistryOptions {
+  /** Number of finished requests kept for getHistory(). */
+  historySize?: number;
+  /** Called once for every request that resolves, fails or times out. */
+  onSettled?: (request: SettledRequest) => void;
+}
+
+/**
+ * Tracks requests sent to the Unity Editor until the matching response
+ * (identified by the echoed requestId) arrives or the request times out.
+ */
+export class RequestRegistry {
+  private pending = new Map<string, PendingRequest>();
+  private history: SettledRequest[] = [];
+  private readonly historySize: number;
+  private readonly onSettled: ((request: SettledRequest) => void) | undefined;
+
+  constructor(options: RequestRegistryOptions = {}) {
+    this.historySize = options.historySize ?? 100;
+    this.onSettled = options.onSettled;
+  }
+
+  public create<T>(
+    type: string,
+    data: unknown,
+    timeoutMs: number,
+    options: CreateRequestOptions = {},
+  ): { requestId: string; promise: Promise<T> } {
+    const requestId = randomUUID();
+
+    const promise = new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const request = this.take(requestId);
+        if (!request) return;
+
+        const error = new UnityRequestTimeoutError(type, timeoutMs);
+        this.record(requestId, request, error);
+        reject(error);
+      }, timeoutMs);
+
+      this.pending.set(requestId, {
+        type,
+        sessionId: options.sessionId,
+        data,
+        idempotent: options.idempotent ?? false,
+        awaitingReplay: false,
+        startedAt: Date.now(),
+        onProgress: options.onProgress,
+        resolve,
+        reject,
+        timer,
+      });
+    });
+
+    return { requestId, promise };
+  }
+
+  /** Resolve a pending request. Returns false if the id is unknown (e.g. already timed out). */
+  public resolve(requestId: string, value: unknown): boolean {
+    const request = this.take(requestId);
+    if (!request) return false;
+
+    this.record(requestId, request);
+    request.resolve(value);
+    return true;
+  }
+
+  /** Pass a progress update to a pending request. Returns false if the id is unknown. */
+  public progress(requestId: string, progress: ProgressData): boolean {
+    const request = this.pending.get(requestId);
+    if (!request) return false;
+
+    request.onProgress?.(progress);
+    return true;
+  }
+
+  public reject(requestId: string, reason: unknown): boolean {
+    const request = this.take(requestId);
+    if (!request) return false;
+
+    this.record(requestId, request, reason);
+    request.reject(reason);
+    return true;
+  }
+
+  public rejectAll(reason: unknown): void {
+    for (const requestId of [...this.pending.keys()]) {
+      this.reject(requestId, reason);
+    }
+  }
+
+  /**
+   * Fail every in-flight request of a session after its editor went away. When
+   * holdIdempotent is set, idempotent requests stay pending (their timeouts keep
+   * running) until takeReplayable() hands them out to be sent again.
+   */
+  public rejectInFlight(
+    sessionId: string | undefined,
+    createError: (type: string) => unknown,
+    holdIdempotent: boolean,
+  ): void {
+    for (const [requestId, request] of [...this.pending]) {
+      if (request.sessionId !== sessionId) continue;
+
+      if (holdIdempotent && request.idempotent) {
+        request.awaitingReplay = true;
+      } else {
+        this.reject(requestId, createError(request.type));
+      }
+    }
+  }
+
+  /** Requests of a session held by rejectInFlight(), in the order they were first sent. */
+  public takeReplayable(sessionId: string | undefined): ReplayableRequest[] {
+    const replayable: ReplayableRequest[] = [];
+    for (const [requestId, request] of this.pending) {
+      if (!request.awaitingReplay || request.sessionId !== sessionId) continue;
+
+      request.awaitingReplay = false;
+      replayable.push({ requestId, type: request.type, data: request.data });
+    }
+    return replayable;
+  }
+
+  /** In-flight requests, oldest first. */
+  public listPending(): PendingRequestInfo[] {
+    const now = Date.now();
+    return [...this.pending].map(([requestId, request]) => ({
+      requestId,
+      type: request.type,
+      sessionId: request.sessionId,
+      startedAt: new Date(request.startedAt).toISOString(),
+      ageMs: now - request.startedAt,
+      awaitingReplay: request.awaitingReplay,
+    }));
+  }
+
+  /** Recently finished requests, most recent last. */
+  public getHistory(): SettledRequest[] {
+    return [...this.history];
+  }
+
+  public has(requestId: string): boolean {
+    return this.pending.has(requestId);
+  }
+
+  public get size(): number {
+    return this.pending.size;
+  }
+
+  private record(requestId: string, request: PendingRequest, error?: unknown) {
+    const settled: SettledRequest = {
+      requestId,
+      type: request.type,
+      sessionId: request.sessionId,
+      startedAt: new Date(request.startedAt).toISOString(),
+      durationMs: Date.now() - request.startedAt,
+      outcome: error === undefined ? "success" : outcomeOf(error),
+    };
+    if (error !== undefined) {
+      settled.error = error instanceof Error ? error.message : String(error);
+    }
+
+    this.history.push(settled);
+    if (this.history.length > this.historySize) {
+      this.history.shift();
+    }
+    this.onSettled?.(settled);
+  }
+
+  private take(requestId: string): PendingRequest | undefined {
+    const request = this.pending.get(requestId);
+    if (!request) return undefined;
+
+    clearTimeout(request.timer);
+    this.pending.delete(requestId);
+    return request;
+  }
+}
+
+function outcomeOf(error: unknown): RequestOutcome {
+  if (error instanceof UnityRequestTimeoutError) return "timeout";
+  if (error instanceof UnityRequestCancelledError) return "cancelled";
+  if (error instanceof UnityDisconnectedError) return "disconnected";
+  return "error";
+}
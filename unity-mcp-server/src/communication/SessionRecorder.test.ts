@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { readRecording, SessionRecorder } from './SessionRecorder.js';
+
+describe('SessionRecorder', () => {
+    let tempDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        tempDir = mkdtempSync(path.join(tmpdir(), 'unity-mcp-recording-'));
+        filePath = path.join(tempDir, 'nested', 'session.jsonl');
+    });
+
+    afterEach(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should append messages and disconnects as JSON lines', () => {
+        const recorder = new SessionRecorder(filePath);
+        recorder.recordMessage('out', 'abc', { type: 'getEditorState', requestId: 'r1', data: {} });
+        recorder.recordMessage('in', 'abc', { type: 'editorState', requestId: 'r1', data: { playModeState: 'Stopped' } });
+        recorder.recordDisconnect('abc', 1001, 'domain reload');
+        recorder.close();
+
+        const entries = readRecording(filePath);
+
+        expect(entries.map((entry) => entry.direction)).toEqual(['out', 'in', 'disconnect']);
+        expect(entries[1]).toMatchObject({ sessionId: 'abc', message: { requestId: 'r1' } });
+        expect(entries[2]).toMatchObject({ code: 1001, reason: 'domain reload' });
+        expect(entries[0].elapsedMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should never write the auth token from the hello message', () => {
+        const recorder = new SessionRecorder(filePath);
+        recorder.recordMessage('in', null, { type: 'hello', data: { projectName: 'Game', token: 'super-secret-token' } });
+        recorder.close();
+
+        const [hello] = readRecording(filePath);
+
+        expect(hello).toMatchObject({ message: { data: { projectName: 'Game', token: '[redacted]' } } });
+    });
+
+    it('should append to an existing recording', () => {
+        new SessionRecorder(filePath).close();
+        const first = new SessionRecorder(filePath);
+        first.recordMessage('in', null, { type: 'ping', data: {} });
+        first.close();
+        const second = new SessionRecorder(filePath);
+        second.recordMessage('in', null, { type: 'ping', data: {} });
+        second.close();
+
+        expect(readRecording(filePath)).toHaveLength(2);
+    });
+});
@@ -0,0 +1,84 @@
+import { closeSync, mkdirSync, openSync, readFileSync, writeSync } from "fs";
+import path from "path";
+
+interface RecordedBase {
+  timestamp: string;
+  /** Milliseconds since the recording started. */
+  elapsedMs: number;
+  /** Editor session the message belongs to; null before the hello handshake. */
+  sessionId: string | null;
+}
+
+/**
+ * One line of a recording: a WebSocket message received from ("in") or sent to
+ * ("out") the Unity plugin, or an editor connection closing.
+ */
+export type RecordedEntry =
+  | (RecordedBase & { direction: "in" | "out"; message: unknown })
+  | (RecordedBase & { direction: "disconnect"; code: number; reason: string });
+
+/**
+ * Appends every message exchanged with the Unity plugin to a JSONL file, one
+ * RecordedEntry per line, so a session can be attached to a bug report and
+ * replayed with RecordingPlayer. Auth tokens are never written.
+ */
+export class SessionRecorder {
+  private fd: number | null;
+  private readonly startedAt = Date.now();
+
+  constructor(public readonly filePath: string) {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    // Written synchronously so the recording is complete even if the server crashes
+    this.fd = openSync(filePath, "a");
+  }
+
+  public recordMessage(direction: "in" | "out", sessionId: string | null, message: unknown): void {
+    this.write({ ...this.stamp(sessionId), direction, message: redact(message) });
+  }
+
+  public recordDisconnect(sessionId: string, code: number, reason: string): void {
+    this.write({ ...this.stamp(sessionId), direction: "disconnect", code, reason });
+  }
+
+  public close(): void {
+    if (this.fd === null) return;
+    closeSync(this.fd);
+    this.fd = null;
+  }
+
+  private stamp(sessionId: string | null): RecordedBase {
+    return { timestamp: new Date().toISOString(), elapsedMs: Date.now() - this.startedAt, sessionId };
+  }
+
+  private write(entry: RecordedEntry) {
+    if (this.fd === null) return;
+    try {
+      writeSync(this.fd, JSON.stringify(entry) + "\n");
+    } catch (error) {
+      console.error(`[Unity MCP] Failed to write recording ${this.filePath}, recording stopped:`, error);
+      this.close();
+    }
+  }
+}
+
+function redact(message: unknown): unknown {
+  const envelope = message as { type?: unknown; data?: { token?: unknown } } | null;
+  if (envelope?.type !== "hello" || envelope.data?.token === undefined) return message;
+  return { ...envelope, data: { ...envelope.data, token: "[redacted]" } };
+}
+
+/** Read a recording written by SessionRecorder. Throws on lines that are not JSON. */
+export function readRecording(filePath: string): RecordedEntry[] {
+  const entries: RecordedEntry[] = [];
+  readFileSync(filePath, "utf8")
+    .split("\n")
+    .forEach((line, index) => {
+      if (line.trim().length === 0) return;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        throw new Error(`${filePath}:${index + 1} is not a valid recording entry`);
+      }
+    });
+  return entries;
+}
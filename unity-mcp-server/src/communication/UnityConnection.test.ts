@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { UnityConnection } from './UnityConnection.js';
+import {
+    UnityDisconnectedError,
+    UnityInvalidMessageError,
+    UnityNotConnectedError,
+    UnityRequestCancelledError,
+    UnityRequestTimeoutError,
+    UnityUnsupportedRequestError,
+} from './errors.js';
+import { getFreePort, MockUnityEditor, MockUnityEditorOptions } from '../testing/MockUnityEditor.js';
+
+const AUTH_TOKEN = 'connection-test-token-0123';
+const commandResult = { result: null, logs: [], errors: [], warnings: [], executionSuccess: true };
+
+describe('UnityConnection', () => {
+    let connection: UnityConnection;
+    let url: string;
+    const editors: MockUnityEditor[] = [];
+
+    function createEditor(options: Partial<MockUnityEditorOptions> = {}) {
+        const editor = new MockUnityEditor({ url, token: AUTH_TOKEN, ...options });
+        editors.push(editor);
+        return editor;
+    }
+
+    beforeEach(async () => {
+        const port = await getFreePort();
+        connection = new UnityConnection(port, await getFreePort(), {
+            host: '127.0.0.1',
+            authToken: AUTH_TOKEN,
+            connectionWaitMs: 200,
+        });
+        url = `ws://127.0.0.1:${port}`;
+    });
+
+    afterEach(async () => {
+        await Promise.all(editors.splice(0).map((editor) => editor.disconnect()));
+        connection.close();
+    });
+
+    it('should complete the handshake and advertise the supported tools', async () => {
+        const welcome = await createEditor().connect();
+
+        expect(welcome.compatible).toBe(true);
+        expect(welcome.features).toContain('get_editor_state');
+        expect(connection.isConnected()).toBe(true);
+    });
+
+    it('should only confirm the message types both sides know in the welcome', async () => {
+        const welcome = await createEditor({ messageTypes: ['getEditorState', 'recordVideo'] }).connect();
+
+        expect(welcome.messageTypes).toEqual(['getEditorState']);
+        expect(welcome.features).toContain('get_editor_state');
+        expect(welcome.features).not.toContain('execute_editor_command');
+    });
+
+    it('should reject an editor with the wrong token', async () => {
+        const editor = createEditor({ token: 'wrong-token-0123456789' });
+
+        await expect(editor.connect()).rejects.toThrow('4001');
+        expect(editor.lastError?.code).toBe('unauthorized');
+        expect(connection.isConnected()).toBe(false);
+    });
+
+    it('should match out-of-order responses to their requests', async () => {
+        const editor = createEditor();
+        editor.respondOnce('executeEditorCommand', { data: { ...commandResult, result: 'slow' }, delayMs: 100 });
+        await editor.connect();
+
+        const slow = connection.sendRequest('executeEditorCommand', { code: 'a' }, 2000);
+        await editor.waitForRequest('executeEditorCommand');
+        editor.respondOnce('executeEditorCommand', { data: { ...commandResult, result: 'fast' } });
+        const fast = connection.sendRequest('executeEditorCommand', { code: 'b' }, 2000);
+
+        await expect(fast).resolves.toMatchObject({ result: 'fast' });
+        await expect(slow).resolves.toMatchObject({ result: 'slow' });
+    });
+
+    it('should pass Unity-side errors through as the response', async () => {
+        const editor = createEditor().respond('getGameObjectDetails', { data: { error: 'GameObject not found' } });
+        await editor.connect();
+
+        await expect(
+            connection.sendRequest('getGameObjectDetails', { objectName: 'Missing' }, 2000),
+        ).resolves.toEqual({ error: 'GameObject not found' });
+    });
+
+    it('should time out requests the editor never answers', async () => {
+        const editor = createEditor().respond('takeScreenshot', { ignore: true });
+        await editor.connect();
+
+        await expect(connection.sendRequest('takeScreenshot', {}, 100)).rejects.toBeInstanceOf(
+            UnityRequestTimeoutError,
+        );
+        expect(connection.getPendingRequests()).toEqual([]);
+    });
+
+    it('should tell the plugin to cancel a request that timed out', async () => {
+        const editor = createEditor().respond('executeEditorCommand', { ignore: true });
+        await editor.connect();
+        const cancelled = editor.waitForRequest('cancel');
+
+        await expect(connection.sendRequest('executeEditorCommand', { code: 'x' }, 100)).rejects.toBeInstanceOf(
+            UnityRequestTimeoutError,
+        );
+
+        const cancel = await cancelled;
+        expect(cancel.requestId).toBe(editor.requests[0].requestId);
+        expect(cancel.data.reason).toContain('timed out');
+    });
+
+    it('should cancel a request when its signal is aborted', async () => {
+        const editor = createEditor().respond('executeEditorCommand', { ignore: true });
+        await editor.connect();
+        const controller = new AbortController();
+
+        const request = connection.forEditor(undefined, { signal: controller.signal }).sendRequest('executeEditorCommand', { code: 'x' }, 2000);
+        const sent = await editor.waitForRequest('executeEditorCommand');
+        const cancelled = editor.waitForRequest('cancel');
+        controller.abort();
+
+        await expect(request).rejects.toBeInstanceOf(UnityRequestCancelledError);
+        await expect(cancelled).resolves.toMatchObject({ requestId: sent.requestId });
+        expect(connection.getRequestHistory().at(-1)?.outcome).toBe('cancelled');
+        await expect(
+            connection.sendRequest('executeEditorCommand', { code: 'y' }, 2000, { signal: controller.signal }),
+        ).rejects.toBeInstanceOf(UnityRequestCancelledError);
+    });
+
+    it('should stop holding a request for an editor when its signal is aborted', async () => {
+        const controller = new AbortController();
+        const started = Date.now();
+
+        const request = connection.sendRequest('executeEditorCommand', { code: 'x' }, 2000, { signal: controller.signal });
+        setTimeout(() => controller.abort(), 20);
+
+        await expect(request).rejects.toBeInstanceOf(UnityRequestCancelledError);
+        expect(Date.now() - started).toBeLessThan(150);
+    });
+
+    it('should not send cancel to plugins that do not support it', async () => {
+        const editor = createEditor({ messageTypes: ['takeScreenshot'] }).respond('takeScreenshot', { ignore: true });
+        await editor.connect();
+
+        await expect(connection.sendRequest('takeScreenshot', {}, 100)).rejects.toBeInstanceOf(UnityRequestTimeoutError);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(editor.requests.map((request) => request.type)).toEqual(['takeScreenshot']);
+    });
+
+    it('should pass progress messages to the request they belong to', async () => {
+        const editor = createEditor().respond('manageAssets', { ignore: true });
+        await editor.connect();
+        const updates: unknown[] = [];
+
+        const request = connection.sendRequest('manageAssets', { action: 'refresh' }, 2000, {
+            onProgress: (progress) => updates.push(progress),
+        });
+        const { requestId } = await editor.waitForRequest('manageAssets');
+        editor.sendProgress(requestId, { progress: 0, total: 1, message: 'Refreshing the AssetDatabase' });
+        editor.sendMessage({ type: 'progress', requestId, data: { progress: 'half' } });
+        editor.sendProgress(requestId, { progress: 1, total: 1 });
+        editor.sendMessage({ type: 'assetManagementResult', requestId, data: { message: 'AssetDatabase refreshed' } });
+
+        await expect(request).resolves.toEqual({ message: 'AssetDatabase refreshed' });
+        expect(updates).toEqual([
+            { progress: 0, total: 1, message: 'Refreshing the AssetDatabase' },
+            { progress: 1, total: 1 },
+        ]);
+    });
+
+    it('should reject a response that fails schema validation', async () => {
+        const editor = createEditor().respond('getEditorState', ({ requestId }) => ({
+            raw: { type: 'editorState', requestId, data: { playModeState: 1 } },
+        }));
+        await editor.connect();
+
+        await expect(connection.sendRequest('getEditorState', {}, 2000)).rejects.toBeInstanceOf(
+            UnityInvalidMessageError,
+        );
+    });
+
+    it('should fail in-flight commands and replay state queries across a reconnect', async () => {
+        const editor = createEditor()
+            .respondOnce('executeEditorCommand', { disconnect: true, delayMs: 50 })
+            .respondOnce('getEditorState', { ignore: true });
+        await editor.connect();
+
+        const command = connection.sendRequest('executeEditorCommand', { code: 'x' }, 2000);
+        const state = connection.sendRequest('getEditorState', {}, 2000, { idempotent: true });
+        await expect(command).rejects.toBeInstanceOf(UnityDisconnectedError);
+
+        await editor.connect();
+        await expect(state).resolves.toMatchObject({ playModeState: 'Stopped' });
+        expect(editor.requests.filter((request) => request.type === 'getEditorState')).toHaveLength(2);
+    });
+
+    it('should reject held requests the reconnected plugin no longer supports', async () => {
+        const editor = createEditor().respondOnce('getEditorState', { disconnect: true, delayMs: 50 });
+        await editor.connect();
+
+        const state = connection.sendRequest('getEditorState', {}, 2000, { idempotent: true });
+        const rejected = expect(state).rejects.toBeInstanceOf(UnityUnsupportedRequestError);
+        await editor.waitForRequest('getEditorState');
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        await createEditor({ messageTypes: ['takeScreenshot'] }).connect();
+
+        await rejected;
+    });
+
+    it('should fail idempotent requests on disconnect when replay is disabled', async () => {
+        const port = await getFreePort();
+        const noReplay = new UnityConnection(port, await getFreePort(), {
+            host: '127.0.0.1',
+            authToken: AUTH_TOKEN,
+            replayIdempotentRequests: false,
+        });
+        const editor = new MockUnityEditor({ url: `ws://127.0.0.1:${port}`, token: AUTH_TOKEN }).respondOnce('getEditorState', {
+            disconnect: true,
+            delayMs: 50,
+        });
+        editors.push(editor);
+        await editor.connect();
+
+        try {
+            await expect(noReplay.sendRequest('getEditorState', {}, 2000, { idempotent: true })).rejects.toBeInstanceOf(
+                UnityDisconnectedError,
+            );
+        } finally {
+            noReplay.close();
+        }
+    });
+
+    it('should hold requests until an editor connects', async () => {
+        const state = connection.sendRequest('getEditorState', {}, 2000);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        await createEditor().connect();
+
+        await expect(state).resolves.toMatchObject({ playModeState: 'Stopped' });
+    });
+
+    it('should fail held requests once the connection wait is over', async () => {
+        const started = Date.now();
+
+        await expect(connection.sendRequest('getEditorState', {}, 2000)).rejects.toBeInstanceOf(UnityNotConnectedError);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+    });
+
+    it('should wait for the selected editor only', async () => {
+        const waiting = connection.waitForConnection(1000, 'Second');
+
+        await createEditor({ projectName: 'First', projectPath: '/projects/First' }).connect();
+        const early = await Promise.race([waiting, new Promise((resolve) => setTimeout(() => resolve('pending'), 50))]);
+        await createEditor({ projectName: 'Second', projectPath: '/projects/Second' }).connect();
+
+        expect(early).toBe('pending');
+        await expect(waiting).resolves.toBe(true);
+        await expect(connection.waitForConnection(50, 'Third')).resolves.toBe(false);
+    });
+
+    it('should route requests to the selected editor', async () => {
+        const first = createEditor({ projectName: 'First', projectPath: '/projects/First' });
+        const second = createEditor({ projectName: 'Second', projectPath: '/projects/Second' });
+        await first.connect();
+        await second.connect();
+
+        await connection.sendRequest('takeScreenshot', {}, 2000, { editor: 'First' });
+
+        expect(first.requests.map((request) => request.type)).toEqual(['takeScreenshot']);
+        expect(second.requests).toEqual([]);
+    });
+
+    it('should keep editors that do not identify themselves in separate sessions', async () => {
+        await createEditor({ anonymous: true }).connect();
+        await createEditor({ anonymous: true }).connect();
+
+        const sessions = connection.getSessions();
+        expect(sessions).toHaveLength(2);
+        expect(sessions[0].id).not.toBe(sessions[1].id);
+        expect(sessions.every((session) => session.isConnected())).toBe(true);
+    });
+
+    it('should refuse request types the plugin did not declare', async () => {
+        await createEditor({ messageTypes: ['getEditorState'] }).connect();
+
+        await expect(connection.sendRequest('takeScreenshot', {}, 2000)).rejects.toBeInstanceOf(
+            UnityUnsupportedRequestError,
+        );
+        expect(connection.isToolAvailable('take_screenshot')).toBe(false);
+    });
+
+    it('should buffer logs sent by the editor', async () => {
+        const editor = createEditor();
+        await editor.connect();
+        const received = new Promise((resolve) => connection.subscribeLogs(resolve));
+
+        editor.sendLog({ message: 'Hello from Unity', logType: 'Warning' });
+        await received;
+
+        expect(connection.getLogBuffer()).toMatchObject([{ message: 'Hello from Unity', logType: 'Warning' }]);
+    });
+
+    it('should keep the editor state pushed by the editor and report what changed', async () => {
+        const editor = createEditor();
+        await editor.connect();
+        const changed = new Promise((resolve) => connection.subscribeEditorState((keys) => resolve(keys)));
+
+        editor.sendStateChange({ selectedObjects: ['Chair (3)'], playModeState: 'Playing' });
+
+        expect(await changed).toEqual(['selectedObjects', 'playModeState']);
+        expect(connection.getDefaultSession()?.getLiveState()).toEqual({ selectedObjects: ['Chair (3)'], playModeState: 'Playing' });
+    });
+});
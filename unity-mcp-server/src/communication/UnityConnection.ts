@@ -1,53 +1,168 @@
 import { WebSocket, WebSocketServer } from "ws";
+import { EventEmitter } from "events";
 import { createServer, IncomingMessage, ServerResponse, Server } from "http";
-import { CommandResult, resolveCommandResult } from "../tools/ExecuteEditorCommandTool.js";
 import { LogEntry } from "../tools/index.js";
-import { resolveUnityEditorState, UnityEditorState } from "../tools/GetEditorStateTool.js";
-import { resolveObjectDetails } from "../tools/GetObjectDetailsTool.js";
-import { resolveScreenshot } from "../tools/TakeScreenshotTool.js";
-import { resolveSceneManipulation } from "../tools/ManipulateSceneTool.js";
-import { resolveAssetManagement } from "../tools/ManageAssetsTool.js";
+import { PendingRequestInfo, RequestRegistry, SettledRequest } from "./RequestRegistry.js";
+import { EditorInfo, EditorSession } from "./EditorSession.js";
+import {
+  UnityDisconnectedError,
+  UnityInvalidMessageError,
+  UnityNotConnectedError,
+  UnityRequestCancelledError,
+  UnityRequestTimeoutError,
+  UnityUnsupportedRequestError,
+} from "./errors.js";
+import {
+  EditorStateChange,
+  HelloData,
+  InboundMessage,
+  OutboundMessage,
+  parseInboundMessage,
+  ProgressData,
+  validateOutboundMessage,
+} from "./messages.js";
+import { tokenMatches } from "./auth.js";
+import { negotiateProtocol, PROTOCOL_VERSION, supportsTool } from "./protocol.js";
+import { ToolName } from "../config.js";
+import { ConnectionMetrics } from "./metrics.js";
+import { registerDiagnosticsRoutes } from "./diagnostics.js";
+import { SessionRecorder } from "./SessionRecorder.js";
+
+/** WebSocket close code for editors that fail to authenticate. */
+export const CLOSE_UNAUTHORIZED = 4001;
+
+// Sockets that have not completed an authenticated hello by then are dropped
+const HANDSHAKE_TIMEOUT_MS = 10_000;
+
+export interface UnityConnectionOptions {
+  /** Address the WebSocket and health servers bind to. Defaults to all interfaces. */
+  host?: string;
+  /** Number of Unity log entries kept for get_logs. */
+  logBufferSize?: number;
+  /**
+   * Keep idempotent requests (state queries, screenshots) pending across a
+   * disconnect and send them again once the editor completes the hello handshake.
+   */
+  replayIdempotentRequests?: boolean;
+  /**
+   * How long a request made while no editor is connected waits for one to
+   * complete the handshake before failing with UnityNotConnectedError.
+   */
+  connectionWaitMs?: number;
+  /** Tool names advertised to the plugin in the welcome message. */
+  features?: ToolName[];
+  /**
+   * Shared secret the plugin must send as `token` in its hello message. Also
+   * unlocks the detailed /health response when sent as a Bearer token.
+   * When unset, every editor is accepted.
+   */
+  authToken?: string;
+  /** Append every message exchanged with the plugin to this JSONL file (see SessionRecorder). */
+  recordFile?: string;
+}
+
+export interface SendRequestOptions {
+  /** Safe to send again after a reconnect (the request has no side effects in Unity). */
+  idempotent?: boolean;
+  /**
+   * Target editor: session id, project name or project path. Defaults to the
+   * most recently active connected editor.
+   */
+  editor?: string;
+  /** Aborting it fails the request with UnityRequestCancelledError and tells the plugin to stop. */
+  signal?: AbortSignal;
+  /** Called with each progress message Unity sends while working on the request. */
+  onProgress?: (progress: ProgressData) => void;
+}
+
+/** What a tool call passes down to its requests: the MCP cancellation signal and progress reporting. */
+export type ToolCallOptions = Pick<SendRequestOptions, "signal" | "onProgress">;
+
+/** Handler for an extra endpoint on the health server, see UnityConnection.addHttpRoute. */
+export type HttpRouteHandler = (req: IncomingMessage, res: ServerResponse) => void | Promise<void>;
+
+/** The part of UnityConnection tools use to send requests to an editor. */
+export type UnityRequester = Pick<UnityConnection, "sendRequest">;
 
 export class UnityConnection {
   private wsServer: WebSocketServer;
-  private connection: WebSocket | null = null;
+  private sessions = new Map<string, EditorSession>();
   private healthServer: Server;
   private readonly wsPort: number;
   private readonly healthPort: number;
+  private readonly host: string | undefined;
   private readonly startTime: number;
+  private readonly replayIdempotentRequests: boolean;
+  private readonly connectionWaitMs: number;
+  private readonly features: ToolName[];
+  private readonly authToken: string | undefined;
+  private readonly events = new EventEmitter();
+  private readonly httpRoutes = new Map<string, HttpRouteHandler>();
+  private readonly recorder: SessionRecorder | null;
 
-  private logBuffer: LogEntry[] = [];
-  private readonly maxLogBufferSize = 1000;
+  private readonly maxLogBufferSize: number;
 
-  // Event callbacks
-  private onLogReceived: ((entry: LogEntry) => void) | null = null;
+  private readonly metrics = new ConnectionMetrics();
+  private readonly requests = new RequestRegistry({
+    onSettled: (request) => this.metrics.recordRequest(request),
+  });
 
-  constructor(port: number = 8080, healthPort: number = 8081) {
+  // Event callbacks
+  private onLogReceived: ((entry: LogEntry, session: EditorSession) => void) | null = null;
+  private onEditorsChanged: (() => void) | null = null;
+
+  constructor(
+    port: number = 8080,
+    healthPort: number = 8081,
+    options: UnityConnectionOptions = {},
+  ) {
     this.wsPort = port;
     this.healthPort = healthPort;
+    this.host = options.host;
+    this.maxLogBufferSize = options.logBufferSize ?? 1000;
+    this.replayIdempotentRequests = options.replayIdempotentRequests ?? true;
+    this.connectionWaitMs = options.connectionWaitMs ?? 15_000;
+    this.authToken = options.authToken;
+    this.recorder = options.recordFile ? new SessionRecorder(options.recordFile) : null;
+    if (this.recorder) {
+      console.error(`[Unity MCP] Recording editor messages to ${this.recorder.filePath}`);
+    }
+    this.features = options.features ?? [
+      "execute_editor_command",
+      "get_editor_state",
+      "get_logs",
+      "get_object_details",
+      "take_screenshot",
+      "manipulate_scene",
+      "manage_assets",
+      "list_editors"
+    ];
+    // Every tool call waiting for the editor registers a listener
+    this.events.setMaxListeners(0);
     this.startTime = Date.now();
-    this.wsServer = new WebSocketServer({ port });
+    this.wsServer = new WebSocketServer({ port, host: this.host });
     this.setupWebSocket();
     this.healthServer = this.setupHealthServer();
+    registerDiagnosticsRoutes(this);
   }
 
   private setupWebSocket() {
-    console.error(`[Unity MCP] WebSocket server starting on port ${this.wsPort}`);
+    console.error(`[Unity MCP] WebSocket server starting on ${this.describeAddress(this.wsPort)}`);
 
     this.wsServer.on("listening", () => {
       console.error(
-        `[Unity MCP] WebSocket server is listening on port ${this.wsPort}`,
+        `[Unity MCP] WebSocket server is listening on ${this.describeAddress(this.wsPort)}`,
       );
     });
 
     this.wsServer.on("error", (error: any) => {
       // Detailed error logging for common issues
       if (error.code === 'EADDRINUSE') {
-        console.error(`[Unity MCP] ERROR: Port ${this.wsPort} is already in use. Please ensure no other instance is running.`);
+        console.error(`[Unity MCP] ERROR: Port ${this.wsPort} is already in use. Please ensure no other instance is running, or choose another port with --port / UNITY_MCP_PORT.`);
       } else if (error.code === 'EACCES') {
         console.error(`[Unity MCP] ERROR: Permission denied for port ${this.wsPort}. Try using a port number > 1024.`);
       } else if (error.code === 'EADDRNOTAVAIL') {
-        console.error(`[Unity MCP] ERROR: Address not available. Check your network configuration.`);
+        console.error(`[Unity MCP] ERROR: Address ${this.host} not available. Check the configured host and your network configuration.`);
       } else {
         console.error(`[Unity MCP] WebSocket server error: ${error.code || 'UNKNOWN'}`, error.message);
       }
@@ -55,13 +170,40 @@ export class UnityConnection {
 
     this.wsServer.on("connection", (ws: WebSocket) => {
       console.error("[Unity MCP] Unity Editor connected");
-      this.connection = ws;
+      // Assigned once the editor identifies itself in the hello handshake
+      let session: EditorSession | null = null;
+
+      const handshakeTimer = setTimeout(() => {
+        this.rejectSocket(ws, "No hello received");
+      }, HANDSHAKE_TIMEOUT_MS);
 
       ws.on("message", (data: Buffer) => {
+        // Rejected sockets are closing; ignore whatever they still send
+        if (ws.readyState !== WebSocket.OPEN) return;
+
+        let message: InboundMessage;
+        try {
+          const raw = JSON.parse(data.toString());
+          this.recorder?.recordMessage("in", session?.id ?? null, raw);
+          message = parseInboundMessage(raw);
+        } catch (error) {
+          this.handleInvalidMessage(ws, session, error);
+          return;
+        }
+
         try {
-          const message = JSON.parse(data.toString());
           console.error("[Unity MCP] Received message:", message.type);
-          this.handleUnityMessage(message);
+
+          if (session) {
+            this.handleUnityMessage(session, message);
+          } else if (message.type !== "hello") {
+            this.rejectSocket(ws, `Expected hello, got ${message.type}`);
+          } else if (this.authToken !== undefined && !tokenMatches(this.authToken, message.data.token)) {
+            this.rejectSocket(ws, "Invalid or missing auth token");
+          } else {
+            clearTimeout(handshakeTimer);
+            session = this.handleHandshake(ws, message.data);
+          }
         } catch (error) {
           console.error("[Unity MCP] Error handling message:", error);
         }
@@ -71,9 +213,21 @@ export class UnityConnection {
         console.error("[Unity MCP] WebSocket error:", error);
       });
 
-      ws.on("close", () => {
-        console.error("[Unity MCP] Unity Editor disconnected");
-        this.connection = null;
+      ws.on("close", (code: number, reason: Buffer) => {
+        clearTimeout(handshakeTimer);
+        const reasonText = reason.toString() || `code ${code}`;
+        console.error(
+          `[Unity MCP] Unity Editor disconnected${session ? ` [${session.projectName}]` : ""} (${reasonText})`,
+        );
+
+        // A reconnect of the same editor may already have replaced this socket
+        if (!session || session.socket !== ws) return;
+
+        session.socket = null;
+        this.metrics.recordDisconnect();
+        this.recorder?.recordDisconnect(session.id, code, reason.toString());
+        this.failInFlight(session, reasonText);
+        this.onEditorsChanged?.();
       });
     });
   }
@@ -82,8 +236,8 @@ export class UnityConnection {
     const server = createServer((req: IncomingMessage, res: ServerResponse) => {
       // Enable CORS for health check endpoint
       res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version');
 
       // Handle OPTIONS preflight request
       if (req.method === 'OPTIONS') {
@@ -93,168 +247,547 @@ export class UnityConnection {
       }
 
       if (req.url === '/health' && req.method === 'GET') {
-        const healthStatus = {
-          status: 'healthy',
-          version: '0.2.0',
-          websocketPort: this.wsPort,
-          healthPort: this.healthPort,
-          uptime: Math.floor((Date.now() - this.startTime) / 1000),
-          connected: this.connection !== null,
-          timestamp: new Date().toISOString()
-        };
+        // Without the token only liveness is reported, nothing about ports or editors
+        if (!this.isAuthorized(req)) {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status: 'healthy' }));
+          return;
+        }
 
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(healthStatus, null, 2));
-        console.error(`[Unity MCP] Health check requested - Status: ${this.connection ? 'connected' : 'waiting for connection'}`);
+        res.end(JSON.stringify(this.getStatus(), null, 2));
+        console.error(`[Unity MCP] Health check requested - Status: ${this.isConnected() ? 'connected' : 'waiting for connection'}`);
       } else {
+        const route = this.httpRoutes.get(new URL(req.url ?? '/', 'http://localhost').pathname);
+        if (route) {
+          this.dispatchHttpRoute(route, req, res);
+          return;
+        }
         res.writeHead(404, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Not Found', availableEndpoints: ['/health'] }));
+        res.end(JSON.stringify({ error: 'Not Found', availableEndpoints: ['/health', ...this.httpRoutes.keys()] }));
       }
     });
 
     server.on('error', (error: any) => {
       if (error.code === 'EADDRINUSE') {
-        console.error(`[Unity MCP] ERROR: Health check port ${this.healthPort} is already in use.`);
+        console.error(`[Unity MCP] ERROR: Health check port ${this.healthPort} is already in use. Choose another port with --health-port / UNITY_MCP_HEALTH_PORT.`);
       } else {
         console.error(`[Unity MCP] Health server error: ${error.code || 'UNKNOWN'}`, error.message);
       }
     });
 
-    server.listen(this.healthPort, () => {
-      console.error(`[Unity MCP] Health check endpoint available at http://localhost:${this.healthPort}/health`);
+    server.listen(this.healthPort, this.host, () => {
+      console.error(`[Unity MCP] Health check endpoint available at http://${this.host ?? "localhost"}:${this.healthPort}/health`);
     });
 
     return server;
   }
 
-  private handleUnityMessage(message: any) {
-    switch (message.type) {
-      case "hello":
-        this.handleHandshake(message.data);
-        break;
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (this.authToken === undefined) return true;
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? "");
+    return match !== null && tokenMatches(this.authToken, match[1]);
+  }
 
-      case "commandResult":
-        resolveCommandResult(message.data as CommandResult);
-        break;
+  private dispatchHttpRoute(route: HttpRouteHandler, req: IncomingMessage, res: ServerResponse) {
+    if (!this.authorizeHttpRequest(req, res)) return;
 
-      case "editorState":
-        resolveUnityEditorState(message.data as UnityEditorState);
-        break;
+    Promise.resolve(route(req, res)).catch((error) => {
+      console.error(`[Unity MCP] Error handling ${req.method} ${req.url}:`, error);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+      }
+      res.end(JSON.stringify({ error: 'Internal Server Error' }));
+    });
+  }
 
-      case "objectDetails":
-        resolveObjectDetails(message.data);
-        break;
+  /** Tell the client why and drop the connection; nothing else is processed from it. */
+  private rejectSocket(ws: WebSocket, reason: string) {
+    if (ws.readyState !== WebSocket.OPEN) return;
 
-      case "screenshot":
-        resolveScreenshot(message.data);
-        break;
+    console.error(`[Unity MCP] Rejecting connection: ${reason}`);
+    this.metrics.recordRejectedConnection();
+    const message: OutboundMessage = { type: "error", data: { code: "unauthorized", message: reason } };
+    this.recorder?.recordMessage("out", null, message);
+    ws.send(JSON.stringify(message));
+    ws.close(CLOSE_UNAUTHORIZED, "Unauthorized");
+  }
+
+  private describeAddress(port: number): string {
+    return this.host ? `${this.host}:${port}` : `port ${port}`;
+  }
+
+  /**
+   * Report a message that is not JSON or fails its schema. A response that still
+   * carries a requestId fails that request instead of leaving it to time out.
+   */
+  private handleInvalidMessage(ws: WebSocket, session: EditorSession | null, error: unknown) {
+    if (!(error instanceof UnityInvalidMessageError)) {
+      console.error("[Unity MCP] Dropping message that is not valid JSON:", error);
+      this.metrics.recordInvalidMessage("unknown");
+      return;
+    }
+
+    this.metrics.recordInvalidMessage(error.messageType);
+
+    console.error(
+      `[Unity MCP] ${error.message}${session ? ` from [${session.projectName}]` : ""}`,
+    );
+    if (!session) {
+      this.rejectSocket(ws, `Expected hello, got invalid ${error.messageType}`);
+    } else if (error.requestId !== undefined && error.messageType !== "progress") {
+      this.requests.reject(error.requestId, error);
+    }
+  }
 
+  private handleUnityMessage(session: EditorSession, message: InboundMessage) {
+    switch (message.type) {
+      case "commandResult":
+      case "editorState":
+      case "objectDetails":
+      case "foundGameObjects":
+      case "screenshot":
       case "sceneManipulationResult":
-        resolveSceneManipulation(message.data);
+      case "assetManagementResult":
+        session.touch();
+        this.handleResponse(message);
         break;
 
-      case "assetManagementResult":
-        resolveAssetManagement(message.data);
+      case "progress":
+        session.touch();
+        // Progress for a request that already timed out is dropped silently
+        this.requests.progress(message.requestId, message.data);
         break;
 
       case "log":
-        this.handleLogMessage(message.data);
+        session.addLog(message.data);
         if (this.onLogReceived) {
-          this.onLogReceived(message.data);
+          this.onLogReceived(message.data, session);
         }
+        this.events.emit("log", message.data, session);
         break;
 
+      case "editorStateChanged": {
+        const changed = session.updateLiveState(message.data);
+        if (changed.length > 0) this.events.emit("editorStateChanged", changed, session);
+        break;
+      }
+
       case "ping":
         // Respond to heartbeat ping with pong
-        this.sendMessage("pong", { timestamp: new Date().toISOString() });
+        this.send(session, { type: "pong", data: { timestamp: new Date().toISOString() } });
         break;
 
       default:
-        console.error("[Unity MCP] Unknown message type:", message.type);
+        // hello on an established session is ignored; the plugin reconnects to re-handshake
+        console.error("[Unity MCP] Unexpected message type:", message.type);
     }
   }
 
-  private handleHandshake(data: any) {
+  private handleHandshake(ws: WebSocket, data: HelloData): EditorSession {
     console.error("[Unity MCP] Received handshake from Unity Editor");
     console.error(`[Unity MCP] Unity Version: ${data.unityVersion}, Platform: ${data.platform}`);
 
-    // Send welcome response
-    const welcomeMessage = {
+    const protocol = negotiateProtocol(data);
+    if (protocol.warning) {
+      console.error(`[Unity MCP] WARNING: ${protocol.warning}`);
+    }
+
+    const info: EditorInfo = {
+      projectPath: data.projectPath,
+      projectName: data.projectName,
+      unityVersion: data.unityVersion,
+      platform: data.platform,
+      pluginVersion: data.version,
+      assemblies: data.assemblies,
+    };
+
+    const id = EditorSession.idFor(info);
+    let session = this.sessions.get(id);
+    this.metrics.recordConnection(session !== undefined);
+    if (session) {
+      // Same editor reconnecting (e.g. after a domain reload) before its old socket closed
+      if (session.socket && session.socket !== ws) {
+        this.failInFlight(session, "replaced by a new connection");
+        session.socket.close();
+      }
+      session.info = info;
+      session.protocol = protocol;
+      session.socket = ws;
+      session.connectedAt = new Date();
+      session.touch();
+    } else {
+      session = new EditorSession(info, ws, this.maxLogBufferSize, protocol, id);
+      this.sessions.set(session.id, session);
+    }
+    console.error(
+      `[Unity MCP] Editor session ${session.id} [${session.projectName}] ready (protocol ${protocol.version})`,
+    );
+
+    // Send welcome response with the negotiated protocol
+    const welcomeMessage: OutboundMessage = {
       type: "welcome",
       data: {
         serverVersion: "0.2.0",
-        features: [
-          "execute_editor_command",
-          "get_editor_state",
-          "get_logs",
-          "get_object_details",
-          "take_screenshot",
-          "manipulate_scene",
-          "manage_assets"
-        ],
+        protocolVersion: protocol.version,
+        compatible: protocol.compatible,
+        messageTypes: protocol.messageTypes,
+        features: this.features.filter((tool) => supportsTool(protocol, tool)),
+        warning: protocol.warning,
         timestamp: new Date().toISOString()
       }
     };
 
-    if (this.connection) {
-      this.connection.send(JSON.stringify(welcomeMessage));
-      console.error("[Unity MCP] Welcome message sent");
+    this.send(session, welcomeMessage);
+    console.error("[Unity MCP] Welcome message sent");
+    this.replayHeldRequests(session);
+
+    this.events.emit("ready", session);
+    this.onEditorsChanged?.();
+    return session;
+  }
+
+  private send(session: EditorSession, message: OutboundMessage) {
+    this.recorder?.recordMessage("out", session.id, message);
+    session.send(message);
+  }
+
+  private failInFlight(session: EditorSession, reason: string) {
+    this.requests.rejectInFlight(
+      session.id,
+      (type) => new UnityDisconnectedError(type, reason),
+      this.replayIdempotentRequests,
+    );
+  }
+
+  private replayHeldRequests(session: EditorSession) {
+    const replayable = this.requests.takeReplayable(session.id);
+    if (replayable.length === 0) return;
+
+    console.error(`[Unity MCP] Replaying ${replayable.length} request(s) interrupted by disconnect`);
+    for (const { requestId, type, data } of replayable) {
+      // The reconnected plugin may be a different version than the one that disconnected
+      if (!session.supports(type)) {
+        this.requests.reject(
+          requestId,
+          new UnityUnsupportedRequestError(type, session.projectName, session.protocol.warning),
+        );
+        continue;
+      }
+      this.send(session, validateOutboundMessage({ type, requestId, data }));
+    }
+  }
+
+  private handleResponse(message: Extract<InboundMessage, { requestId: string }>) {
+    if (!this.requests.resolve(message.requestId, message.data)) {
+      console.error(
+        `[Unity MCP] Received ${message.type} for unknown or expired request ${message.requestId}`,
+      );
     }
   }
 
-  private handleLogMessage(logEntry: LogEntry) {
-    // Add to buffer, removing oldest if at capacity
-    this.logBuffer.push(logEntry);
-    if (this.logBuffer.length > this.maxLogBufferSize) {
-      this.logBuffer.shift();
+  private getConnectedSessions(): EditorSession[] {
+    return [...this.sessions.values()].filter((session) => session.isConnected());
+  }
+
+  /**
+   * Find the connected session a tool call is aimed at. Without a selector this
+   * is the most recently active editor. Throws if the selector is ambiguous.
+   */
+  private findSession(editor: string | undefined): EditorSession | undefined {
+    const candidates = this.getConnectedSessions();
+
+    if (editor === undefined) {
+      return candidates.sort((a, b) => b.lastActiveAt.getTime() - a.lastActiveAt.getTime())[0];
+    }
+
+    const byId = candidates.find((session) => session.id === editor);
+    if (byId) return byId;
+
+    const matches = candidates.filter((session) => session.matches(editor));
+    if (matches.length > 1) {
+      throw new Error(
+        `Editor "${editor}" is ambiguous, use one of the session ids: ${matches.map((s) => s.id).join(", ")}`,
+      );
     }
+    return matches[0];
   }
 
   // Public API
   public isConnected(): boolean {
-    return this.connection !== null && this.connection.readyState === 1; // 1 = OPEN
+    return this.getConnectedSessions().length > 0;
+  }
+
+  /** All editors seen since startup, including disconnected ones. */
+  public getSessions(): EditorSession[] {
+    return [...this.sessions.values()];
+  }
+
+  /** The editor a tool call without an explicit target would be sent to. */
+  public getDefaultSession(): EditorSession | undefined {
+    return this.findSession(undefined);
+  }
+
+  /**
+   * The selected editor (default: most recently active). Falls back to
+   * disconnected sessions so an editor in the middle of a reload is still found.
+   */
+  public getSession(editor?: string): EditorSession | undefined {
+    return (
+      this.findSession(editor) ??
+      (editor === undefined ? undefined : this.getSessions().find((s) => s.matches(editor)))
+    );
+  }
+
+  /**
+   * Logs of the selected editor, including logs from before a crash or reload
+   * (see getSession).
+   */
+  public getLogBuffer(editor?: string): LogEntry[] {
+    return this.getSession(editor)?.getLogBuffer() ?? [];
+  }
+
+  /**
+   * Check the Bearer token of an HTTP request. Answers 401 and returns false
+   * when it is missing or wrong.
+   */
+  public authorizeHttpRequest(req: IncomingMessage, res: ServerResponse): boolean {
+    if (this.isAuthorized(req)) return true;
+
+    res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+    res.end(JSON.stringify({ error: 'Unauthorized' }));
+    return false;
+  }
+
+  /**
+   * Serve extra endpoints (e.g. the MCP HTTP transport) on the health server.
+   * Unlike /health they always require the auth token.
+   */
+  public addHttpRoute(paths: string | string[], handler: HttpRouteHandler): void {
+    for (const path of Array.isArray(paths) ? paths : [paths]) {
+      this.httpRoutes.set(path, handler);
+    }
+  }
+
+  /**
+   * Server and editor summary served by /health (with the token) and /status.
+   */
+  public getStatus() {
+    const connected = this.getConnectedSessions();
+    return {
+      status: 'healthy',
+      version: '0.2.0',
+      websocketPort: this.wsPort,
+      healthPort: this.healthPort,
+      uptime: Math.floor((Date.now() - this.startTime) / 1000),
+      connected: connected.length > 0,
+      editors: connected.length,
+      protocolVersion: PROTOCOL_VERSION,
+      protocolWarnings: connected
+        .filter((session) => session.protocol.warning)
+        .map((session) => `${session.projectName}: ${session.protocol.warning}`),
+      timestamp: new Date().toISOString()
+    };
   }
 
-  public getLogBuffer(): LogEntry[] {
-    return [...this.logBuffer];
+  /** Requests still waiting for Unity, oldest first. */
+  public getPendingRequests(): PendingRequestInfo[] {
+    return this.requests.listPending();
   }
 
-  public setOnLogReceived(callback: (entry: LogEntry) => void): void {
+  /** Recently finished requests, most recent last. */
+  public getRequestHistory(): SettledRequest[] {
+    return this.requests.getHistory();
+  }
+
+  /** Counters, latencies and current gauges in the Prometheus text format. */
+  public renderMetrics(): string {
+    return this.metrics.render([
+      {
+        name: "unity_mcp_editors_connected",
+        help: "Editors currently connected and past the handshake.",
+        value: this.getConnectedSessions().length,
+      },
+      {
+        name: "unity_mcp_requests_in_flight",
+        help: "Requests sent to Unity that have not settled yet.",
+        value: this.requests.size,
+      },
+      {
+        name: "unity_mcp_uptime_seconds",
+        help: "Seconds since the server started.",
+        value: Math.floor((Date.now() - this.startTime) / 1000),
+      },
+    ]);
+  }
+
+  /**
+   * Listen to every log entry received from any editor, in addition to the
+   * single setOnLogReceived callback. Returns a function that unsubscribes.
+   */
+  public subscribeLogs(listener: (entry: LogEntry, session: EditorSession) => void): () => void {
+    this.events.on("log", listener);
+    return () => {
+      this.events.off("log", listener);
+    };
+  }
+
+  /**
+   * Listen to editor state changes pushed by any editor, with the keys that
+   * changed (e.g. "selectedObjects"). Returns a function that unsubscribes.
+   */
+  public subscribeEditorState(
+    listener: (changed: (keyof EditorStateChange)[], session: EditorSession) => void,
+  ): () => void {
+    this.events.on("editorStateChanged", listener);
+    return () => {
+      this.events.off("editorStateChanged", listener);
+    };
+  }
+
+  public setOnLogReceived(callback: (entry: LogEntry, session: EditorSession) => void): void {
     this.onLogReceived = callback;
   }
 
-  public sendMessage(type: string, data: any): void {
-    if (this.connection) {
-      this.connection.send(JSON.stringify({ type, data }));
-    } else {
+  /** Called whenever an editor completes the handshake or disconnects. */
+  public setOnEditorsChanged(callback: () => void): void {
+    this.onEditorsChanged = callback;
+  }
+
+  /**
+   * Whether a tool can currently be served: true while no editor is connected
+   * (calls wait for one) or when at least one connected editor supports it.
+   */
+  public isToolAvailable(tool: ToolName): boolean {
+    const connected = this.getConnectedSessions();
+    return connected.length === 0 || connected.some((session) => supportsTool(session.protocol, tool));
+  }
+
+  /**
+   * A requester bound to one editor, for tools that take an `editor` argument,
+   * and to the tool call's abort signal and progress reporting.
+   */
+  public forEditor(editor: string | undefined, call: ToolCallOptions = {}): UnityRequester {
+    return {
+      sendRequest: <T>(type: string, data: any, timeoutMs: number, options: SendRequestOptions = {}) =>
+        this.sendRequest<T>(type, data, timeoutMs, {
+          ...options,
+          editor: options.editor ?? editor,
+          signal: options.signal ?? call.signal,
+          onProgress: options.onProgress ?? call.onProgress,
+        }),
+    };
+  }
+
+  /**
+   * Send a request to Unity and wait for the response carrying the same requestId.
+   * If the target editor is not connected yet, the request is held until it completes
+   * the handshake (up to connectionWaitMs) and fails with UnityNotConnectedError otherwise.
+   * Rejects with UnityRequestTimeoutError if Unity does not answer within timeoutMs,
+   * UnityRequestCancelledError if options.signal is aborted, or UnityDisconnectedError
+   * if the editor goes away first. After a timeout or cancellation the plugin is sent
+   * a `cancel` message so it can abort the work.
+   */
+  public async sendRequest<T>(
+    type: string,
+    data: any,
+    timeoutMs: number,
+    options: SendRequestOptions = {},
+  ): Promise<T> {
+    let session = this.findSession(options.editor);
+    if (!session) {
       console.error(
-        "[Unity MCP] Cannot send message: Unity Editor not connected",
+        `[Unity MCP] Unity Editor${options.editor ? ` "${options.editor}"` : ""} not connected, holding "${type}" for up to ${this.connectionWaitMs / 1000} seconds`,
       );
+      await this.waitForConnection(this.connectionWaitMs, options.editor, options.signal);
+      // The editor may have disconnected again before this continuation ran
+      session = this.findSession(options.editor);
+    }
+
+    if (options.signal?.aborted) {
+      throw new UnityRequestCancelledError(type);
+    }
+    if (!session) {
+      throw new UnityNotConnectedError(type, this.connectionWaitMs, options.editor);
+    }
+    if (!session.supports(type)) {
+      throw new UnityUnsupportedRequestError(type, session.projectName, session.protocol.warning);
+    }
+
+    const { requestId, promise } = this.requests.create<T>(type, data, timeoutMs, {
+      idempotent: options.idempotent ?? false,
+      sessionId: session.id,
+      onProgress: options.onProgress,
+    });
+    let message: OutboundMessage;
+    try {
+      message = validateOutboundMessage({ type, requestId, data });
+    } catch (error) {
+      this.requests.reject(requestId, error);
+      return promise;
     }
+    session.touch();
+    this.send(session, message);
+
+    const target = session;
+    const signal = options.signal;
+    const abort = () => this.requests.reject(requestId, new UnityRequestCancelledError(type));
+    signal?.addEventListener("abort", abort, { once: true });
+    promise.then(
+      () => signal?.removeEventListener("abort", abort),
+      (error) => {
+        signal?.removeEventListener("abort", abort);
+        if (error instanceof UnityRequestTimeoutError || error instanceof UnityRequestCancelledError) {
+          this.cancelInUnity(target, requestId, error.message);
+        }
+      },
+    );
+
+    return promise;
+  }
+
+  /** Tell the plugin the server stopped waiting for a request, if it understands `cancel`. */
+  private cancelInUnity(session: EditorSession, requestId: string, reason: string) {
+    if (!session.isConnected() || !session.supports("cancel")) return;
+    this.send(session, { type: "cancel", requestId, data: { reason } });
   }
 
-  public async waitForConnection(timeoutMs: number = 60000): Promise<boolean> {
-    if (this.connection) return true;
+  /**
+   * Resolves true once an editor (optionally a specific one) has connected and
+   * completed the hello handshake, or false on timeout or when signal is aborted.
+   */
+  public async waitForConnection(timeoutMs: number = 60000, editor?: string, signal?: AbortSignal): Promise<boolean> {
+    if (this.findSession(editor)) return true;
+    if (signal?.aborted) return false;
 
     return new Promise<boolean>((resolve) => {
-      const timeout = setTimeout(() => resolve(false), timeoutMs);
-
-      const connectionHandler = () => {
+      const finish = (connected: boolean) => {
         clearTimeout(timeout);
-        this.wsServer.off("connection", connectionHandler);
-        resolve(true);
+        this.events.off("ready", readyHandler);
+        signal?.removeEventListener("abort", abortHandler);
+        resolve(connected);
+      };
+      const timeout = setTimeout(() => finish(false), timeoutMs);
+
+      const readyHandler = (session: EditorSession) => {
+        if (editor !== undefined && !session.matches(editor)) return;
+        finish(true);
       };
+      const abortHandler = () => finish(false);
 
-      this.wsServer.on("connection", connectionHandler);
+      this.events.on("ready", readyHandler);
+      signal?.addEventListener("abort", abortHandler, { once: true });
     });
   }
 
   public close(): void {
-    if (this.connection) {
-      this.connection.close();
-      this.connection = null;
+    this.requests.rejectAll(new Error("Unity MCP server is shutting down"));
+    for (const session of this.sessions.values()) {
+      session.socket?.close();
+      session.socket = null;
     }
     this.wsServer.close();
+    this.recorder?.close();
     this.healthServer.close(() => {
       console.error("[Unity MCP] Health server closed");
     });
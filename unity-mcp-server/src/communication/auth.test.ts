@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { resolveAuthToken, tokenMatches } from './auth.js';
+
+describe('resolveAuthToken', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = mkdtempSync(path.join(tmpdir(), 'unity-mcp-auth-'));
+    });
+
+    afterEach(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should prefer an explicitly configured token', () => {
+        const tokenFile = path.join(tempDir, 'auth-token');
+        expect(resolveAuthToken('configured-secret-value', tokenFile)).toBe('configured-secret-value');
+        expect(() => statSync(tokenFile)).toThrow();
+    });
+
+    it('should generate a token file readable only by the owner', () => {
+        const tokenFile = path.join(tempDir, 'nested', 'auth-token');
+        const token = resolveAuthToken(undefined, tokenFile);
+
+        expect(token).toMatch(/^[0-9a-f]{64}$/);
+        expect(readFileSync(tokenFile, 'utf8').trim()).toBe(token);
+        if (process.platform !== 'win32') {
+            expect(statSync(tokenFile).mode & 0o777).toBe(0o600);
+        }
+    });
+
+    it('should reuse an existing token file', () => {
+        const tokenFile = path.join(tempDir, 'auth-token');
+        writeFileSync(tokenFile, 'existing-secret-value\n');
+        expect(resolveAuthToken(undefined, tokenFile)).toBe('existing-secret-value');
+    });
+});
+
+describe('tokenMatches', () => {
+    it('should only accept the exact token', () => {
+        expect(tokenMatches('secret', 'secret')).toBe(true);
+        expect(tokenMatches('secret', 'secret2')).toBe(false);
+        expect(tokenMatches('secret', '')).toBe(false);
+        expect(tokenMatches('secret', undefined)).toBe(false);
+        expect(tokenMatches('secret', 42)).toBe(false);
+    });
+});
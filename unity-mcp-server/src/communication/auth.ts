@@ -0,0 +1,41 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { chmodSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+
+/** Where the server keeps its generated secret; the Unity plugin reads the same file. */
+export const DEFAULT_AUTH_TOKEN_FILE = path.join(os.homedir(), ".unity-mcp", "auth-token");
+
+/**
+ * Return the shared secret editors must present in their hello message.
+ * An explicitly configured token wins; otherwise the token file is read,
+ * and created with a fresh random token (readable by the current user only)
+ * if it does not exist yet.
+ */
+export function resolveAuthToken(token: string | undefined, tokenFile: string): string {
+  if (token) return token;
+
+  try {
+    const existing = readFileSync(tokenFile, "utf8").trim();
+    if (existing.length > 0) return existing;
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+  }
+
+  const generated = randomBytes(32).toString("hex");
+  mkdirSync(path.dirname(tokenFile), { recursive: true, mode: 0o700 });
+  writeFileSync(tokenFile, generated + "\n", { mode: 0o600 });
+  // mode is ignored when the file already existed but was empty
+  chmodSync(tokenFile, 0o600);
+  console.error(`[Unity MCP] Generated auth token in ${tokenFile}`);
+  return generated;
+}
+
+/** Constant-time comparison of a presented token against the expected one. */
+export function tokenMatches(expected: string, presented: unknown): boolean {
+  if (typeof presented !== "string") return false;
+  // Hash both sides so the comparison does not leak the token length
+  const a = createHash("sha256").update(expected).digest();
+  const b = createHash("sha256").update(presented).digest();
+  return timingSafeEqual(a, b);
+}
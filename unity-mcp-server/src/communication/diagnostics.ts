@@ -0,0 +1,127 @@
+import { IncomingMessage, ServerResponse } from "http";
+import type { EditorSession } from "./EditorSession.js";
+import type { HttpRouteHandler, UnityConnection } from "./UnityConnection.js";
+
+// Comment line sent on idle /logs streams so proxies do not drop them
+const KEEP_ALIVE_MS = 15_000;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+function readLimit(url: URL, name: string, fallback: number): number {
+  const value = Number(url.searchParams.get(name) ?? fallback);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+function wantsStream(req: IncomingMessage, url: URL): boolean {
+  const follow = url.searchParams.get("follow");
+  return follow === "1" || follow === "true" || (req.headers.accept ?? "").includes("text/event-stream");
+}
+
+/** The diagnostics API is read-only: anything but GET is answered with 405. */
+function getOnly(handler: HttpRouteHandler): HttpRouteHandler {
+  return (req, res) => {
+    if (req.method !== "GET") {
+      res.writeHead(405, { "Content-Type": "application/json", Allow: "GET" });
+      res.end(JSON.stringify({ error: "Method Not Allowed" }));
+      return;
+    }
+    return handler(req, res);
+  };
+}
+
+/** The session /logs reads from, or undefined when the selector matches none or several. */
+function logSession(connection: UnityConnection, editor: string | undefined): EditorSession | undefined {
+  try {
+    return connection.getSession(editor);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Serve the diagnostics API on the health server:
+ *
+ * - `GET /status`: server summary, every editor session and the in-flight requests
+ * - `GET /requests?limit=N`: in-flight requests and the most recent finished ones
+ * - `GET /logs?editor=X&count=N`: buffered Unity logs of the editor (the default
+ *   one when omitted); with `follow=1` (or `Accept: text/event-stream`) the
+ *   buffer is sent followed by that editor's new entries as SSE
+ * - `GET /metrics`: request counts, latencies, timeouts and reconnects for Prometheus
+ *
+ * Like every route added through addHttpRoute these require the auth token.
+ * Other methods are answered with 405.
+ */
+export function registerDiagnosticsRoutes(connection: UnityConnection): void {
+  connection.addHttpRoute("/status", getOnly((_req, res) => {
+    const defaultSession = connection.getDefaultSession();
+    sendJson(res, 200, {
+      ...connection.getStatus(),
+      sessions: connection.getSessions().map((session) => ({
+        ...session.describe(),
+        isDefault: session === defaultSession,
+      })),
+      pendingRequests: connection.getPendingRequests(),
+    });
+  }));
+
+  connection.addHttpRoute("/requests", getOnly((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const limit = readLimit(url, "limit", 50);
+    sendJson(res, 200, {
+      pending: connection.getPendingRequests(),
+      recent: connection.getRequestHistory().slice(-limit),
+    });
+  }));
+
+  connection.addHttpRoute("/logs", getOnly((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const editor = url.searchParams.get("editor") ?? undefined;
+    const count = readLimit(url, "count", 100);
+
+    let session: EditorSession | undefined;
+    try {
+      session = connection.getSession(editor);
+    } catch (error) {
+      // Ambiguous editor selector
+      sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    const logs = (session?.getLogBuffer() ?? []).slice(-count);
+
+    if (!wantsStream(req, url)) {
+      sendJson(res, 200, logs);
+      return;
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+    for (const entry of logs) {
+      res.write(`event: log\ndata: ${JSON.stringify(entry)}\n\n`);
+    }
+
+    const unsubscribe = connection.subscribeLogs((entry, from) => {
+      // Stay on the editor the buffer came from, or the first one selected once an editor connects
+      session ??= logSession(connection, editor);
+      if (from !== session) return;
+      res.write(`event: log\ndata: ${JSON.stringify(entry)}\n\n`);
+    });
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), KEEP_ALIVE_MS);
+    res.on("close", () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  }));
+
+  connection.addHttpRoute("/metrics", getOnly((_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+    res.end(connection.renderMetrics());
+  }));
+}
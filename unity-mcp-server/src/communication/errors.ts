@@ -0,0 +1,92 @@
+/**
+ * Raised when the Unity Editor does not answer a request within its timeout.
+ */
+export class UnityRequestTimeoutError extends Error {
+  constructor(
+    public readonly requestType: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`Request "${requestType}" timed out after ${timeoutMs / 1000} seconds.`);
+    this.name = "UnityRequestTimeoutError";
+  }
+}
+
+/**
+ * Raised when the caller gives up on a request before Unity answered, e.g.
+ * because the MCP client cancelled the tool call.
+ */
+export class UnityRequestCancelledError extends Error {
+  constructor(public readonly requestType: string) {
+    super(`Request "${requestType}" was cancelled.`);
+    this.name = "UnityRequestCancelledError";
+  }
+}
+
+/**
+ * Raised for in-flight requests when the Unity Editor closes the WebSocket
+ * (editor shutdown, script recompile / domain reload, network drop).
+ */
+export class UnityDisconnectedError extends Error {
+  constructor(
+    public readonly requestType: string,
+    public readonly reason: string = "",
+  ) {
+    super(
+      `Unity Editor disconnected before responding to "${requestType}"${reason ? ` (${reason})` : ""}.`,
+    );
+    this.name = "UnityDisconnectedError";
+  }
+}
+
+/**
+ * Raised when the target editor's plugin did not declare support for a request
+ * type during protocol negotiation (plugin too old, or too new for this server).
+ */
+export class UnityUnsupportedRequestError extends Error {
+  constructor(
+    public readonly requestType: string,
+    public readonly editor: string,
+    public readonly reason?: string,
+  ) {
+    super(
+      `The UnityMCP plugin in "${editor}" does not support "${requestType}". ` +
+        (reason ?? "Update the UnityMCP plugin in the Unity project to use this tool."),
+    );
+    this.name = "UnityUnsupportedRequestError";
+  }
+}
+
+/**
+ * Raised when a message from or to the plugin does not match its schema in
+ * messages.ts. Responses failing validation reject the request they answer.
+ */
+export class UnityInvalidMessageError extends Error {
+  constructor(
+    public readonly messageType: string,
+    public readonly requestId: string | undefined,
+    public readonly issues: string[],
+  ) {
+    super(`Invalid "${messageType}" message: ${issues.join("; ")}`);
+    this.name = "UnityInvalidMessageError";
+  }
+}
+
+/**
+ * Raised when no Unity Editor connected within the grace window a request
+ * is allowed to wait before being sent.
+ */
+export class UnityNotConnectedError extends Error {
+  constructor(
+    public readonly requestType: string,
+    public readonly waitMs: number,
+    public readonly editor?: string,
+  ) {
+    super(
+      `No Unity Editor${editor ? ` matching "${editor}"` : ""} connected: waited ${waitMs / 1000} seconds to send "${requestType}". ` +
+        (editor
+          ? "Use list_editors to see the connected editors."
+          : "Make sure the Unity project with the UnityMCP plugin is open."),
+    );
+    this.name = "UnityNotConnectedError";
+  }
+}
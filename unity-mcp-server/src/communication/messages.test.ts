@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { parseInboundMessage, validateOutboundMessage } from './messages.js';
+import { UnityInvalidMessageError } from './errors.js';
+
+function captureError(fn: () => unknown): UnityInvalidMessageError {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof UnityInvalidMessageError) return error;
+        throw error;
+    }
+    throw new Error('Expected UnityInvalidMessageError');
+}
+
+describe('parseInboundMessage', () => {
+    it('should accept a well-formed commandResult', () => {
+        const message = parseInboundMessage({
+            type: 'commandResult',
+            requestId: 'req-1',
+            data: { result: 42, logs: [], errors: [], warnings: [], executionSuccess: true },
+        });
+
+        expect(message.type).toBe('commandResult');
+        expect(message.type === 'commandResult' && message.data.result).toBe(42);
+    });
+
+    it('should keep fields added by newer plugins', () => {
+        const message = parseInboundMessage({
+            type: 'screenshot',
+            requestId: 'req-1',
+            data: { base64: 'AAAA', format: 'jpg', width: 640 },
+        });
+
+        expect(message.data).toMatchObject({ width: 640 });
+    });
+
+    it('should accept Unity-side error payloads for results', () => {
+        const message = parseInboundMessage({
+            type: 'objectDetails',
+            requestId: 'req-1',
+            data: { error: "GameObject 'Missing' not found." },
+        });
+
+        expect(message.data).toEqual({ error: "GameObject 'Missing' not found." });
+    });
+
+    it('should default missing hello and ping data', () => {
+        expect(parseInboundMessage({ type: 'hello' })).toEqual({ type: 'hello', data: {} });
+        expect(parseInboundMessage({ type: 'ping' })).toEqual({ type: 'ping', data: {} });
+    });
+
+    it('should report the request and the failing fields of an invalid response', () => {
+        const error = captureError(() =>
+            parseInboundMessage({
+                type: 'commandResult',
+                requestId: 'req-7',
+                data: { result: null, logs: 'oops', errors: [], warnings: [] },
+            })
+        );
+
+        expect(error.messageType).toBe('commandResult');
+        expect(error.requestId).toBe('req-7');
+        expect(error.issues).toEqual(
+            expect.arrayContaining([expect.stringMatching(/^data\.logs:/), expect.stringMatching(/^data\.executionSuccess:/)])
+        );
+    });
+
+    it('should explain why a success-or-error payload matched neither shape', () => {
+        const error = captureError(() =>
+            parseInboundMessage({ type: 'screenshot', requestId: 'req-1', data: { base64: 5, format: 'jpg' } })
+        );
+
+        expect(error.issues).toEqual([expect.stringMatching(/^data\.base64:/)]);
+    });
+
+    it('should reject responses without requestId and unknown message types', () => {
+        expect(captureError(() => parseInboundMessage({ type: 'editorState', data: {} })).requestId).toBeUndefined();
+        expect(captureError(() => parseInboundMessage({ type: 'teleport', data: {} })).messageType).toBe('teleport');
+        expect(captureError(() => parseInboundMessage('not an object')).messageType).toBe('unknown');
+    });
+});
+
+describe('validateOutboundMessage', () => {
+    it('should accept known requests and reject malformed ones', () => {
+        expect(validateOutboundMessage({ type: 'getGameObjectDetails', requestId: 'req-1', data: { objectName: 'Player' } }))
+            .toEqual({ type: 'getGameObjectDetails', requestId: 'req-1', data: { objectName: 'Player' } });
+
+        const error = captureError(() =>
+            validateOutboundMessage({ type: 'executeEditorCommand', requestId: 'req-2', data: { code: '' } })
+        );
+        expect(error.requestId).toBe('req-2');
+        expect(error.issues).toEqual([expect.stringMatching(/^data\.code:/)]);
+    });
+
+    it('should reject request types without a schema', () => {
+        expect(() => validateOutboundMessage({ type: 'formatHardDrive', requestId: 'req-1', data: {} })).toThrow(
+            UnityInvalidMessageError
+        );
+    });
+});
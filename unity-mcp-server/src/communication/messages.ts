@@ -0,0 +1,333 @@
+import { z } from "zod";
+import { UnityInvalidMessageError } from "./errors.js";
+
+/*
+ * Schemas for every message exchanged with the Unity plugin. All messages share
+ * the envelope `{ type, requestId?, data }`. Payload objects use passthrough so
+ * fields added by newer plugins survive validation instead of failing it.
+ */
+
+const vector3 = z.object({ x: z.number(), y: z.number(), z: z.number() });
+
+/** `{ error }` payload the plugin sends instead of a result when a request fails in Unity. */
+const unityErrorData = z.object({ error: z.string() }).passthrough();
+
+/** A response payload that is either the success shape or a Unity-side error. */
+function orUnityError<T extends z.ZodRawShape>(shape: T) {
+  return z.union([z.object({ ...shape, error: z.undefined() }).passthrough(), unityErrorData]);
+}
+
+// Unity -> server
+
+export const helloDataSchema = z
+  .object({
+    version: z.string().optional(),
+    protocolVersion: z.number().int().optional(),
+    messageTypes: z.array(z.string()).optional(),
+    /** Optional assemblies (VRChat SDK, UdonSharp) loaded in the editor. */
+    assemblies: z.array(z.string()).optional(),
+    unityVersion: z.string().optional(),
+    platform: z.string().optional(),
+    projectPath: z.string().optional(),
+    projectName: z.string().optional(),
+    token: z.string().optional(),
+    timestamp: z.string().optional(),
+  })
+  .passthrough();
+
+export const compilerDiagnosticSchema = z
+  .object({
+    /** 1-based, in the code as submitted. */
+    line: z.number().int(),
+    column: z.number().int(),
+    /** Compiler error number, e.g. CS0246. */
+    code: z.string(),
+    message: z.string(),
+    severity: z.enum(["error", "warning"]),
+  })
+  .passthrough();
+
+export const commandResultSchema = z
+  .object({
+    result: z.unknown(),
+    logs: z.array(z.string()),
+    errors: z.array(z.string()),
+    warnings: z.array(z.string()),
+    executionSuccess: z.boolean(),
+    errorDetails: z
+      .object({
+        message: z.string(),
+        stackTrace: z.string(),
+        type: z.string(),
+        // Set when the code failed to compile; null for runtime exceptions
+        diagnostics: z.array(compilerDiagnosticSchema).nullish(),
+      })
+      .optional(),
+  })
+  .passthrough();
+
+export interface HierarchyNode {
+  name: string;
+  components: string[];
+  children: HierarchyNode[];
+  // Sent by newer plugins
+  active?: boolean;
+  instanceId?: number;
+}
+
+export const hierarchyNodeSchema: z.ZodType<HierarchyNode> = z.lazy(() =>
+  z
+    .object({
+      name: z.string(),
+      components: z.array(z.string()),
+      children: z.array(hierarchyNodeSchema),
+      active: z.boolean().optional(),
+      instanceId: z.number().int().optional(),
+    })
+    .passthrough(),
+);
+
+export const editorStateSchema = z
+  .object({
+    activeGameObjects: z.array(z.string()),
+    selectedObjects: z.array(z.string()),
+    playModeState: z.string(),
+    // The plugin adds a null entry for root objects it failed to serialize
+    sceneHierarchy: z.array(hierarchyNodeSchema.nullable()),
+    projectStructure: z
+      .object({
+        scenes: z.array(z.string()).optional(),
+        assets: z.array(z.string()).optional(),
+      })
+      .catchall(z.array(z.string())),
+  })
+  .passthrough();
+
+export const objectDetailsSchema = orUnityError({
+  name: z.string(),
+  // Sent by plugins that support object selectors
+  path: z.string().optional(),
+  instanceId: z.number().int().optional(),
+  active: z.boolean(),
+  tag: z.string(),
+  layer: z.string(),
+  transform: z.object({
+    position: vector3,
+    rotation: vector3,
+    scale: vector3,
+  }),
+  components: z.array(
+    z.object({
+      type: z.string(),
+      data: z.record(z.unknown()),
+    }),
+  ),
+  // Sent by plugins that support childDepth; children have the same shape
+  childCount: z.number().int().optional(),
+  children: z.array(z.object({ name: z.string() }).passthrough()).nullish(),
+});
+
+/** One GameObject matched by a findGameObjects request. */
+export const gameObjectMatchSchema = z
+  .object({
+    name: z.string(),
+    path: z.string(),
+    instanceId: z.number().int(),
+    active: z.boolean(),
+    tag: z.string(),
+    layer: z.string(),
+    components: z.array(z.string()),
+  })
+  .passthrough();
+
+export const foundGameObjectsSchema = orUnityError({
+  objects: z.array(gameObjectMatchSchema),
+  /** Matches in the scene, including those beyond the request's limit. */
+  total: z.number().int(),
+});
+
+export const screenshotSchema = orUnityError({
+  base64: z.string(),
+  format: z.string(),
+});
+
+/** Outcome of one property of a set_properties manipulation. */
+export const propertyResultSchema = z
+  .object({
+    path: z.string(),
+    status: z.enum(["set", "error"]),
+    /** The value read back after setting it. */
+    value: z.unknown().optional(),
+    error: z.string().optional(),
+  })
+  .passthrough();
+
+export const sceneManipulationResultSchema = orUnityError({
+  message: z.string(),
+  instanceId: z.number().int().optional(),
+  properties: z.array(propertyResultSchema).optional(),
+});
+
+export const assetManagementResultSchema = orUnityError({
+  message: z.string().optional(),
+  count: z.number().int().optional(),
+  results: z.array(z.unknown()).optional(),
+});
+
+export const logEntrySchema = z.object({
+  message: z.string(),
+  stackTrace: z.string(),
+  logType: z.string(),
+  timestamp: z.string(),
+});
+
+/** How far a long request got, e.g. `{ progress: 3, total: 10, message: "Baking lightmaps" }`. */
+export const progressDataSchema = z.object({
+  progress: z.number(),
+  total: z.number().positive().optional(),
+  message: z.string().optional(),
+});
+
+/** The parts of the editor state that changed, pushed by the plugin without a request. */
+export const editorStateChangeSchema = z
+  .object({
+    sceneHierarchy: z.array(hierarchyNodeSchema.nullable()).optional(),
+    selectedObjects: z.array(z.string()).optional(),
+    playModeState: z.string().optional(),
+  })
+  .passthrough();
+
+export const pingDataSchema = z.object({ timestamp: z.string().optional() }).passthrough();
+
+export const inboundMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("hello"), data: helloDataSchema.default({}) }),
+  z.object({ type: z.literal("commandResult"), requestId: z.string(), data: commandResultSchema }),
+  z.object({ type: z.literal("editorState"), requestId: z.string(), data: editorStateSchema }),
+  z.object({ type: z.literal("objectDetails"), requestId: z.string(), data: objectDetailsSchema }),
+  z.object({ type: z.literal("screenshot"), requestId: z.string(), data: screenshotSchema }),
+  z.object({ type: z.literal("foundGameObjects"), requestId: z.string(), data: foundGameObjectsSchema }),
+  z.object({ type: z.literal("sceneManipulationResult"), requestId: z.string(), data: sceneManipulationResultSchema }),
+  z.object({ type: z.literal("assetManagementResult"), requestId: z.string(), data: assetManagementResultSchema }),
+  z.object({ type: z.literal("progress"), requestId: z.string(), data: progressDataSchema }),
+  z.object({ type: z.literal("log"), data: logEntrySchema }),
+  z.object({ type: z.literal("editorStateChanged"), data: editorStateChangeSchema }),
+  z.object({ type: z.literal("ping"), data: pingDataSchema.default({}) }),
+]);
+
+// Server -> Unity
+
+/**
+ * Which GameObjects a request is about. Every criterion given must match;
+ * path and name are globs (see tools/glob.ts), layer and tag are names.
+ */
+export const objectSelectorSchema = z.object({
+  path: z.string().min(1).optional(),
+  instanceId: z.number().int().optional(),
+  name: z.string().min(1).optional(),
+  tag: z.string().min(1).optional(),
+  layer: z.string().min(1).optional(),
+  /** Component type name; base types such as Collider match too. */
+  component: z.string().min(1).optional(),
+});
+
+export const welcomeDataSchema = z.object({
+  serverVersion: z.string(),
+  protocolVersion: z.number().int(),
+  compatible: z.boolean(),
+  messageTypes: z.array(z.string()),
+  features: z.array(z.string()),
+  warning: z.string().optional(),
+  timestamp: z.string(),
+});
+
+export const outboundMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("welcome"), data: welcomeDataSchema }),
+  z.object({ type: z.literal("error"), data: z.object({ code: z.string(), message: z.string() }) }),
+  z.object({ type: z.literal("pong"), data: z.object({ timestamp: z.string() }) }),
+  z.object({ type: z.literal("executeEditorCommand"), requestId: z.string(), data: z.object({ code: z.string().min(1) }) }),
+  z.object({ type: z.literal("getEditorState"), requestId: z.string(), data: z.object({}).passthrough() }),
+  z.object({
+    type: z.literal("getGameObjectDetails"),
+    requestId: z.string(),
+    // objectName is the exact name plugins understood before selectors; one of the two is set
+    data: z.object({
+      objectName: z.string().min(1).optional(),
+      target: objectSelectorSchema.optional(),
+      components: z.array(z.string().min(1)).optional(),
+      excludeComponents: z.array(z.string().min(1)).optional(),
+      fields: z.array(z.string().min(1)).optional(),
+      childDepth: z.number().int().min(0).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal("findGameObjects"),
+    requestId: z.string(),
+    data: z.object({ selector: objectSelectorSchema, limit: z.number().int().positive() }),
+  }),
+  z.object({ type: z.literal("takeScreenshot"), requestId: z.string(), data: z.object({}).passthrough() }),
+  z.object({ type: z.literal("manipulateScene"), requestId: z.string(), data: z.object({ action: z.string() }).passthrough() }),
+  z.object({ type: z.literal("manageAssets"), requestId: z.string(), data: z.object({ action: z.string() }).passthrough() }),
+  // The server stopped waiting for this request; the plugin may abort the work
+  z.object({ type: z.literal("cancel"), requestId: z.string(), data: z.object({ reason: z.string() }) }),
+]);
+
+/** Outbound message types a plugin declares support for in hello; the rest are replies every plugin handles. */
+export const REQUEST_TYPES: string[] = outboundMessageSchema.options
+  .map((option) => option.shape.type.value)
+  .filter((type) => type !== "welcome" && type !== "error" && type !== "pong");
+
+export type HelloData = z.infer<typeof helloDataSchema>;
+export type CommandResult = z.infer<typeof commandResultSchema>;
+export type CompilerDiagnostic = z.infer<typeof compilerDiagnosticSchema>;
+export type UnityEditorState = z.infer<typeof editorStateSchema>;
+export type ObjectDetails = z.infer<typeof objectDetailsSchema>;
+export type ObjectSelector = z.infer<typeof objectSelectorSchema>;
+export type GameObjectMatch = z.infer<typeof gameObjectMatchSchema>;
+export type FoundGameObjects = z.infer<typeof foundGameObjectsSchema>;
+export type ScreenshotResult = z.infer<typeof screenshotSchema>;
+export type SceneManipulationResult = z.infer<typeof sceneManipulationResultSchema>;
+export type PropertyResult = z.infer<typeof propertyResultSchema>;
+export type AssetManagementResult = z.infer<typeof assetManagementResultSchema>;
+export type LogEntry = z.infer<typeof logEntrySchema>;
+export type ProgressData = z.infer<typeof progressDataSchema>;
+export type EditorStateChange = z.infer<typeof editorStateChangeSchema>;
+export type InboundMessage = z.infer<typeof inboundMessageSchema>;
+export type OutboundMessage = z.input<typeof outboundMessageSchema>;
+export type WelcomeData = z.infer<typeof welcomeDataSchema>;
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.flatMap((issue) =>
+    // For success-or-error payloads, report why the success shape did not match
+    issue.code === "invalid_union"
+      ? formatIssues(issue.unionErrors[0])
+      : [`${issue.path.join(".") || "message"}: ${issue.message}`],
+  );
+}
+
+/**
+ * Validate a decoded message from the plugin. Throws UnityInvalidMessageError
+ * carrying the message type, requestId (when present) and the validation issues.
+ */
+export function parseInboundMessage(raw: unknown): InboundMessage {
+  const result = inboundMessageSchema.safeParse(raw);
+  if (result.success) return result.data;
+
+  const envelope = (typeof raw === "object" && raw !== null ? raw : {}) as Record<string, unknown>;
+  throw new UnityInvalidMessageError(
+    typeof envelope.type === "string" ? envelope.type : "unknown",
+    typeof envelope.requestId === "string" ? envelope.requestId : undefined,
+    formatIssues(result.error),
+  );
+}
+
+/**
+ * Validate a message before it is sent to the plugin, so malformed requests fail
+ * locally and every request type needs a schema here.
+ */
+export function validateOutboundMessage(message: { type: string; requestId?: string; data?: unknown }): OutboundMessage {
+  const result = outboundMessageSchema.safeParse(message);
+  if (!result.success) {
+    throw new UnityInvalidMessageError(message.type, message.requestId, formatIssues(result.error));
+  }
+  return result.data;
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { ConnectionMetrics } from './metrics.js';
+import { SettledRequest } from './RequestRegistry.js';
+
+function settled(type: string, outcome: SettledRequest['outcome'], durationMs: number): SettledRequest {
+    return { requestId: 'id', type, sessionId: undefined, startedAt: new Date().toISOString(), durationMs, outcome };
+}
+
+describe('ConnectionMetrics', () => {
+    it('should count requests by type and outcome and bucket their durations', () => {
+        const metrics = new ConnectionMetrics();
+        metrics.recordRequest(settled('getEditorState', 'success', 80));
+        metrics.recordRequest(settled('getEditorState', 'success', 300));
+        metrics.recordRequest(settled('executeEditorCommand', 'timeout', 60000));
+
+        const text = metrics.render();
+
+        expect(text).toContain('unity_mcp_requests_total{type="getEditorState",outcome="success"} 2');
+        expect(text).toContain('unity_mcp_requests_total{type="executeEditorCommand",outcome="timeout"} 1');
+        expect(text).toContain('unity_mcp_request_duration_seconds_bucket{type="getEditorState",le="0.1"} 1');
+        expect(text).toContain('unity_mcp_request_duration_seconds_bucket{type="getEditorState",le="+Inf"} 2');
+        expect(text).toContain('unity_mcp_request_duration_seconds_sum{type="getEditorState"} 0.38');
+        expect(text).toContain('# TYPE unity_mcp_request_duration_seconds histogram');
+    });
+
+    it('should report connections, disconnects and gauges', () => {
+        const metrics = new ConnectionMetrics();
+        metrics.recordConnection(false);
+        metrics.recordConnection(true);
+        metrics.recordInvalidMessage('editorState');
+
+        const text = metrics.render([{ name: 'unity_mcp_editors_connected', help: 'Editors.', value: 1 }]);
+
+        expect(text).toContain('unity_mcp_editor_connections_total{kind="new"} 1');
+        expect(text).toContain('unity_mcp_editor_connections_total{kind="reconnect"} 1');
+        expect(text).toContain('unity_mcp_editor_disconnects_total 0');
+        expect(text).toContain('unity_mcp_invalid_messages_total{type="editorState"} 1');
+        expect(text).toContain('# TYPE unity_mcp_editors_connected gauge\nunity_mcp_editors_connected 1');
+        expect(text.endsWith('\n')).toBe(true);
+    });
+});
@@ -0,0 +1,155 @@
+import { SettledRequest } from "./RequestRegistry.js";
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  return Object.entries(labels)
+    .map(([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+    .join(",");
+}
+
+function sample(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${value}`;
+}
+
+class Counter {
+  private values = new Map<string, number>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly labelled = true,
+  ) {}
+
+  public inc(labels: Labels = {}): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + 1);
+  }
+
+  public render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    // Unlabelled counters are reported as 0 before their first increment
+    if (this.values.size === 0 && !this.labelled) {
+      lines.push(sample(this.name, "", 0));
+    }
+    for (const [key, value] of this.values) {
+      lines.push(sample(this.name, key, value));
+    }
+    return lines;
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly bounds: number[],
+  ) {}
+
+  public observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) series.buckets[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  public render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, series] of this.series) {
+      const prefix = key ? `${key},` : "";
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket{${prefix}le="${bound}"} ${series.buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket{${prefix}le="+Inf"} ${series.count}`);
+      lines.push(sample(`${this.name}_sum`, key, series.sum));
+      lines.push(sample(`${this.name}_count`, key, series.count));
+    }
+    return lines;
+  }
+}
+
+/** A value read when /metrics is scraped. */
+export interface GaugeSample {
+  name: string;
+  help: string;
+  value: number;
+}
+
+/**
+ * Counters and latency histograms for the Unity connection, rendered in the
+ * Prometheus text exposition format by the /metrics endpoint.
+ */
+export class ConnectionMetrics {
+  private readonly requests = new Counter(
+    "unity_mcp_requests_total",
+    "Requests sent to Unity, by request type and outcome (success, timeout, cancelled, disconnected, error).",
+  );
+  private readonly requestDuration = new Histogram(
+    "unity_mcp_request_duration_seconds",
+    "Time from sending a request to Unity until it settled, by request type.",
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  );
+  private readonly connections = new Counter(
+    "unity_mcp_editor_connections_total",
+    "Completed editor handshakes, by kind (new or reconnect).",
+  );
+  private readonly disconnects = new Counter(
+    "unity_mcp_editor_disconnects_total",
+    "Editor WebSocket connections closed after the handshake.",
+    false,
+  );
+  private readonly rejectedConnections = new Counter(
+    "unity_mcp_rejected_connections_total",
+    "Connections dropped before completing an authenticated handshake.",
+    false,
+  );
+  private readonly invalidMessages = new Counter(
+    "unity_mcp_invalid_messages_total",
+    "Messages from Unity that were not JSON or failed schema validation, by message type.",
+  );
+
+  public recordRequest(request: SettledRequest): void {
+    this.requests.inc({ type: request.type, outcome: request.outcome });
+    this.requestDuration.observe({ type: request.type }, request.durationMs / 1000);
+  }
+
+  public recordConnection(reconnect: boolean): void {
+    this.connections.inc({ kind: reconnect ? "reconnect" : "new" });
+  }
+
+  public recordDisconnect(): void {
+    this.disconnects.inc();
+  }
+
+  public recordRejectedConnection(): void {
+    this.rejectedConnections.inc();
+  }
+
+  public recordInvalidMessage(messageType: string): void {
+    this.invalidMessages.inc({ type: messageType });
+  }
+
+  public render(gauges: GaugeSample[] = []): string {
+    const lines = [
+      ...this.requests.render(),
+      ...this.requestDuration.render(),
+      ...this.connections.render(),
+      ...this.disconnects.render(),
+      ...this.rejectedConnections.render(),
+      ...this.invalidMessages.render(),
+    ];
+    for (const gauge of gauges) {
+      lines.push(`# HELP ${gauge.name} ${gauge.help}`, `# TYPE ${gauge.name} gauge`, sample(gauge.name, "", gauge.value));
+    }
+    return lines.join("\n") + "\n";
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { negotiateProtocol, PROTOCOL_VERSION, supportsTool } from './protocol.js';
+
+describe('negotiateProtocol', () => {
+    it('should treat a hello without protocol fields as a legacy plugin', () => {
+        const protocol = negotiateProtocol({});
+
+        expect(protocol.compatible).toBe(true);
+        expect(protocol.version).toBe(1);
+        expect(protocol.warning).toBeUndefined();
+        expect(supportsTool(protocol, 'execute_editor_command')).toBe(true);
+        expect(supportsTool(protocol, 'manage_assets')).toBe(true);
+    });
+
+    it('should only allow the message types the plugin declares', () => {
+        const protocol = negotiateProtocol({
+            protocolVersion: PROTOCOL_VERSION,
+            messageTypes: ['getEditorState', 'takeScreenshot', 42],
+        });
+
+        expect(protocol.messageTypes).toEqual(['getEditorState', 'takeScreenshot']);
+        expect(supportsTool(protocol, 'get_editor_state')).toBe(true);
+        expect(supportsTool(protocol, 'execute_editor_command')).toBe(false);
+        // Served from server state, so always supported
+        expect(supportsTool(protocol, 'get_logs')).toBe(true);
+    });
+
+    it('should drop declared message types the server does not know', () => {
+        const protocol = negotiateProtocol({
+            protocolVersion: PROTOCOL_VERSION,
+            messageTypes: ['getEditorState', 'recordVideo', 'welcome'],
+        });
+
+        expect(protocol.messageTypes).toEqual(['getEditorState']);
+    });
+
+    it('should fall back to the server version and warn for newer plugins', () => {
+        const protocol = negotiateProtocol({ protocolVersion: PROTOCOL_VERSION + 1, messageTypes: ['getEditorState'] });
+
+        expect(protocol.compatible).toBe(true);
+        expect(protocol.version).toBe(PROTOCOL_VERSION);
+        expect(protocol.warning).toMatch(/newer than this server/);
+    });
+
+    it('should mark plugins below the minimum version incompatible', () => {
+        const protocol = negotiateProtocol({ protocolVersion: 0, messageTypes: ['getEditorState'] });
+
+        expect(protocol.compatible).toBe(false);
+        expect(protocol.warning).toMatch(/Update the UnityMCP plugin/);
+        expect(supportsTool(protocol, 'get_editor_state')).toBe(false);
+        expect(supportsTool(protocol, 'list_editors')).toBe(true);
+    });
+});
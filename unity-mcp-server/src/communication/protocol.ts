@@ -0,0 +1,86 @@
+import { ToolName } from "../config.js";
+import { REQUEST_TYPES } from "./messages.js";
+
+/**
+ * Version of the WebSocket message schema spoken by this server. Bump it when
+ * the shape of an existing message changes; new message types are negotiated
+ * through `messageTypes` and do not need a bump.
+ */
+export const PROTOCOL_VERSION = 1;
+
+/** Oldest plugin protocol this server can still talk to. */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/** Request types the plugin handled before it started declaring them in hello. */
+const LEGACY_MESSAGE_TYPES = [
+  "executeEditorCommand",
+  "getEditorState",
+  "getGameObjectDetails",
+  "takeScreenshot",
+  "manipulateScene",
+  "manageAssets",
+];
+
+/** Request types each MCP tool sends to Unity. Tools served from server state need none. */
+export const TOOL_MESSAGE_TYPES: Record<ToolName, string[]> = {
+  execute_editor_command: ["executeEditorCommand"],
+  get_editor_state: ["getEditorState"],
+  get_logs: [],
+  get_object_details: ["getGameObjectDetails"],
+  find_objects: ["findGameObjects"],
+  take_screenshot: ["takeScreenshot"],
+  manipulate_scene: ["manipulateScene"],
+  manage_assets: ["manageAssets"],
+  list_editors: [],
+  run_editor_script: ["executeEditorCommand"],
+  diff_editor_state: ["getEditorState"],
+};
+
+/** Outcome of comparing the plugin's hello with what this server speaks. */
+export interface NegotiatedProtocol {
+  /** Version both sides use, or the plugin's version when incompatible. */
+  version: number;
+  compatible: boolean;
+  /** Request types both the server and this editor know, i.e. the ones the server may send. */
+  messageTypes: string[];
+  /** Human readable explanation when the plugin is too old or too new. */
+  warning?: string;
+}
+
+export function negotiateProtocol(hello: { protocolVersion?: unknown; messageTypes?: unknown }): NegotiatedProtocol {
+  // Plugins predating negotiation send neither field
+  const pluginVersion = typeof hello.protocolVersion === "number" ? hello.protocolVersion : 1;
+  // Types this server has never heard of are dropped rather than echoed back in the welcome
+  const declared = Array.isArray(hello.messageTypes)
+    ? hello.messageTypes.filter((type): type is string => typeof type === "string" && REQUEST_TYPES.includes(type))
+    : LEGACY_MESSAGE_TYPES;
+
+  if (pluginVersion < MIN_PROTOCOL_VERSION) {
+    return {
+      version: pluginVersion,
+      compatible: false,
+      messageTypes: [],
+      warning: `Unity plugin speaks protocol ${pluginVersion} but this server requires at least ${MIN_PROTOCOL_VERSION}. Update the UnityMCP plugin in the Unity project.`,
+    };
+  }
+
+  return {
+    version: Math.min(pluginVersion, PROTOCOL_VERSION),
+    compatible: true,
+    messageTypes: declared,
+    warning:
+      pluginVersion > PROTOCOL_VERSION
+        ? `Unity plugin speaks protocol ${pluginVersion}, newer than this server's ${PROTOCOL_VERSION}. Using ${PROTOCOL_VERSION}; update unity-mcp-server for full support.`
+        : undefined,
+  };
+}
+
+/**
+ * Whether an editor with this protocol can serve every request the tool sends.
+ * Server-side tools (list_editors, get_logs) stay available even for an
+ * incompatible plugin so the mismatch can be inspected.
+ */
+export function supportsTool(protocol: NegotiatedProtocol, tool: ToolName): boolean {
+  const types = TOOL_MESSAGE_TYPES[tool];
+  return types.length === 0 || (protocol.compatible && types.every((type) => protocol.messageTypes.includes(type)));
+}
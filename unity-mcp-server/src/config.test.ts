@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ConfigError, DEFAULT_CONFIG, loadConfig } from './config.js';
+
+describe('loadConfig', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+        tempDir = mkdtempSync(path.join(tmpdir(), 'unity-mcp-config-'));
+    });
+
+    afterEach(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function writeConfigFile(contents: unknown): string {
+        const filePath = path.join(tempDir, 'unity-mcp.json');
+        writeFileSync(filePath, typeof contents === 'string' ? contents : JSON.stringify(contents));
+        return filePath;
+    }
+
+    it('should return defaults when nothing is configured', () => {
+        expect(loadConfig([], {})).toEqual(DEFAULT_CONFIG);
+    });
+
+    it('should read the auth token from the environment and reject short tokens', () => {
+        expect(loadConfig([], { UNITY_MCP_AUTH_TOKEN: 'a-long-enough-secret' }).authToken).toBe('a-long-enough-secret');
+        expect(() => loadConfig(['--auth-token', 'short'], {})).toThrow(/authToken/);
+    });
+
+    it('should read settings from UNITY_MCP_* environment variables', () => {
+        const config = loadConfig([], {
+            UNITY_MCP_PORT: '9080',
+            UNITY_MCP_HEALTH_PORT: '9081',
+            UNITY_MCP_HOST: '0.0.0.0',
+            UNITY_MCP_ENABLED_TOOLS: 'get_logs, get_editor_state',
+            UNITY_MCP_REPLAY_REQUESTS: 'false',
+        });
+
+        expect(config.port).toBe(9080);
+        expect(config.healthPort).toBe(9081);
+        expect(config.host).toBe('0.0.0.0');
+        expect(config.enabledTools).toEqual(['get_logs', 'get_editor_state']);
+        expect(config.replayIdempotentRequests).toBe(false);
+    });
+
+    it('should read settings from CLI flags', () => {
+        const config = loadConfig(
+            ['--port', '9180', '--health-port=9181', '--command-timeout-seconds', '300', '--no-replay-requests'],
+            {}
+        );
+
+        expect(config.port).toBe(9180);
+        expect(config.healthPort).toBe(9181);
+        expect(config.commandTimeoutSeconds).toBe(300);
+        expect(config.replayIdempotentRequests).toBe(false);
+    });
+
+    it('should apply file, then environment, then CLI flags', () => {
+        const configPath = writeConfigFile({ port: 7000, healthPort: 7001, logBufferSize: 50 });
+
+        const config = loadConfig(['--config', configPath, '--port', '7100'], {
+            UNITY_MCP_PORT: '7050',
+            UNITY_MCP_HEALTH_PORT: '7051',
+        });
+
+        expect(config.port).toBe(7100);
+        expect(config.healthPort).toBe(7051);
+        expect(config.logBufferSize).toBe(50);
+    });
+
+    it('should locate the config file through UNITY_MCP_CONFIG', () => {
+        const configPath = writeConfigFile({ queryTimeoutSeconds: 5 });
+
+        const config = loadConfig([], { UNITY_MCP_CONFIG: configPath });
+
+        expect(config.queryTimeoutSeconds).toBe(5);
+    });
+
+    it('should reject unknown keys in the config file', () => {
+        const configPath = writeConfigFile({ prot: 9000 });
+
+        expect(() => loadConfig(['--config', configPath], {})).toThrow(ConfigError);
+    });
+
+    it('should reject malformed JSON and missing files', () => {
+        const configPath = writeConfigFile('{ port: ');
+
+        expect(() => loadConfig(['--config', configPath], {})).toThrow('not valid JSON');
+        expect(() => loadConfig(['--config', path.join(tempDir, 'missing.json')], {})).toThrow(
+            'Cannot read config file'
+        );
+    });
+
+    it('should reject invalid values', () => {
+        expect(() => loadConfig(['--port', 'abc'], {})).toThrow('--port must be a number');
+        expect(() => loadConfig([], { UNITY_MCP_PORT: '70000' })).toThrow(ConfigError);
+        expect(() => loadConfig(['--enabled-tools', 'get_logs,rm_rf'], {})).toThrow(ConfigError);
+        expect(() => loadConfig(['--unknown-flag', '1'], {})).toThrow(ConfigError);
+    });
+
+    it('should read the record and replay files', () => {
+        const config = loadConfig(['--record-file', 'session.jsonl'], { UNITY_MCP_REPLAY_FILE: 'bug-123.jsonl' });
+
+        expect(config.recordFile).toBe('session.jsonl');
+        expect(config.replayFile).toBe('bug-123.jsonl');
+    });
+
+    it('should read the command policy, denylist and audit log file', () => {
+        const config = loadConfig(['--command-policy', 'read-only', '--audit-log-file', 'audit.jsonl'], {
+            UNITY_MCP_COMMAND_DENYLIST: 'EditorApplication.Exit, UnityEditor.BuildPipeline',
+        });
+
+        expect(config.commandPolicy).toBe('read-only');
+        expect(config.commandDenylist).toEqual(['EditorApplication.Exit', 'UnityEditor.BuildPipeline']);
+        expect(config.auditLogFile).toBe('audit.jsonl');
+        expect(() => loadConfig(['--command-policy', 'yolo'], {})).toThrow(/commandPolicy/);
+        expect(() => loadConfig(['--command-denylist', 'File.*'], {})).toThrow(/commandDenylist/);
+    });
+
+    it('should reject identical WebSocket and health ports', () => {
+        expect(() => loadConfig(['--port', '9000', '--health-port', '9000'], {})).toThrow('must differ');
+    });
+
+    it('should select the HTTP transport and reject an mcpPort clashing with the other ports', () => {
+        const config = loadConfig(['--transport', 'http', '--mcp-port', '8082'], {});
+        expect(config.transport).toBe('http');
+        expect(config.mcpPort).toBe(8082);
+
+        expect(() => loadConfig(['--transport', 'websocket'], {})).toThrow(ConfigError);
+        expect(() => loadConfig(['--mcp-port', '8081'], {})).toThrow('must differ');
+    });
+});
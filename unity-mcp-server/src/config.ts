@@ -0,0 +1,247 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { z } from "zod";
+import { DEFAULT_AUTH_TOKEN_FILE } from "./communication/auth.js";
+import { DEFAULT_AUDIT_LOG_FILE } from "./policy/AuditLog.js";
+import { POLICY_MODES } from "./policy/CommandPolicy.js";
+
+export const TOOL_NAMES = [
+  "execute_editor_command",
+  "get_editor_state",
+  "get_logs",
+  "get_object_details",
+  "find_objects",
+  "take_screenshot",
+  "manipulate_scene",
+  "manage_assets",
+  "list_editors",
+  "run_editor_script",
+  "diff_editor_state",
+] as const;
+
+export type ToolName = (typeof TOOL_NAMES)[number];
+
+const port = z.number().int().min(1).max(65535);
+const seconds = z.number().positive();
+
+/** Schema shared by the JSON config file and the merged result. */
+const configSchema = z
+  .object({
+    port: port.describe("WebSocket port the Unity plugin connects to"),
+    healthPort: port.describe("HTTP port serving the /health endpoint"),
+    host: z.string().min(1).describe("Address the WebSocket and health servers bind to"),
+    transport: z
+      .enum(["stdio", "http"])
+      .describe("How MCP clients connect: spawned over stdio, or over Streamable HTTP / SSE"),
+    mcpPort: port
+      .optional()
+      .describe("Separate HTTP port for the MCP endpoints; served on healthPort when omitted"),
+    connectionWaitSeconds: seconds.describe(
+      "How long a tool call waits for a Unity Editor to connect before failing"
+    ),
+    commandTimeoutSeconds: seconds.describe(
+      "Timeout for execute_editor_command, run_editor_script, get_editor_state, diff_editor_state and manage_assets"
+    ),
+    queryTimeoutSeconds: seconds.describe(
+      "Timeout for get_object_details, find_objects, take_screenshot and manipulate_scene"
+    ),
+    logBufferSize: z.number().int().positive().describe("Number of Unity log entries kept for get_logs"),
+    enabledTools: z.array(z.enum(TOOL_NAMES)).describe("Tools exposed to the MCP client"),
+    replayIdempotentRequests: z.boolean().describe(
+      "Resend read-only requests interrupted by an editor disconnect once it reconnects"
+    ),
+    authToken: z
+      .string()
+      .min(16)
+      .optional()
+      .describe("Shared secret Unity editors must present in their hello message"),
+    authTokenFile: z
+      .string()
+      .min(1)
+      .describe("File the auth token is read from, or generated into when authToken is not set"),
+    recordFile: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("JSONL file every message exchanged with Unity is appended to"),
+    replayFile: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Recording to replay in place of a Unity Editor"),
+    scriptsDir: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Directory of .cs templates added to the run_editor_script library"),
+    commandPolicy: z
+      .enum(POLICY_MODES)
+      .describe(
+        "What execute_editor_command and run_editor_script may run: unrestricted, confirm (ask before denylisted APIs) or read-only"
+      ),
+    commandDenylist: z
+      .array(z.string().regex(/^\w+(\.\w+)*$/, "must be a type, member or namespace, e.g. EditorApplication.Exit"))
+      .describe("APIs or namespaces treated like the built-in denylist (processes, network, file writes outside Assets/)"),
+    auditLogFile: z
+      .string()
+      .min(1)
+      .describe("JSONL file every command sent to Unity, its result and duration are appended to"),
+  })
+  .strict();
+
+export type ServerConfig = z.infer<typeof configSchema>;
+
+export const DEFAULT_CONFIG: ServerConfig = {
+  port: 8080,
+  healthPort: 8081,
+  host: "127.0.0.1",
+  transport: "stdio",
+  connectionWaitSeconds: 15,
+  commandTimeoutSeconds: 60,
+  queryTimeoutSeconds: 30,
+  logBufferSize: 1000,
+  enabledTools: [...TOOL_NAMES],
+  replayIdempotentRequests: true,
+  authTokenFile: DEFAULT_AUTH_TOKEN_FILE,
+  commandPolicy: "confirm",
+  commandDenylist: [],
+  auditLogFile: DEFAULT_AUDIT_LOG_FILE,
+};
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+type ConfigKey = keyof ServerConfig;
+
+// Each setting can be given as a CLI flag and as a UNITY_MCP_* environment variable
+const settings: { key: ConfigKey; flag: string; env: string; kind: "number" | "string" | "list" | "boolean" }[] = [
+  { key: "port", flag: "port", env: "UNITY_MCP_PORT", kind: "number" },
+  { key: "healthPort", flag: "health-port", env: "UNITY_MCP_HEALTH_PORT", kind: "number" },
+  { key: "host", flag: "host", env: "UNITY_MCP_HOST", kind: "string" },
+  { key: "transport", flag: "transport", env: "UNITY_MCP_TRANSPORT", kind: "string" },
+  { key: "mcpPort", flag: "mcp-port", env: "UNITY_MCP_MCP_PORT", kind: "number" },
+  { key: "connectionWaitSeconds", flag: "connection-wait-seconds", env: "UNITY_MCP_CONNECTION_WAIT_SECONDS", kind: "number" },
+  { key: "commandTimeoutSeconds", flag: "command-timeout-seconds", env: "UNITY_MCP_COMMAND_TIMEOUT_SECONDS", kind: "number" },
+  { key: "queryTimeoutSeconds", flag: "query-timeout-seconds", env: "UNITY_MCP_QUERY_TIMEOUT_SECONDS", kind: "number" },
+  { key: "logBufferSize", flag: "log-buffer-size", env: "UNITY_MCP_LOG_BUFFER_SIZE", kind: "number" },
+  { key: "enabledTools", flag: "enabled-tools", env: "UNITY_MCP_ENABLED_TOOLS", kind: "list" },
+  { key: "replayIdempotentRequests", flag: "replay-requests", env: "UNITY_MCP_REPLAY_REQUESTS", kind: "boolean" },
+  { key: "authToken", flag: "auth-token", env: "UNITY_MCP_AUTH_TOKEN", kind: "string" },
+  { key: "authTokenFile", flag: "auth-token-file", env: "UNITY_MCP_AUTH_TOKEN_FILE", kind: "string" },
+  { key: "recordFile", flag: "record-file", env: "UNITY_MCP_RECORD_FILE", kind: "string" },
+  { key: "replayFile", flag: "replay-file", env: "UNITY_MCP_REPLAY_FILE", kind: "string" },
+  { key: "scriptsDir", flag: "scripts-dir", env: "UNITY_MCP_SCRIPTS_DIR", kind: "string" },
+  { key: "commandPolicy", flag: "command-policy", env: "UNITY_MCP_COMMAND_POLICY", kind: "string" },
+  { key: "commandDenylist", flag: "command-denylist", env: "UNITY_MCP_COMMAND_DENYLIST", kind: "list" },
+  { key: "auditLogFile", flag: "audit-log-file", env: "UNITY_MCP_AUDIT_LOG_FILE", kind: "string" },
+];
+
+function parseValue(raw: string, kind: string, source: string): unknown {
+  switch (kind) {
+    case "number": {
+      const value = Number(raw);
+      if (raw.trim() === "" || Number.isNaN(value)) {
+        throw new ConfigError(`${source} must be a number, got "${raw}"`);
+      }
+      return value;
+    }
+    case "list":
+      return raw.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+    case "boolean":
+      if (["true", "1", "yes"].includes(raw.toLowerCase())) return true;
+      if (["false", "0", "no"].includes(raw.toLowerCase())) return false;
+      throw new ConfigError(`${source} must be true or false, got "${raw}"`);
+    default:
+      return raw;
+  }
+}
+
+function readConfigFile(filePath: string): Partial<ServerConfig> {
+  let contents: string;
+  try {
+    contents = readFileSync(filePath, "utf8");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Cannot read config file ${filePath}: ${message}`);
+  }
+
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Config file ${filePath} is not valid JSON: ${message}`);
+  }
+}
+
+/**
+ * Build the server configuration. Later sources override earlier ones:
+ * defaults, JSON config file (--config / UNITY_MCP_CONFIG), UNITY_MCP_* env vars, CLI flags.
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): ServerConfig {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      options: {
+        config: { type: "string" },
+        ...Object.fromEntries(settings.map(({ flag }) => [flag, { type: "string" as const }])),
+        "no-replay-requests": { type: "boolean" },
+      },
+      strict: true,
+      allowPositionals: false,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(message);
+  }
+  const flags = parsed.values as Record<string, string | boolean | undefined>;
+
+  const merged: Record<string, unknown> = { ...DEFAULT_CONFIG };
+
+  const configPath = (flags.config as string | undefined) ?? env.UNITY_MCP_CONFIG;
+  if (configPath) {
+    Object.assign(merged, readConfigFile(path.resolve(configPath)));
+  }
+
+  for (const { key, env: envName, kind } of settings) {
+    const raw = env[envName];
+    if (raw !== undefined && raw !== "") {
+      merged[key] = parseValue(raw, kind, envName);
+    }
+  }
+
+  for (const { key, flag, kind } of settings) {
+    const raw = flags[flag];
+    if (typeof raw === "string") {
+      merged[key] = parseValue(raw, kind, `--${flag}`);
+    }
+  }
+  if (flags["no-replay-requests"]) {
+    merged.replayIdempotentRequests = false;
+  }
+
+  const result = configSchema.safeParse(merged);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "config"}: ${issue.message}`)
+      .join("; ");
+    throw new ConfigError(`Invalid configuration: ${issues}`);
+  }
+
+  if (result.data.port === result.data.healthPort) {
+    throw new ConfigError(`port and healthPort must differ (both are ${result.data.port})`);
+  }
+  if (result.data.mcpPort !== undefined && [result.data.port, result.data.healthPort].includes(result.data.mcpPort)) {
+    throw new ConfigError(`mcpPort ${result.data.mcpPort} must differ from port and healthPort`);
+  }
+
+  return result.data;
+}
@@ -1,37 +1,125 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  ServerNotification,
+  ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createServer, Server } from "http";
 import { z } from "zod";
-import { UnityConnection } from "./communication/UnityConnection.js";
-import { getAllResources, ResourceContext } from "./resources/index.js";
-import { LogEntry } from "./tools/types.js";
+import { ToolCallOptions, UnityConnection } from "./communication/UnityConnection.js";
+import { resolveAuthToken } from "./communication/auth.js";
+import { RecordingPlayer } from "./communication/RecordingPlayer.js";
+import { ConfigError, loadConfig, ServerConfig, ToolName } from "./config.js";
+import { AuditLog } from "./policy/AuditLog.js";
+import { CommandCaller, CommandGuard } from "./policy/CommandGuard.js";
+import { CommandPolicy } from "./policy/CommandPolicy.js";
+import { getAllResources, liveResourceUris, ResourceContext } from "./resources/index.js";
+import { Resource } from "./resources/types.js";
+import { EditorScript, loadScriptLibrary } from "./scripts/index.js";
+import { MCP_HTTP_PATHS, McpHttpTransport } from "./transports/McpHttpTransport.js";
+import { editorArgument, LogEntry, objectSelectorArgument, resolveTimeoutMs, timeoutArgument } from "./tools/types.js";
 
 // Tool Implementations
-import { executeEditorCommand, CommandResult, resolveCommandResult } from "./tools/ExecuteEditorCommandTool.js";
-import { getEditorState, UnityEditorState, resolveUnityEditorState } from "./tools/GetEditorStateTool.js";
+import { executeEditorCommand } from "./tools/ExecuteEditorCommandTool.js";
+import { EDITOR_STATE_FORMATS, getEditorState } from "./tools/GetEditorStateTool.js";
+import { DEFAULT_TREE_TOKENS } from "./tools/HierarchyTree.js";
 import { getLogs } from "./tools/GetLogsTool.js";
-import { getObjectDetails } from "./tools/GetObjectDetailsTool.js";
+import { DEFAULT_DETAILS_TOKENS, getObjectDetails } from "./tools/GetObjectDetailsTool.js";
+import { DEFAULT_FIND_LIMIT, findObjects } from "./tools/FindObjectsTool.js";
 import { takeScreenshot } from "./tools/TakeScreenshotTool.js";
 import { ManipulateSceneTool } from "./tools/ManipulateSceneTool.js";
 import { ManageAssetsTool } from "./tools/ManageAssetsTool.js";
+import { listEditors } from "./tools/ListEditorsTool.js";
+import { diffEditorState, EditorStateSnapshots } from "./tools/DiffEditorStateTool.js";
+import { describeScriptLibrary, runEditorScript } from "./tools/RunEditorScriptTool.js";
 
-// Re-export for UnityConnection
-export { resolveCommandResult, resolveUnityEditorState };
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Cancellation and progress for the Unity requests of one tool call. Progress
+ * messages from Unity become MCP progress notifications when the client asked
+ * for them with a progressToken.
+ */
+function toolCallOptions(extra: ToolExtra): ToolCallOptions {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return { signal: extra.signal };
+  }
+
+  let lastProgress = -Infinity;
+  return {
+    signal: extra.signal,
+    onProgress: ({ progress, total, message }) => {
+      // MCP requires the progress value to increase with every notification
+      if (progress <= lastProgress) return;
+      lastProgress = progress;
+      extra
+        .sendNotification({ method: "notifications/progress", params: { progressToken, progress, total, message } })
+        .catch((error) => console.error("[Unity MCP] Failed to send progress notification:", error));
+    },
+  };
+}
+
+/**
+ * Ask the user of this MCP client through elicitation. Undefined when the client
+ * does not support it, in which case commands needing approval are refused.
+ */
+function approver(server: McpServer): CommandCaller["approve"] {
+  if (!server.server.getClientCapabilities()?.elicitation) return undefined;
+
+  return async (message) => {
+    const response = await server.server.elicitInput({
+      message,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          approve: { type: "boolean", title: "Run this command in Unity" },
+        },
+        required: ["approve"],
+      },
+    });
+    return response.action === "accept" && response.content?.approve === true;
+  };
+}
 
 class UnityMCPServer {
-  private server: McpServer;
   private unityConnection: UnityConnection;
+  private config: ServerConfig;
   private initialized = false;
+  private resources: Resource[] = [];
+  private scripts: EditorScript[] = [];
+  private snapshots = new EditorStateSnapshots();
+  // One McpServer per connected MCP client (a single one over stdio)
+  private mcpServers = new Map<McpServer, Map<ToolName, RegisteredTool>>();
+  // Resource URIs each MCP client subscribed to
+  private resourceSubscriptions = new Map<McpServer, Set<string>>();
+  private httpTransport: McpHttpTransport | null = null;
+  private mcpHttpServer: Server | null = null;
+  private readonly authToken: string;
+  private replayPlayer: RecordingPlayer | null = null;
+  private readonly auditLog: AuditLog;
+  private readonly commandGuard: CommandGuard;
 
-  constructor() {
-    // Initialize MCP Server
-    this.server = new McpServer({
-      name: "unity-mcp-server",
-      version: "0.2.0",
-    });
+  constructor(config: ServerConfig) {
+    this.config = config;
+    this.authToken = resolveAuthToken(config.authToken, config.authTokenFile);
+    this.auditLog = new AuditLog(config.auditLogFile);
+    this.commandGuard = new CommandGuard(new CommandPolicy(config.commandPolicy, config.commandDenylist), this.auditLog);
 
     // Initialize WebSocket Server for Unity communication
-    this.unityConnection = new UnityConnection(8080);
+    this.unityConnection = new UnityConnection(config.port, config.healthPort, {
+      host: config.host,
+      logBufferSize: config.logBufferSize,
+      connectionWaitMs: config.connectionWaitSeconds * 1000,
+      replayIdempotentRequests: config.replayIdempotentRequests,
+      features: config.enabledTools,
+      authToken: this.authToken,
+      recordFile: config.recordFile,
+    });
 
     // Error handling
     process.on("SIGINT", async () => {
@@ -44,20 +132,46 @@ class UnityMCPServer {
   async initialize() {
     if (this.initialized) return;
 
-    await this.setupResources();
-    this.setupTools();
+    this.scripts = await loadScriptLibrary(this.config.scriptsDir);
+    this.resources = await getAllResources(this.scripts);
+    // Hide tools the connected editors' plugins cannot serve (see protocol.ts)
+    this.unityConnection.setOnEditorsChanged(() => this.updateToolAvailability());
+    this.unityConnection.subscribeEditorState((changed, session) => {
+      // Live resources show the default editor
+      if (session === this.unityConnection.getDefaultSession()) {
+        this.notifyResourcesUpdated(liveResourceUris(changed));
+      }
+    });
 
     this.initialized = true;
   }
 
-  /** Optional resources the user can include in Claude Desktop to give additional context to the LLM */
-  private async setupResources() {
-    const resources = await getAllResources();
+  /** A fresh McpServer with all resources and enabled tools registered, for one MCP client. */
+  private createMcpServer(): McpServer {
+    const server = new McpServer({
+      name: "unity-mcp-server",
+      version: "0.2.0",
+    });
+
+    this.setupResources(server);
+    this.setupSubscriptions(server);
+    this.setupPrompts(server);
+    this.mcpServers.set(server, this.setupTools(server));
+    server.server.onclose = () => {
+      this.mcpServers.delete(server);
+      this.resourceSubscriptions.delete(server);
+    };
+    this.updateToolAvailability();
 
+    return server;
+  }
+
+  /** Optional resources the user can include in Claude Desktop to give additional context to the LLM */
+  private setupResources(server: McpServer) {
     // Register each resource
-    for (const resource of resources) {
+    for (const resource of this.resources) {
       const def = resource.getDefinition();
-      this.server.resource(
+      server.resource(
         def.name,
         def.uri,
         {
@@ -67,6 +181,7 @@ class UnityMCPServer {
         async (uri) => {
           const resourceContext: ResourceContext = {
             unityConnection: this.unityConnection,
+            timeoutMs: this.config.queryTimeoutSeconds * 1000,
           };
           const content = await resource.getContents(resourceContext);
           return {
@@ -83,134 +198,476 @@ class UnityMCPServer {
     }
   }
 
-  private setupTools() {
+  /** resources/subscribe, so clients hear about changes to the live editor resources. */
+  private setupSubscriptions(server: McpServer) {
+    const subscriptions = new Set<string>();
+    this.resourceSubscriptions.set(server, subscriptions);
+
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  private notifyResourcesUpdated(uris: string[]) {
+    for (const [server, subscriptions] of this.resourceSubscriptions) {
+      for (const uri of uris.filter((candidate) => subscriptions.has(candidate))) {
+        server.server
+          .sendResourceUpdated({ uri })
+          .catch((error) => console.error(`[Unity MCP] Failed to notify about ${uri}:`, error));
+      }
+    }
+  }
+
+  /** One prompt per library script, asking the LLM to run it with the given arguments. */
+  private setupPrompts(server: McpServer) {
+    for (const script of this.scripts) {
+      // Prompt arguments are always strings; run_editor_script checks the real types
+      const argsSchema = Object.fromEntries(
+        script.parameters.map((parameter) => {
+          const schema = z.string().describe(`${parameter.type}: ${parameter.description}`);
+          return [parameter.name, parameter.required ? schema : schema.optional()];
+        })
+      );
+      server.prompt(script.name, script.description, argsSchema, (args: Record<string, string | undefined>) => {
+        const given = Object.entries(args).filter(([, value]) => value !== undefined && value !== "");
+        const argumentList = given.map(([name, value]) => `${name} = ${value}`).join(", ");
+        return {
+          messages: [
+            {
+              role: "user" as const,
+              content: {
+                type: "text" as const,
+                text: `Run the editor script "${script.name}" with run_editor_script${argumentList ? ` (${argumentList})` : ""} and summarize the result.\n${script.description}`,
+              },
+            },
+          ],
+        };
+      });
+    }
+  }
+
+  private setupTools(server: McpServer): Map<ToolName, RegisteredTool> {
+    const tools = new Map<ToolName, RegisteredTool>();
     const unityConnection = this.unityConnection;
+    const commandTimeoutMs = this.config.commandTimeoutSeconds * 1000;
+    const queryTimeoutMs = this.config.queryTimeoutSeconds * 1000;
+    const enabled = (name: ToolName) => this.config.enabledTools.includes(name);
+    const guard = this.commandGuard;
 
     // Register execute_editor_command tool
-    this.server.tool(
-      "execute_editor_command",
-      "Execute arbitrary C# code file within the Unity Editor context. This powerful tool allows for direct manipulation of the Unity Editor, GameObjects, components, and project assets using the Unity Editor API.",
-      {
-        code: z.string().min(1).describe(
-          `C# code file to execute in the Unity Editor context.
+    if (enabled("execute_editor_command")) {
+      tools.set("execute_editor_command", server.tool(
+        "execute_editor_command",
+        "Execute arbitrary C# code file within the Unity Editor context. This powerful tool allows for direct manipulation of the Unity Editor, GameObjects, components, and project assets using the Unity Editor API.",
+        {
+          code: z.string().min(1).describe(
+            `C# code file to execute in the Unity Editor context.
 The code has access to all UnityEditor and UnityEngine APIs.
 Include any necessary using directives at the top of the code.
-The code must have a EditorCommand class with a static Execute method that returns an object.`
-        ),
-      },
-      async ({ code }) => {
-        return await executeEditorCommand(code, unityConnection);
-      }
-    );
+The code must have a EditorCommand class with a static Execute method that returns an object.
+For long operations Execute may take a System.Threading.CancellationToken, cancelled when the call times out or is cancelled, and a UnityMCP.Editor.RequestProgress whose Report(progress, total, message) is shown to the user. It may also be async (returning a Task whose result is sent once it completes).
+In snippet mode, give only the statements (or a single expression whose value is returned) instead.`
+          ),
+          mode: z.enum(["class", "snippet"]).default("class").optional().describe(
+            `class: code is a complete file with the EditorCommand class.
+snippet: code is bare statements or one expression; the server wraps it in EditorCommand.Execute with usings for System, System.Collections.Generic, System.Linq, UnityEngine, UnityEditor, and VRC.SDKBase / UdonSharp when the project has them. Statements and void calls return null unless they return a value. Extra using lines may be put at the top.`
+          ),
+          editor: editorArgument,
+          timeoutSeconds: timeoutArgument,
+        },
+        async ({ code, mode, editor, timeoutSeconds }, extra) => {
+          return await executeEditorCommand(
+            code,
+            unityConnection.forEditor(editor, toolCallOptions(extra)),
+            resolveTimeoutMs(timeoutSeconds, commandTimeoutMs),
+            {
+              mode,
+              assemblies: unityConnection.getSession(editor)?.info.assemblies,
+              guard,
+              caller: { tool: "execute_editor_command", editor, approve: approver(server) },
+            }
+          );
+        }
+      ));
+    }
+
+    // Register run_editor_script tool
+    if (enabled("run_editor_script")) {
+      const scripts = this.scripts;
+      tools.set("run_editor_script", server.tool(
+        "run_editor_script",
+        describeScriptLibrary(scripts),
+        {
+          script: z.string().min(1).describe("Name of the script to run, as listed above"),
+          arguments: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe(
+            "Script arguments by parameter name, e.g. { \"typeName\": \"Rigidbody\", \"limit\": 10 }"
+          ),
+          editor: editorArgument,
+          timeoutSeconds: timeoutArgument,
+        },
+        async ({ script, arguments: args, editor, timeoutSeconds }, extra) => {
+          return await runEditorScript(
+            script,
+            args,
+            scripts,
+            unityConnection.forEditor(editor, toolCallOptions(extra)),
+            resolveTimeoutMs(timeoutSeconds, commandTimeoutMs),
+            {
+              assemblies: unityConnection.getSession(editor)?.info.assemblies,
+              guard,
+              caller: { tool: "run_editor_script", editor, approve: approver(server) },
+            }
+          );
+        }
+      ));
+    }
 
     // Register get_editor_state tool
-    this.server.tool(
-      "get_editor_state",
-      "Retrieve the current state of the Unity Editor, including active GameObjects, selection state, play mode status, scene hierarchy, project structure, and assets. This tool provides a comprehensive snapshot of the editor's current context.",
-      {
-        format: z.enum(["Raw"]).default("Raw").optional().describe(
-          "Specify the output format: Raw: Complete editor state including all available data"
-        ),
-      },
-      async ({ format }) => {
-        return await getEditorState(format || "Raw", unityConnection);
-      }
-    );
+    if (enabled("get_editor_state")) {
+      tools.set("get_editor_state", server.tool(
+        "get_editor_state",
+        "Retrieve the current state of the Unity Editor, including active GameObjects, selection state, play mode status, scene hierarchy, project structure, and assets. On large projects start with the Summary format, then drill down with HierarchyOnly or AssetsOnly and the path, name and maxDepth filters.",
+        {
+          format: z.enum(EDITOR_STATE_FORMATS).default("Raw").optional().describe(
+            `Specify the output format:
+Raw: Complete editor state including all available data (filters and paging do not apply)
+Summary: Play mode, selection, object and asset counts, root objects and the most common asset types and folders
+HierarchyOnly: Scene objects as { path, depth, components, childCount }, in hierarchy order, filtered and paged
+AssetsOnly: Asset paths, filtered and paged
+Tree: The scene hierarchy as an indented text outline (name, #instanceId, [components without Transform], child count, inactive flag); subtrees beyond maxTokens are collapsed into "… N more children". path and name select the subtrees to show`
+          ),
+          path: z.string().min(1).optional().describe(
+            "Glob on the hierarchy path (e.g. \"Environment/**\") or asset path (e.g. \"Assets/Prefabs/*.prefab\"). * stays within one path segment, ** crosses segments, case-insensitive."
+          ),
+          name: z.string().min(1).optional().describe(
+            "Glob on the GameObject name or asset file name, e.g. \"Chair*\""
+          ),
+          maxDepth: z.number().int().min(0).optional().describe(
+            "HierarchyOnly and Tree: deepest level to include, 0 for root objects only (Tree: counted from the matching objects)"
+          ),
+          limit: z.number().int().min(1).max(1000).default(100).optional().describe(
+            "Maximum number of objects or assets per page"
+          ),
+          cursor: z.string().min(1).optional().describe(
+            "nextCursor from the previous response, to get the next page of the same query"
+          ),
+          maxTokens: z.number().int().min(100).max(100_000).default(DEFAULT_TREE_TOKENS).optional().describe(
+            "Tree: approximate size of the outline"
+          ),
+          editor: editorArgument,
+          timeoutSeconds: timeoutArgument,
+        },
+        async ({ format, editor, timeoutSeconds, ...query }, extra) => {
+          return await getEditorState(
+            format || "Raw",
+            unityConnection.forEditor(editor, toolCallOptions(extra)),
+            resolveTimeoutMs(timeoutSeconds, commandTimeoutMs),
+            query
+          );
+        }
+      ));
+    }
+
+    // Register diff_editor_state tool
+    if (enabled("diff_editor_state")) {
+      const snapshots = this.snapshots;
+      tools.set("diff_editor_state", server.tool(
+        "diff_editor_state",
+        "Report what changed in the Unity Editor between two snapshots of the editor state: GameObjects added, removed, renamed or reparented, components added or removed, and assets added or removed. Call it without arguments before making changes to take a snapshot, then with `from` set to the returned snapshotId afterwards.",
+        {
+          from: z.string().min(1).optional().describe(
+            "Snapshot to compare from. Omit to take a new snapshot and get its id."
+          ),
+          to: z.string().min(1).optional().describe(
+            "Snapshot to compare to. Defaults to the current state, which is also kept as a new snapshot."
+          ),
+          editor: editorArgument,
+          timeoutSeconds: timeoutArgument,
+        },
+        async ({ editor, timeoutSeconds, ...args }, extra) => {
+          return await diffEditorState(
+            { ...args, editor },
+            snapshots,
+            unityConnection.forEditor(editor, toolCallOptions(extra)),
+            (selector) => unityConnection.getSession(selector)?.id,
+            resolveTimeoutMs(timeoutSeconds, commandTimeoutMs)
+          );
+        }
+      ));
+    }
 
     // Register get_logs tool
-    this.server.tool(
-      "get_logs",
-      "Retrieve and filter Unity Editor logs with comprehensive filtering options. This tool provides access to editor logs, console messages, warnings, errors, and exceptions with powerful filtering capabilities.",
-      {
-        types: z.array(z.enum(["Log", "Warning", "Error", "Exception"])).optional().describe(
-          "Filter logs by type. If not specified, all types are included."
-        ),
-        count: z.number().min(1).max(1000).default(100).optional().describe(
-          "Maximum number of log entries to return"
-        ),
-        fields: z.array(z.enum(["message", "stackTrace", "logType", "timestamp"])).optional().describe(
-          "Specify which fields to include in the output."
-        ),
-        messageContains: z.string().min(1).optional().describe(
-          "Filter logs to only include entries where the message contains this string (case-sensitive)"
-        ),
-        stackTraceContains: z.string().min(1).optional().describe(
-          "Filter logs to only include entries where the stack trace contains this string (case-sensitive)"
-        ),
-        timestampAfter: z.string().optional().describe(
-          "Filter logs after this ISO timestamp (inclusive)"
-        ),
-        timestampBefore: z.string().optional().describe(
-          "Filter logs before this ISO timestamp (inclusive)"
-        ),
-      },
-      async (args) => {
-        const logBuffer = unityConnection.getLogBuffer();
-        return getLogs(args, logBuffer);
-      }
-    );
+    if (enabled("get_logs")) {
+      tools.set("get_logs", server.tool(
+        "get_logs",
+        "Retrieve and filter Unity Editor logs with comprehensive filtering options. This tool provides access to editor logs, console messages, warnings, errors, and exceptions with powerful filtering capabilities.",
+        {
+          types: z.array(z.enum(["Log", "Warning", "Error", "Exception"])).optional().describe(
+            "Filter logs by type. If not specified, all types are included."
+          ),
+          count: z.number().min(1).max(1000).default(100).optional().describe(
+            "Maximum number of log entries to return"
+          ),
+          fields: z.array(z.enum(["message", "stackTrace", "logType", "timestamp"])).optional().describe(
+            "Specify which fields to include in the output."
+          ),
+          messageContains: z.string().min(1).optional().describe(
+            "Filter logs to only include entries where the message contains this string (case-sensitive)"
+          ),
+          stackTraceContains: z.string().min(1).optional().describe(
+            "Filter logs to only include entries where the stack trace contains this string (case-sensitive)"
+          ),
+          timestampAfter: z.string().optional().describe(
+            "Filter logs after this ISO timestamp (inclusive)"
+          ),
+          timestampBefore: z.string().optional().describe(
+            "Filter logs before this ISO timestamp (inclusive)"
+          ),
+          editor: editorArgument,
+        },
+        async ({ editor, ...args }) => {
+          const logBuffer = unityConnection.getLogBuffer(editor);
+          return getLogs(args, logBuffer);
+        }
+      ));
+    }
 
     // Register get_object_details tool
-    this.server.tool(
-      "get_object_details",
-      "Retrieve detailed information about a GameObject, including its transform, tag, layer, and all attached components with their public fields and properties.",
-      {
-        objectName: z.string().min(1).describe(
-          "The name of the GameObject to inspect. Must be exact name in the scene."
-        ),
-      },
-      async ({ objectName }) => {
-        return await getObjectDetails(objectName, unityConnection);
-      }
-    );
+    if (enabled("get_object_details")) {
+      tools.set("get_object_details", server.tool(
+        "get_object_details",
+        "Retrieve detailed information about a GameObject, including its transform, tag, layer, and all attached components with their public fields and properties. Address the object with `target` (path, instance ID, tag, layer, component or name glob); it must match exactly one object. Narrow large results with components / excludeComponents and fields, include children with childDepth; arrays beyond maxTokens are cut and listed under `truncated`.",
+        {
+          target: objectSelectorArgument.optional().describe(
+            "Selects the GameObject to inspect. Fails listing the candidates when several objects match."
+          ),
+          objectName: z.string().min(1).optional().describe(
+            "Exact name of the GameObject to inspect, for plugins without selector support. Ignored when target is given."
+          ),
+          components: z.array(z.string().min(1)).optional().describe(
+            "Only report components of these types, e.g. ['UdonBehaviour', 'Collider']. Base types match their subclasses."
+          ),
+          excludeComponents: z.array(z.string().min(1)).optional().describe(
+            "Leave out components of these types, e.g. ['MeshRenderer']"
+          ),
+          fields: z.array(z.string().min(1)).optional().describe(
+            "Only report these fields and properties, as 'name' (any component) or 'Type.name', e.g. ['enabled', 'Light.intensity']"
+          ),
+          childDepth: z.number().int().min(0).max(10).optional().describe(
+            "Levels of children to report with their own details, filtered the same way (default 0: the object only)"
+          ),
+          maxTokens: z.number().int().min(100).max(100_000).optional().describe(
+            `Approximate size of the result (default ${DEFAULT_DETAILS_TOKENS}). Field arrays, then children, then components are cut to fit`
+          ),
+          editor: editorArgument,
+          timeoutSeconds: timeoutArgument,
+        },
+        async ({ target, objectName, editor, timeoutSeconds, ...query }, extra) => {
+          if (!target && !objectName) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: JSON.stringify({ error: "Pass target (or objectName) to choose the GameObject", status: "error" }),
+                },
+              ],
+            };
+          }
+          return await getObjectDetails(
+            target ? { target } : { objectName: objectName! },
+            unityConnection.forEditor(editor, toolCallOptions(extra)),
+            resolveTimeoutMs(timeoutSeconds, queryTimeoutMs),
+            query
+          );
+        }
+      ));
+    }
+
+    // Register find_objects tool
+    if (enabled("find_objects")) {
+      tools.set("find_objects", server.tool(
+        "find_objects",
+        "Find GameObjects in the open scenes by hierarchy path, instance ID, tag, layer, component type or name glob, including inactive ones. Returns each match's path and instance ID, which get_object_details and manipulate_scene accept as `target` to address exactly that object.",
+        {
+          selector: objectSelectorArgument.describe("Criteria the objects must all match"),
+          limit: z.number().int().min(1).max(1000).optional().describe(
+            `Maximum number of objects to return (default ${DEFAULT_FIND_LIMIT}); total still counts every match`
+          ),
+          editor: editorArgument,
+          timeoutSeconds: timeoutArgument,
+        },
+        async ({ selector, limit, editor, timeoutSeconds }, extra) => {
+          return await findObjects(
+            selector,
+            limit,
+            unityConnection.forEditor(editor, toolCallOptions(extra)),
+            resolveTimeoutMs(timeoutSeconds, queryTimeoutMs)
+          );
+        }
+      ));
+    }
 
     // Register take_screenshot tool
-    this.server.tool(
-      "take_screenshot",
-      "Capture a screenshot of the current Unity Editor Game View. Returns the image as a base64 encoded string or image artifact.",
-      {},
-      async () => {
-        return await takeScreenshot(unityConnection);
-      }
-    );
+    if (enabled("take_screenshot")) {
+      tools.set("take_screenshot", server.tool(
+        "take_screenshot",
+        "Capture a screenshot of the current Unity Editor Game View. Returns the image as a base64 encoded string or image artifact.",
+        {
+          editor: editorArgument,
+          timeoutSeconds: timeoutArgument,
+        },
+        async ({ editor, timeoutSeconds }, extra) => {
+          return await takeScreenshot(
+            unityConnection.forEditor(editor, toolCallOptions(extra)),
+            resolveTimeoutMs(timeoutSeconds, queryTimeoutMs)
+          );
+        }
+      ));
+    }
+
+    // Register list_editors tool
+    if (enabled("list_editors")) {
+      tools.set("list_editors", server.tool(
+        "list_editors",
+        "List the Unity Editors connected to this server (project, Unity version, platform, connection state). Pass an editor's id or project name as the `editor` argument of other tools to target it; otherwise the most recently active editor is used.",
+        {},
+        async () => {
+          return listEditors(unityConnection);
+        }
+      ));
+    }
 
     // Register manipulate_scene tool
-    const manipulateTool = ManipulateSceneTool(unityConnection);
-    this.server.tool(
-      manipulateTool.name,
-      manipulateTool.description,
-      (manipulateTool.inputSchema as any).shape,
-      async (args: any) => await manipulateTool.handler(args) as any
-    );
+    if (enabled("manipulate_scene")) {
+      const manipulateTool = ManipulateSceneTool(unityConnection, queryTimeoutMs);
+      tools.set("manipulate_scene", server.tool(
+        manipulateTool.name,
+        manipulateTool.description,
+        (manipulateTool.inputSchema as any).shape,
+        async (args: any, extra: ToolExtra) => await manipulateTool.handler(args, toolCallOptions(extra)) as any
+      ));
+    }
 
     // Register manage_assets tool
-    const assetsTool = ManageAssetsTool(unityConnection);
-    this.server.tool(
-      assetsTool.name,
-      assetsTool.description,
-      (assetsTool.inputSchema as any).shape,
-      async (args: any) => await assetsTool.handler(args) as any
-    );
+    if (enabled("manage_assets")) {
+      const assetsTool = ManageAssetsTool(unityConnection, commandTimeoutMs);
+      tools.set("manage_assets", server.tool(
+        assetsTool.name,
+        assetsTool.description,
+        (assetsTool.inputSchema as any).shape,
+        async (args: any, extra: ToolExtra) => await assetsTool.handler(args, toolCallOptions(extra)) as any
+      ));
+    }
+
+    return tools;
+  }
+
+  private updateToolAvailability() {
+    const changed = new Map<ToolName, boolean>();
+    for (const tools of this.mcpServers.values()) {
+      for (const [name, tool] of tools) {
+        const available = this.unityConnection.isToolAvailable(name);
+        if (available !== tool.enabled) {
+          changed.set(name, available);
+          if (available) tool.enable();
+          else tool.disable();
+        }
+      }
+    }
+
+    for (const [name, available] of changed) {
+      console.error(
+        available
+          ? `[Unity MCP] Enabling ${name}: supported by a connected Unity plugin`
+          : `[Unity MCP] Disabling ${name}: not supported by the connected Unity plugin`,
+      );
+    }
   }
 
   private async cleanup() {
+    this.replayPlayer?.close();
     this.unityConnection.close();
-    await this.server.close();
+    this.auditLog.close();
+    this.mcpHttpServer?.close();
+    await this.httpTransport?.close();
+    await Promise.all([...this.mcpServers.keys()].map((server) => server.close()));
+  }
+
+  /** Serve MCP over Streamable HTTP / SSE, on the health server or on mcpPort. */
+  private startHttpTransport() {
+    const httpTransport = new McpHttpTransport(() => this.createMcpServer());
+    this.httpTransport = httpTransport;
+    const host = this.config.host;
+
+    if (this.config.mcpPort === undefined) {
+      this.unityConnection.addHttpRoute(MCP_HTTP_PATHS, (req, res) => httpTransport.handleRequest(req, res));
+      console.error(`[Unity MCP] MCP endpoint available at http://${host}:${this.config.healthPort}/mcp (SSE: /sse)`);
+      return;
+    }
+
+    const mcpPort = this.config.mcpPort;
+    this.mcpHttpServer = createServer((req, res) => {
+      if (!this.unityConnection.authorizeHttpRequest(req, res)) return;
+      httpTransport.handleRequest(req, res).catch((error) => {
+        console.error(`[Unity MCP] Error handling ${req.method} ${req.url}:`, error);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+    this.mcpHttpServer.on("error", (error: any) => {
+      console.error(`[Unity MCP] MCP HTTP server error: ${error.code || "UNKNOWN"}`, error.message);
+    });
+    this.mcpHttpServer.listen(mcpPort, host, () => {
+      console.error(`[Unity MCP] MCP endpoint available at http://${host}:${mcpPort}/mcp (SSE: /sse)`);
+    });
   }
 
   async run() {
     await this.initialize();
 
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    console.error("Unity MCP server running on stdio");
+    if (this.config.transport === "http") {
+      this.startHttpTransport();
+    } else {
+      const transport = new StdioServerTransport();
+      await this.createMcpServer().connect(transport);
+      console.error("Unity MCP server running on stdio");
+    }
 
     // Wait for WebSocket server to be ready
     await new Promise<void>((resolve) => {
       setTimeout(resolve, 100); // Small delay to ensure WebSocket server is initialized
     });
+
+    if (this.config.replayFile) {
+      await this.startReplay(this.config.replayFile);
+    }
+  }
+
+  /** Stand in for Unity with a recording made with --record-file. */
+  private async startReplay(replayFile: string) {
+    const host = this.config.host === "0.0.0.0" ? "127.0.0.1" : this.config.host;
+    console.error(`[Unity MCP] Replaying ${replayFile} in place of the Unity Editor`);
+    this.replayPlayer = RecordingPlayer.load(replayFile);
+    await this.replayPlayer.start(`ws://${host}:${this.config.port}`, this.authToken);
+  }
+}
+
+let config: ServerConfig;
+try {
+  config = loadConfig();
+} catch (error) {
+  if (error instanceof ConfigError) {
+    console.error(`[Unity MCP] ${error.message}`);
+    process.exit(1);
   }
+  throw error;
 }
 
-const server = new UnityMCPServer();
+const server = new UnityMCPServer(config);
 server.run().catch(console.error);
@@ -0,0 +1,74 @@
+import { closeSync, mkdirSync, openSync, writeSync } from "fs";
+import os from "os";
+import path from "path";
+import { PolicyMode, PolicyViolation } from "./CommandPolicy.js";
+
+/** Where executed commands are logged unless auditLogFile says otherwise. */
+export const DEFAULT_AUDIT_LOG_FILE = path.join(os.homedir(), ".unity-mcp", "audit.jsonl");
+
+// Results longer than this are cut in the audit log
+const MAX_RESULT_LENGTH = 10_000;
+
+/**
+ * One line of the audit log: a command submitted to Unity, what the policy
+ * decided and, unless it was denied, how it went.
+ */
+export interface AuditEntry {
+  timestamp: string;
+  /** MCP tool the command came through, e.g. execute_editor_command. */
+  tool: string;
+  editor?: string;
+  policy: PolicyMode;
+  /** The code as submitted, before snippets are wrapped. */
+  code: string;
+  /** "approved": the policy objected and the user allowed it anyway. */
+  decision: "allowed" | "approved" | "denied";
+  violations?: PolicyViolation[];
+  durationMs: number;
+  status: "success" | "error";
+  /** The tool result sent back to the MCP client. */
+  result?: string;
+  error?: string;
+}
+
+/**
+ * Appends every command submitted to Unity to a JSONL file, one AuditEntry per
+ * line. Entries are only ever added, never rewritten.
+ */
+export class AuditLog {
+  private fd: number | null = null;
+
+  /** A file that cannot be created, e.g. under a read-only home, disables auditing with a warning. */
+  constructor(public readonly filePath: string) {
+    try {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+      // Written synchronously so a recorded entry is on disk even if the server exits right after
+      this.fd = openSync(filePath, "a");
+    } catch (error) {
+      console.error(
+        `[Unity MCP] Cannot write audit log ${filePath}, commands will not be audited. Set auditLogFile to a writable path:`,
+        error,
+      );
+    }
+  }
+
+  public record(entry: Omit<AuditEntry, "timestamp">): void {
+    if (this.fd === null) return;
+    const result =
+      entry.result !== undefined && entry.result.length > MAX_RESULT_LENGTH
+        ? `${entry.result.slice(0, MAX_RESULT_LENGTH)}...`
+        : entry.result;
+    try {
+      writeSync(this.fd, JSON.stringify({ timestamp: new Date().toISOString(), ...entry, result }) + "\n");
+    } catch (error) {
+      console.error(`[Unity MCP] Failed to write audit log ${this.filePath}, auditing stopped:`, error);
+      this.close();
+    }
+  }
+
+  public close(): void {
+    if (this.fd === null) return;
+    closeSync(this.fd);
+    this.fd = null;
+  }
+}
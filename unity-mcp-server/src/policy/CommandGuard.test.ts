@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AuditLog } from './AuditLog.js';
+import { CommandGuard } from './CommandGuard.js';
+import { CommandPolicy } from './CommandPolicy.js';
+
+describe('CommandGuard', () => {
+    const risky = 'Process.Start("cmd.exe");';
+
+    it('should allow code the policy does not object to without asking', async () => {
+        const approve = vi.fn();
+        const guard = new CommandGuard(new CommandPolicy('confirm'));
+
+        const review = await guard.review('return Selection.activeObject;', { tool: 'execute_editor_command', approve });
+
+        expect(review).toEqual({ decision: 'allowed', violations: [] });
+        expect(approve).not.toHaveBeenCalled();
+    });
+
+    it('should ask for approval in confirm mode', async () => {
+        const guard = new CommandGuard(new CommandPolicy('confirm'));
+        const approve = vi.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+        const caller = { tool: 'execute_editor_command', editor: 'Game', approve };
+
+        expect((await guard.review(risky, caller)).decision).toBe('approved');
+        expect(approve.mock.calls[0][0]).toContain('line 1: Starts or controls processes');
+
+        const declined = await guard.review(risky, caller);
+        expect(declined.decision).toBe('denied');
+        expect(declined.reason).toContain('The user declined');
+    });
+
+    it('should deny in confirm mode when the client cannot ask, and always in read-only mode', async () => {
+        const confirm = await new CommandGuard(new CommandPolicy('confirm')).review(risky, { tool: 'execute_editor_command' });
+        expect(confirm.decision).toBe('denied');
+        expect(confirm.reason).toContain('cannot ask for approval');
+
+        const approve = vi.fn().mockResolvedValue(true);
+        const readOnly = await new CommandGuard(new CommandPolicy('read-only')).review(risky, { tool: 'execute_editor_command', approve });
+        expect(readOnly.decision).toBe('denied');
+        expect(approve).not.toHaveBeenCalled();
+    });
+
+    describe('audit log', () => {
+        let tempDir: string;
+
+        beforeEach(() => {
+            tempDir = mkdtempSync(path.join(tmpdir(), 'unity-mcp-audit-'));
+        });
+
+        afterEach(() => {
+            rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        it('should append entries with the policy mode and cut long results', () => {
+            const filePath = path.join(tempDir, 'nested', 'audit.jsonl');
+            const auditLog = new AuditLog(filePath);
+            const guard = new CommandGuard(new CommandPolicy('read-only'), auditLog);
+
+            guard.audit({ tool: 'execute_editor_command', code: 'return 1;', decision: 'allowed', durationMs: 12, status: 'success', result: 'x'.repeat(20_000) });
+            guard.audit({ tool: 'run_editor_script', code: risky, decision: 'denied', durationMs: 0, status: 'error', error: 'refused' });
+            auditLog.close();
+
+            const entries = readFileSync(filePath, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+
+            expect(entries).toHaveLength(2);
+            expect(entries[0]).toMatchObject({ tool: 'execute_editor_command', policy: 'read-only', durationMs: 12, status: 'success' });
+            expect(entries[0].result).toHaveLength(10_003);
+            expect(entries[1]).toMatchObject({ tool: 'run_editor_script', decision: 'denied', error: 'refused' });
+            expect(typeof entries[1].timestamp).toBe('string');
+        });
+
+        it('should warn and keep going when the audit log cannot be created', () => {
+            const blocker = path.join(tempDir, 'not-a-directory');
+            writeFileSync(blocker, '');
+            const warn = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+            const auditLog = new AuditLog(path.join(blocker, 'audit.jsonl'));
+            new CommandGuard(new CommandPolicy('confirm'), auditLog).audit({
+                tool: 'execute_editor_command',
+                code: 'return 1;',
+                decision: 'allowed',
+                durationMs: 1,
+                status: 'success',
+            });
+
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('commands will not be audited'), expect.anything());
+            warn.mockRestore();
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import { AuditEntry, AuditLog } from "./AuditLog.js";
+import { CommandPolicy, PolicyViolation } from "./CommandPolicy.js";
+
+/** Who submitted a command, and how to ask the user about it. */
+export interface CommandCaller {
+  tool: string;
+  editor?: string;
+  /**
+   * Ask the user whether to run a command the policy objects to. Undefined
+   * when the MCP client cannot ask (no elicitation support).
+   */
+  approve?: (message: string) => Promise<boolean>;
+}
+
+export interface CommandReview {
+  decision: AuditEntry["decision"];
+  violations: PolicyViolation[];
+  /** Why the command was denied. */
+  reason?: string;
+}
+
+/**
+ * Applies the command policy to code before it is sent to Unity and records
+ * the outcome in the audit log.
+ */
+export class CommandGuard {
+  constructor(
+    public readonly policy: CommandPolicy,
+    private readonly auditLog: AuditLog | null = null,
+  ) {}
+
+  public async review(code: string, caller: CommandCaller): Promise<CommandReview> {
+    const violations = this.policy.check(code);
+    if (violations.length === 0) return { decision: "allowed", violations };
+
+    const summary = violations.map((violation) => `line ${violation.line}: ${violation.description}`).join("; ");
+    if (this.policy.mode === "read-only") {
+      return { decision: "denied", violations, reason: summary };
+    }
+
+    if (!caller.approve) {
+      return {
+        decision: "denied",
+        violations,
+        reason: `${summary}. The MCP client cannot ask for approval; set commandPolicy to "unrestricted" to allow such commands`,
+      };
+    }
+
+    const approved = await caller.approve(
+      `${caller.tool} wants to run code in Unity${caller.editor ? ` (${caller.editor})` : ""} that the safety policy flagged:\n` +
+        violations.map((violation) => `- line ${violation.line}: ${violation.description}\n    ${violation.excerpt}`).join("\n") +
+        "\nRun it anyway?",
+    );
+    return approved
+      ? { decision: "approved", violations }
+      : { decision: "denied", violations, reason: `${summary}. The user declined to run it` };
+  }
+
+  public audit(entry: Omit<AuditEntry, "timestamp" | "policy">): void {
+    this.auditLog?.record({ ...entry, policy: this.policy.mode });
+  }
+}
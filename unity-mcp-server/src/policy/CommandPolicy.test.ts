@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { CommandPolicy } from './CommandPolicy.js';
+
+function rules(policy: CommandPolicy, code: string) {
+    return policy.check(code).map((violation) => violation.rule);
+}
+
+describe('CommandPolicy', () => {
+    const confirm = new CommandPolicy('confirm');
+    const readOnly = new CommandPolicy('read-only');
+
+    it('should flag processes, network access and file writes outside Assets/', () => {
+        const code = [
+            'using System.Diagnostics;',
+            'Process.Start("cmd.exe");',
+            'var client = new System.Net.Http.HttpClient();',
+            'File.Delete("C:/Windows/notepad.exe");',
+        ].join('\n');
+
+        const violations = confirm.check(code);
+
+        expect(violations.map((violation) => [violation.rule, violation.line])).toEqual([
+            ['process', 2],
+            ['network', 3],
+            ['file-write-outside-assets', 4],
+        ]);
+        expect(violations[2].excerpt).toBe('File.Delete("C:/Windows/notepad.exe");');
+    });
+
+    it('should flag sockets only when constructed or fully qualified', () => {
+        expect(rules(confirm, 'var socket = new Socket(AddressFamily.InterNetwork, SocketType.Stream, ProtocolType.Tcp);')).toEqual(['network']);
+        expect(rules(confirm, 'Sockets.Socket listener = null;')).toEqual(['network']);
+        expect(rules(confirm, 'var socket = GetComponent<Socket>();')).toEqual([]);
+        expect(rules(confirm, 'var plug = FindObjectOfType<PowerSocket>();')).toEqual([]);
+    });
+
+    it('should allow file writes to literal paths inside Assets/ in confirm mode', () => {
+        expect(rules(confirm, 'File.WriteAllText("Assets/Data/notes.txt", text);')).toEqual([]);
+        expect(rules(confirm, 'File.WriteAllText(@"Assets\\Data\\notes.txt", text);')).toEqual([]);
+        expect(rules(confirm, 'File.WriteAllText("Assets/../ProjectSettings/x.asset", text);')).toEqual(['file-write-outside-assets']);
+        expect(rules(confirm, 'File.WriteAllText(path, text);')).toEqual(['file-write-outside-assets']);
+        expect(rules(confirm, 'File.WriteAllText("Assets/notes.txt", "C:/Windows/notepad.exe");')).toEqual([]);
+    });
+
+    it('should check the destination of copies, moves and replacements', () => {
+        const outside = [
+            'File.Copy("Assets/a.txt", "C:/Windows/a.txt");',
+            'File.Move("Assets/a.txt", "../a.txt");',
+            'File.Replace("Assets/a.txt", "/etc/hosts", null);',
+            'File.Replace("Assets/a.txt", "Assets/b.txt", "/tmp/backup.txt");',
+            'Directory.Move("Assets/Old", "/tmp/Old");',
+            'FileUtil.CopyFileOrDirectory("Assets/a.txt", Path.Combine(home, "a.txt"));',
+            'FileUtil.MoveFileOrDirectory("Assets/a.txt", "Library/a.txt");',
+            'FileUtil.ReplaceFile("Assets/a.txt", "ProjectSettings/a.asset");',
+        ];
+        for (const code of outside) {
+            expect([code, rules(confirm, code)]).toEqual([code, ['file-write-outside-assets']]);
+        }
+
+        expect(rules(confirm, 'File.Copy("Assets/a.txt", "Assets/b.txt", true);')).toEqual([]);
+        expect(rules(confirm, 'File.Replace("Assets/a.txt", "Assets/b.txt", null);')).toEqual([]);
+        expect(rules(confirm, 'FileUtil.ReplaceDirectory("Assets/Old", "Assets/New");')).toEqual([]);
+    });
+
+    it('should ignore APIs mentioned in comments and strings', () => {
+        const code = [
+            '// Process.Start would be bad here',
+            '/* new WebClient() */',
+            'Debug.Log("Process.Start(\\"x\\") and System.Net");',
+            'return @"File.Delete(""/etc"")";',
+        ].join('\n');
+
+        expect(confirm.check(code)).toEqual([]);
+    });
+
+    it('should additionally refuse changes to the project in read-only mode', () => {
+        const code = [
+            'var found = GameObject.FindObjectsOfType<Rigidbody>();',
+            'Object.DestroyImmediate(found[0].gameObject);',
+            'AssetDatabase.DeleteAsset("Assets/Old.prefab");',
+            'EditorApplication.ExecuteMenuItem("File/Save");',
+        ].join('\n');
+
+        expect(rules(readOnly, code)).toEqual(['scene-change', 'asset-change', 'editor-control']);
+        expect(rules(readOnly, 'return GameObject.FindObjectsOfType<Camera>().Length;')).toEqual([]);
+        expect(rules(confirm, code)).toEqual([]);
+    });
+
+    it('should apply the configured denylist and nothing in unrestricted mode', () => {
+        const policy = new CommandPolicy('confirm', ['EditorApplication.Exit']);
+
+        expect(rules(policy, 'EditorApplication . Exit(0);')).toEqual(['denylist:EditorApplication.Exit']);
+        expect(rules(policy, 'EditorApplication.ExitPlaymode();')).toEqual([]);
+        expect(rules(new CommandPolicy('unrestricted'), 'Process.Start("cmd.exe");')).toEqual([]);
+    });
+});
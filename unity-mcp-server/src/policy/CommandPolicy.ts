@@ -0,0 +1,236 @@
+export const POLICY_MODES = ["unrestricted", "confirm", "read-only"] as const;
+
+/**
+ * - unrestricted: code is sent as is
+ * - confirm: code using a denylisted API runs only after the user approves it
+ * - read-only: code using a denylisted API or changing the project is refused
+ */
+export type PolicyMode = (typeof POLICY_MODES)[number];
+
+/** A place in the submitted code that the policy objects to. */
+export interface PolicyViolation {
+  rule: string;
+  description: string;
+  /** 1-based line in the submitted code. */
+  line: number;
+  excerpt: string;
+}
+
+/** A call argument: the value of a string literal, null for `null`, undefined for anything else. */
+type Argument = string | null | undefined;
+
+interface Rule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  /** Return false to let a match through, e.g. a write into Assets/. Gets the matched call and its arguments. */
+  applies?: (call: string, args: Argument[]) => boolean;
+}
+
+// Lines longer than this are cut in violation excerpts
+const MAX_EXCERPT = 200;
+
+const FILE_WRITE =
+  /\b(?:File\s*\.\s*(?:WriteAll\w*|AppendAll\w*|AppendText|Create|CreateText|Open|OpenWrite|Delete|Move|Copy|Replace|SetAttributes)|Directory\s*\.\s*(?:CreateDirectory|Delete|Move)|FileUtil\s*\.\s*(?:DeleteFileOrDirectory|MoveFileOrDirectory|CopyFileOrDirectory\w*|ReplaceFile|ReplaceDirectory)|new\s+(?:FileStream|StreamWriter|BinaryWriter))\s*\(/g;
+
+/** APIs refused in read-only mode and needing approval in confirm mode. */
+const DENYLIST: Rule[] = [
+  {
+    id: "process",
+    description: "Starts or controls processes (System.Diagnostics.Process)",
+    pattern:
+      /\bSystem\s*\.\s*Diagnostics\s*\.\s*Process\w*\b|\bProcess\s*\.\s*(?:Start|Kill|GetProcess\w*)\b|\bnew\s+Process(?:StartInfo)?\s*\(/g,
+  },
+  {
+    id: "network",
+    description: "Accesses the network (System.Net)",
+    pattern:
+      /\bSystem\s*\.\s*Net\b|\b(?:HttpClient|WebClient|WebRequest|HttpWebRequest|TcpClient|TcpListener|UdpClient|UnityWebRequest)\b|\bSockets\s*\.\s*Socket\b|\bnew\s+Socket\s*\(/g,
+  },
+  {
+    id: "file-write-outside-assets",
+    description: "Writes or deletes files outside Assets/ (or at a path that is not a literal)",
+    pattern: FILE_WRITE,
+    applies: (call, args) =>
+      args
+        .slice(0, pathArgumentCount(call))
+        .some((argument) => argument !== null && (argument === undefined || !isInsideAssets(argument))),
+  },
+];
+
+/** Additionally refused in read-only mode. Static checks cannot see every change, e.g. property assignments. */
+const MUTATIONS: Rule[] = [
+  {
+    id: "file-write",
+    description: "Writes or deletes files",
+    pattern: FILE_WRITE,
+  },
+  {
+    id: "scene-change",
+    description: "Changes GameObjects or scenes",
+    pattern:
+      /\b(?:Destroy|DestroyImmediate|Instantiate|AddComponent|SetActive|SetParent|ApplyModifiedProperties\w*)\s*[(<]|\bnew\s+GameObject\b|\bUndo\s*\.\s*\w+|\bEditorSceneManager\s*\.\s*(?:SaveScene|SaveScenes|SaveOpenScenes|OpenScene|NewScene|CloseScene|MarkSceneDirty|MarkAllScenesDirty)\b|\bEditorUtility\s*\.\s*SetDirty\b/g,
+  },
+  {
+    id: "asset-change",
+    description: "Creates, imports, moves or deletes assets",
+    pattern:
+      /\bAssetDatabase\s*\.\s*(?:CreateAsset|AddObjectToAsset|DeleteAsset\w*|MoveAsset\w*|CopyAsset|RenameAsset|ImportAsset|ImportPackage|Refresh|SaveAssets|CreateFolder)\b|\bPrefabUtility\s*\.\s*(?:SaveAsPrefabAsset\w*|ApplyPrefabInstance|UnpackPrefabInstance\w*|ReplacePrefab)\b/g,
+  },
+  {
+    id: "editor-control",
+    description: "Controls the editor (play mode, menu items, builds, bakes, quitting)",
+    pattern:
+      /\bEditorApplication\s*\.\s*(?:Exit|EnterPlaymode|ExitPlaymode|ExecuteMenuItem|isPlaying\s*=(?!=))|\bBuildPipeline\s*\.|\bLightmapping\s*\.\s*(?:Bake\w*|Clear\w*)\b/g,
+  },
+];
+
+/**
+ * Static checks on C# submitted to execute_editor_command. They are a guardrail
+ * against mistakes, not a sandbox: code determined to get around them (e.g.
+ * through reflection) can.
+ */
+export class CommandPolicy {
+  private readonly rules: Rule[];
+
+  constructor(
+    public readonly mode: PolicyMode,
+    /** Extra APIs or namespaces to deny, e.g. "EditorApplication.Exit" or "UnityEditor.BuildPipeline". */
+    denylist: string[] = [],
+  ) {
+    const custom = denylist.map((entry) => ({
+      id: `denylist:${entry}`,
+      description: `Uses ${entry}, which is on the configured denylist`,
+      pattern: new RegExp(`\\b${entry.split(".").map(escapeRegExp).join("\\s*\\.\\s*")}\\b`, "g"),
+    }));
+    this.rules =
+      mode === "unrestricted" ? [] : mode === "confirm" ? [...DENYLIST, ...custom] : [...DENYLIST, ...custom, ...MUTATIONS];
+  }
+
+  /** Everything in the code the current mode objects to, in source order. */
+  public check(code: string): PolicyViolation[] {
+    if (this.rules.length === 0) return [];
+
+    const { withStrings, masked } = maskCode(code);
+    const lines = code.split(/\r?\n/);
+    const violations: PolicyViolation[] = [];
+
+    for (const rule of this.rules) {
+      for (const match of masked.matchAll(rule.pattern)) {
+        const index = match.index ?? 0;
+        if (rule.applies && !rule.applies(match[0], callArguments(withStrings, masked, index + match[0].length))) continue;
+
+        const line = lineAt(masked, index);
+        if (violations.some((violation) => violation.rule === rule.id && violation.line === line)) continue;
+
+        const source = lines[line - 1]?.trim() ?? "";
+        violations.push({
+          rule: rule.id,
+          description: rule.description,
+          line,
+          excerpt: source.length > MAX_EXCERPT ? `${source.slice(0, MAX_EXCERPT)}...` : source,
+        });
+      }
+    }
+    return violations.sort((a, b) => a.line - b.line);
+  }
+}
+
+function isInsideAssets(filePath: string): boolean {
+  const normalized = filePath.replace(/\\/g, "/");
+  return /^Assets(\/|$)/.test(normalized) && !normalized.split("/").includes("..");
+}
+
+/**
+ * How many leading arguments of a file-writing call are paths: the source and
+ * destination of copies and moves, plus the backup of File.Replace (may be null).
+ */
+function pathArgumentCount(call: string): number {
+  const name = call.replace(/\s+/g, "");
+  if (name.startsWith("File.Replace")) return 3;
+  return /^(?:File\.(?:Copy|Move)|Directory\.Move|FileUtil\.(?:Move|Copy|Replace))/.test(name) ? 2 : 1;
+}
+
+/**
+ * The arguments of the call whose opening parenthesis ends at `index`, split on
+ * top-level commas of the masked code and read back from `withStrings`.
+ */
+function callArguments(withStrings: string, masked: string, index: number): Argument[] {
+  const args: Argument[] = [];
+  let depth = 0;
+  let start = index;
+
+  for (let i = index; i < masked.length; i++) {
+    const char = masked[i];
+    if (char === "(" || char === "[" || char === "{") {
+      depth++;
+    } else if ((char === ")" || char === "]" || char === "}") && depth > 0) {
+      depth--;
+    } else if (depth === 0 && (char === "," || char === ")")) {
+      const text = withStrings.slice(start, i).trim();
+      if (text !== "" || char === ",") args.push(argumentValue(text));
+      if (char === ")") break;
+      start = i + 1;
+    }
+  }
+  return args;
+}
+
+function argumentValue(text: string): Argument {
+  if (text === "null") return null;
+  const match = /^(@?)"((?:[^"\\]|\\.|"")*)"$/.exec(text);
+  if (!match) return undefined;
+  return match[1] ? match[2].replace(/""/g, '"') : match[2].replace(/\\\\/g, "\\");
+}
+
+function lineAt(code: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (code[i] === "\n") line++;
+  }
+  return line;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Comments, then string and char literals, matched at the current position
+const COMMENT = /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y;
+const LITERAL = /(?:\$@|@\$|@)"(?:[^"]|"")*(?:"|$)|\$?"(?:[^"\\\n]|\\.)*(?:"|$)|'(?:[^'\\\n]|\\.)*(?:'|$)/y;
+
+/**
+ * Blank out comments (withStrings) and additionally the contents of string and
+ * char literals (masked), keeping every character's position and line.
+ */
+function maskCode(code: string): { withStrings: string; masked: string } {
+  const blank = (text: string) => text.replace(/[^\n]/g, " ");
+  let withStrings = "";
+  let masked = "";
+  let i = 0;
+
+  while (i < code.length) {
+    COMMENT.lastIndex = i;
+    LITERAL.lastIndex = i;
+    const comment = COMMENT.exec(code);
+    const literal = comment ? null : LITERAL.exec(code);
+
+    if (comment) {
+      withStrings += blank(comment[0]);
+      masked += blank(comment[0]);
+      i += comment[0].length;
+    } else if (literal) {
+      // Keep the prefix and opening quote so the literal still reads as one
+      const open = literal[0].search(/["']/) + 1;
+      withStrings += literal[0];
+      masked += literal[0].slice(0, open) + blank(literal[0].slice(open));
+      i += literal[0].length;
+    } else {
+      withStrings += code[i];
+      masked += code[i];
+      i++;
+    }
+  }
+
+  return { withStrings, masked };
+}
@@ -0,0 +1,29 @@
+import { EditorScript } from "../scripts/EditorScript.js";
+import { Resource, ResourceContext, ResourceDefinition } from "./types.js";
+
+/** Exposes a script library template, so its code and parameters can be read before running it. */
+export class EditorScriptResource implements Resource {
+  constructor(private readonly script: EditorScript) {}
+
+  getDefinition(): ResourceDefinition {
+    return {
+      uri: `file:///scripts/${this.script.name}.cs`,
+      name: `script:${this.script.name}`,
+      mimeType: "text/x-csharp",
+      description: `Editor script ${this.script.signature()}: ${this.script.description}`,
+    };
+  }
+
+  async getContents(context: ResourceContext): Promise<string> {
+    const parameters = this.script.parameters.map(
+      (parameter) => `//   ${parameter.name}: ${parameter.type}${parameter.required ? "" : " (optional)"} ${parameter.description}`,
+    );
+    return [
+      `// ${this.script.signature()}, ${this.script.mode} mode`,
+      `// ${this.script.description}`,
+      ...parameters,
+      "",
+      this.script.template,
+    ].join("\n");
+  }
+}
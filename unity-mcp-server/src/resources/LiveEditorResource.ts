@@ -0,0 +1,80 @@
+import { EditorStateChange, UnityEditorState } from "../communication/messages.js";
+import { renderHierarchyTree } from "../tools/HierarchyTree.js";
+import { Resource, ResourceContext, ResourceDefinition } from "./types.js";
+
+type LiveKey = keyof EditorStateChange & keyof UnityEditorState;
+
+interface LiveView {
+  key: LiveKey;
+  definition: ResourceDefinition;
+  render: (value: UnityEditorState[LiveKey]) => string;
+}
+
+const LIVE_VIEWS: LiveView[] = [
+  {
+    key: "sceneHierarchy",
+    definition: {
+      uri: "unity://scene/hierarchy",
+      name: "unity-scene-hierarchy",
+      mimeType: "text/plain",
+      description: "The scene hierarchy of the Unity Editor as an outline, updated as it changes",
+    },
+    render: (value) => renderHierarchyTree(value as UnityEditorState["sceneHierarchy"]),
+  },
+  {
+    key: "selectedObjects",
+    definition: {
+      uri: "unity://selection",
+      name: "unity-selection",
+      mimeType: "application/json",
+      description: "The GameObjects selected in the Unity Editor, updated as the selection changes",
+    },
+    render: (value) => JSON.stringify(value),
+  },
+  {
+    key: "playModeState",
+    definition: {
+      uri: "unity://playmode",
+      name: "unity-playmode",
+      mimeType: "application/json",
+      description: "Whether the Unity Editor is in play mode, updated as it enters or leaves it",
+    },
+    render: (value) => JSON.stringify({ playModeState: value }),
+  },
+];
+
+/**
+ * Part of the default editor's state, kept current by the editorStateChanged
+ * messages the plugin pushes. Clients subscribed to the resource are notified
+ * when that part changes.
+ */
+export class LiveEditorResource implements Resource {
+  constructor(private readonly view: LiveView) {}
+
+  getDefinition(): ResourceDefinition {
+    return this.view.definition;
+  }
+
+  async getContents(context: ResourceContext): Promise<string> {
+    const pushed = context.unityConnection.getDefaultSession()?.getLiveState()[this.view.key];
+    if (pushed !== undefined) return this.view.render(pushed);
+
+    // Nothing pushed yet (or a plugin that does not push): ask for the full state
+    const state = await context.unityConnection.sendRequest<UnityEditorState>(
+      "getEditorState",
+      {},
+      context.timeoutMs,
+      { idempotent: true },
+    );
+    return this.view.render(state[this.view.key]);
+  }
+}
+
+export function getLiveResources(): LiveEditorResource[] {
+  return LIVE_VIEWS.map((view) => new LiveEditorResource(view));
+}
+
+/** URIs of the live resources showing the changed parts of the editor state. */
+export function liveResourceUris(changed: (keyof EditorStateChange)[]): string[] {
+  return LIVE_VIEWS.filter((view) => changed.includes(view.key)).map((view) => view.definition.uri);
+}
@@ -1,9 +1,13 @@
 import path, { dirname } from "path";
 import { fileURLToPath } from "url";
+import { EditorScript } from "../scripts/EditorScript.js";
+import { EditorScriptResource } from "./EditorScriptResource.js";
+import { getLiveResources } from "./LiveEditorResource.js";
 import { loadTextResources } from "./TextResource.js";
 import { Resource } from "./types.js";
 
 export * from "./types.js";
+export { liveResourceUris } from "./LiveEditorResource.js";
 
 // Get the directory name of the current module
 const __filename = fileURLToPath(import.meta.url);
@@ -12,7 +16,7 @@ const __dirname = dirname(__filename);
 // Path to text resources relative to the built code
 const textResourceDir = path.join(__dirname, "text");
 
-export async function getAllResources(): Promise<Resource[]> {
+export async function getAllResources(scripts: EditorScript[] = []): Promise<Resource[]> {
   const staticResources: Resource[] = [
     // Add static resources here as they are implemented
   ];
@@ -20,5 +24,7 @@ export async function getAllResources(): Promise<Resource[]> {
   // Load dynamic text resources
   const textResources = await loadTextResources(textResourceDir);
 
-  return [...staticResources, ...textResources];
+  const scriptResources = scripts.map((script) => new EditorScriptResource(script));
+
+  return [...staticResources, ...getLiveResources(), ...textResources, ...scriptResources];
 }
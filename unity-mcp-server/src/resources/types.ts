@@ -9,6 +9,8 @@ export interface ResourceDefinition {
 
 export interface ResourceContext {
   unityConnection: UnityConnection;
+  /** How long resources read from Unity wait for an answer. */
+  timeoutMs: number;
   // Add any other context properties needed by resources
 }
 
@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { EditorScript, EditorScriptError, loadEditorScripts } from './EditorScript.js';
+
+const FIND_BY_NAME = `// @description Find GameObjects by name
+// @mode snippet
+// @param name string Name to look for
+// @param limit int = 10 Maximum number of results
+// @param scale float? Optional scale
+// @param includeInactive bool = false Also search inactive objects
+return Resources.FindObjectsOfTypeAll<GameObject>()
+    .Where(go => go.name == {{name}} && ({{includeInactive}} || go.activeInHierarchy))
+    .Take({{ limit }})
+    .Select(go => go.name + {{scale}})
+    .ToList();`;
+
+describe('EditorScript', () => {
+    it('should read the metadata and name the script after its file', () => {
+        const script = EditorScript.parse(FIND_BY_NAME, '/library/find_by_name.cs');
+
+        expect(script.name).toBe('find_by_name');
+        expect(script.description).toBe('Find GameObjects by name');
+        expect(script.mode).toBe('snippet');
+        expect(script.parameters).toEqual([
+            { name: 'name', type: 'string', required: true, description: 'Name to look for' },
+            { name: 'limit', type: 'int', required: false, defaultValue: 10, description: 'Maximum number of results' },
+            { name: 'scale', type: 'float', required: false, description: 'Optional scale' },
+            { name: 'includeInactive', type: 'bool', required: false, defaultValue: false, description: 'Also search inactive objects' },
+        ]);
+        expect(script.signature()).toBe(
+            'find_by_name(name: string, limit?: int = 10, scale?: float, includeInactive?: bool = false)'
+        );
+        expect(script.template.startsWith('return Resources')).toBe(true);
+    });
+
+    it('should render arguments as C# literals', () => {
+        const script = EditorScript.parse(FIND_BY_NAME, 'find_by_name.cs');
+
+        const code = script.render({ name: 'Say "hi"\\n");\nEditorApplication.Exit(0', scale: 1.5 });
+
+        expect(code).toContain('go.name == "Say \\"hi\\"\\\\n\\");\\nEditorApplication.Exit(0" && (false || go.activeInHierarchy)');
+        expect(code).toContain('.Take(10)');
+        expect(code).toContain('go.name + 1.5f');
+    });
+
+    it('should render omitted optional parameters as null', () => {
+        const script = EditorScript.parse(FIND_BY_NAME, 'find_by_name.cs');
+
+        expect(script.render({ name: 'Cube', limit: 3, includeInactive: true })).toContain(
+            '.Take(3)\n    .Select(go => go.name + null)'
+        );
+    });
+
+    it('should reject missing, mistyped and unknown arguments', () => {
+        const script = EditorScript.parse(FIND_BY_NAME, 'find_by_name.cs');
+
+        expect(() => script.render({})).toThrow(/name: Required/);
+        expect(() => script.render({ name: 'Cube', limit: 1.5 })).toThrow(/limit: Expected integer/);
+        expect(() => script.render({ name: 'Cube', includeInactive: 'yes' })).toThrow(/includeInactive: Expected boolean/);
+        expect(() => script.render({ name: 'Cube', colour: 'red' })).toThrow(/unknown argument colour/);
+    });
+
+    it('should reject invalid templates', () => {
+        expect(() => EditorScript.parse('// @param a string\nreturn {{b}};', 'a.cs')).toThrow(
+            /placeholder \{\{b\}\} has no @param/
+        );
+        expect(() => EditorScript.parse('// @param a vector3\nreturn {{a}};', 'a.cs')).toThrow(/unknown type vector3/);
+        expect(() => EditorScript.parse('// @param a int = many\nreturn {{a}};', 'a.cs')).toThrow(/not a valid int/);
+        expect(() => EditorScript.parse('// @description nothing\n', 'a.cs')).toThrow(EditorScriptError);
+        expect(() => EditorScript.parse('return 1;', 'not a name.cs')).toThrow(/not a valid script name/);
+    });
+
+    describe('loadEditorScripts', () => {
+        const tempDirs: string[] = [];
+
+        afterEach(() => {
+            for (const dir of tempDirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+        });
+
+        function scriptDir(files: Record<string, string>): string {
+            const dir = mkdtempSync(path.join(tmpdir(), 'unity-mcp-scripts-'));
+            tempDirs.push(dir);
+            for (const [name, contents] of Object.entries(files)) {
+                writeFileSync(path.join(dir, name), contents);
+            }
+            return dir;
+        }
+
+        it('should load .cs files, skip invalid ones and let later directories override', async () => {
+            const builtIn = scriptDir({
+                'ping.cs': '// @description Built-in ping\nreturn "pong";',
+                'count.cs': '// @description Count\nreturn 1;',
+                'README.md': 'not a script',
+            });
+            const custom = scriptDir({
+                'ping.cs': '// @description Custom ping\nreturn "PONG";',
+                'broken.cs': '// @param x string\nreturn {{y}};',
+            });
+
+            const scripts = await loadEditorScripts([builtIn, custom]);
+
+            expect(scripts.map((script) => [script.name, script.description])).toEqual([
+                ['count', 'Count'],
+                ['ping', 'Custom ping'],
+            ]);
+        });
+    });
+});
@@ -0,0 +1,251 @@
+import fs from "fs/promises";
+import path from "path";
+import { z } from "zod";
+
+export const PARAMETER_TYPES = ["string", "int", "float", "bool"] as const;
+
+export type ParameterType = (typeof PARAMETER_TYPES)[number];
+
+export type ParameterValue = string | number | boolean;
+
+export interface EditorScriptParameter {
+  name: string;
+  type: ParameterType;
+  required: boolean;
+  /** Used when the argument is omitted; optional parameters without one render as `null`. */
+  defaultValue?: ParameterValue;
+  description: string;
+}
+
+export class EditorScriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EditorScriptError";
+  }
+}
+
+// Script names double as MCP prompt names and resource paths
+const SCRIPT_NAME = /^[A-Za-z][\w-]*$/;
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const METADATA_LINE = /^\/\/\s*@(\w+)\s*(.*)$/;
+// `@param name type[?] [= default] description`
+const PARAM_SPEC = /^(\w+)\s+(\w+)(\?)?(?:\s*=\s*("(?:[^"\\]|\\.)*"|\S+))?\s*(.*)$/;
+
+/**
+ * A C# template from the script library. The file starts with `// @` metadata
+ * lines, followed by the code with `{{name}}` placeholders:
+ *
+ *     // @description Find GameObjects with missing scripts
+ *     // @mode snippet
+ *     // @param root string? Only search below this GameObject
+ *     // @param includeInactive bool = true Also search inactive objects
+ *
+ * Arguments are validated against the declared types and rendered as C#
+ * literals, so a string argument can never inject code.
+ */
+export class EditorScript {
+  private readonly argumentsSchema: z.ZodObject<Record<string, z.ZodTypeAny>>;
+
+  constructor(
+    public readonly name: string,
+    public readonly description: string,
+    public readonly parameters: EditorScriptParameter[],
+    /** How execute_editor_command should treat the rendered code. */
+    public readonly mode: "class" | "snippet",
+    public readonly template: string,
+    public readonly filePath?: string,
+  ) {
+    this.argumentsSchema = z
+      .object(Object.fromEntries(parameters.map((parameter) => [parameter.name, valueSchema(parameter)])))
+      .strict();
+  }
+
+  /** Parse a template file's contents; the script is named after the file. */
+  public static parse(source: string, filePath: string): EditorScript {
+    const name = path.basename(filePath, path.extname(filePath));
+    if (!SCRIPT_NAME.test(name)) {
+      throw new EditorScriptError(`${filePath}: "${name}" is not a valid script name (letters, digits, _ and -)`);
+    }
+
+    const lines = source.split(/\r?\n/);
+    let description = "";
+    let mode: "class" | "snippet" = "class";
+    const parameters: EditorScriptParameter[] = [];
+
+    let bodyStart = 0;
+    for (; bodyStart < lines.length; bodyStart++) {
+      const match = METADATA_LINE.exec(lines[bodyStart].trim());
+      if (!match) break;
+      const [, key, value] = match;
+      switch (key) {
+        case "description":
+          description = description ? `${description} ${value.trim()}` : value.trim();
+          break;
+        case "mode":
+          if (value.trim() !== "class" && value.trim() !== "snippet") {
+            throw new EditorScriptError(`${filePath}:${bodyStart + 1}: @mode must be class or snippet`);
+          }
+          mode = value.trim() as "class" | "snippet";
+          break;
+        case "param":
+          parameters.push(parseParameter(value.trim(), `${filePath}:${bodyStart + 1}`));
+          break;
+        default:
+          throw new EditorScriptError(`${filePath}:${bodyStart + 1}: unknown metadata @${key}`);
+      }
+    }
+
+    const template = lines.slice(bodyStart).join("\n").trim();
+    if (template.length === 0) {
+      throw new EditorScriptError(`${filePath}: the script has no code`);
+    }
+
+    const declared = new Set<string>();
+    for (const parameter of parameters) {
+      if (declared.has(parameter.name)) {
+        throw new EditorScriptError(`${filePath}: parameter ${parameter.name} is declared twice`);
+      }
+      declared.add(parameter.name);
+    }
+    for (const [, placeholder] of template.matchAll(PLACEHOLDER)) {
+      if (!declared.has(placeholder)) {
+        throw new EditorScriptError(`${filePath}: placeholder {{${placeholder}}} has no @param`);
+      }
+    }
+
+    return new EditorScript(name, description, parameters, mode, template, filePath);
+  }
+
+  /**
+   * Validate the arguments and substitute them into the template.
+   * Throws EditorScriptError listing every invalid argument.
+   */
+  public render(args: Record<string, unknown> = {}): string {
+    const result = this.argumentsSchema.safeParse(args);
+    if (!result.success) {
+      const issues = result.error.issues.map((issue) =>
+        issue.code === "unrecognized_keys"
+          ? `unknown argument${issue.keys.length === 1 ? "" : "s"} ${issue.keys.join(", ")}`
+          : `${issue.path.join(".")}: ${issue.message}`,
+      );
+      throw new EditorScriptError(`Invalid arguments for script ${this.name}: ${issues.join("; ")}`);
+    }
+
+    const values = result.data as Record<string, ParameterValue | undefined>;
+    return this.template.replace(PLACEHOLDER, (_, name: string) => {
+      const parameter = this.parameters.find((candidate) => candidate.name === name)!;
+      return toCSharpLiteral(parameter.type, values[name] ?? parameter.defaultValue);
+    });
+  }
+
+  /** One-line summary such as `find_missing_scripts(root?: string, includeInactive: bool = true)`. */
+  public signature(): string {
+    const parameters = this.parameters.map((parameter) => {
+      const optional = parameter.required ? "" : "?";
+      const defaultValue = parameter.defaultValue === undefined ? "" : ` = ${JSON.stringify(parameter.defaultValue)}`;
+      return `${parameter.name}${optional}: ${parameter.type}${defaultValue}`;
+    });
+    return `${this.name}(${parameters.join(", ")})`;
+  }
+}
+
+function parseParameter(spec: string, location: string): EditorScriptParameter {
+  const match = PARAM_SPEC.exec(spec);
+  if (!match) {
+    throw new EditorScriptError(`${location}: expected "@param name type[?] [= default] description"`);
+  }
+  const [, name, type, optional, rawDefault, description] = match;
+  if (!(PARAMETER_TYPES as readonly string[]).includes(type)) {
+    throw new EditorScriptError(`${location}: unknown type ${type}, expected one of ${PARAMETER_TYPES.join(", ")}`);
+  }
+
+  const parameter: EditorScriptParameter = {
+    name,
+    type: type as ParameterType,
+    required: optional === undefined && rawDefault === undefined,
+    description: description.trim(),
+  };
+  if (rawDefault !== undefined) {
+    const defaultValue = parseDefault(rawDefault);
+    if (!valueSchema({ ...parameter, required: true }).safeParse(defaultValue).success) {
+      throw new EditorScriptError(`${location}: default ${rawDefault} is not a valid ${type}`);
+    }
+    parameter.defaultValue = defaultValue;
+  }
+  return parameter;
+}
+
+function parseDefault(raw: string): ParameterValue {
+  if (raw.startsWith('"')) return JSON.parse(raw);
+  if (raw === "true" || raw === "false") return raw === "true";
+  const number = Number(raw);
+  return Number.isNaN(number) ? raw : number;
+}
+
+function valueSchema(parameter: EditorScriptParameter): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+  switch (parameter.type) {
+    case "string":
+      schema = z.string();
+      break;
+    case "int":
+      schema = z.number().int().min(-2147483648).max(2147483647);
+      break;
+    case "float":
+      schema = z.number().finite();
+      break;
+    case "bool":
+      schema = z.boolean();
+      break;
+  }
+  return parameter.required ? schema : schema.optional();
+}
+
+function toCSharpLiteral(type: ParameterType, value: ParameterValue | undefined): string {
+  if (value === undefined) return "null";
+  switch (type) {
+    case "string":
+      return `"${String(value).replace(/[\\"\0\n\r\t]/g, (char) => CSHARP_ESCAPES[char])}"`;
+    case "float":
+      return `${value}f`;
+    default:
+      return String(value);
+  }
+}
+
+const CSHARP_ESCAPES: Record<string, string> = {
+  "\\": "\\\\",
+  '"': '\\"',
+  "\0": "\\0",
+  "\n": "\\n",
+  "\r": "\\r",
+  "\t": "\\t",
+};
+
+/**
+ * Load every `.cs` template in the directories, later directories overriding
+ * scripts of the same name. Invalid templates are reported and skipped.
+ */
+export async function loadEditorScripts(directories: string[]): Promise<EditorScript[]> {
+  const scripts = new Map<string, EditorScript>();
+  for (const directory of directories) {
+    let files: string[];
+    try {
+      files = (await fs.readdir(directory)).filter((file) => file.endsWith(".cs")).sort();
+    } catch (error) {
+      console.error(`[Unity MCP] Error loading editor scripts from ${directory}:`, error);
+      continue;
+    }
+
+    for (const file of files) {
+      const filePath = path.join(directory, file);
+      try {
+        const script = EditorScript.parse(await fs.readFile(filePath, "utf8"), filePath);
+        scripts.set(script.name, script);
+      } catch (error) {
+        console.error(`[Unity MCP] Skipping editor script: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+  return [...scripts.values()];
+}
@@ -0,0 +1,16 @@
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+import { EditorScript, loadEditorScripts } from "./EditorScript.js";
+
+export * from "./EditorScript.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Scripts shipped with the server, relative to the built code
+const builtInScriptDir = path.join(__dirname, "templates");
+
+/** The built-in scripts plus those in scriptsDir, which override built-ins of the same name. */
+export async function loadScriptLibrary(scriptsDir?: string): Promise<EditorScript[]> {
+  return loadEditorScripts(scriptsDir ? [builtInScriptDir, path.resolve(scriptsDir)] : [builtInScriptDir]);
+}
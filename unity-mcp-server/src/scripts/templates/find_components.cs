@@ -0,0 +1,25 @@
+// @description List the GameObjects in the open scenes that have a component of the given type.
+// @mode snippet
+// @param typeName string Component type name, e.g. Rigidbody or VRC.SDK3.Components.VRCPickup
+// @param limit int = 100 Maximum number of GameObjects to return
+using System.Reflection;
+
+string typeName = {{typeName}};
+Type type = AppDomain.CurrentDomain.GetAssemblies()
+    .SelectMany(assembly =>
+    {
+        try { return assembly.GetTypes(); }
+        catch (ReflectionTypeLoadException e) { return e.Types.Where(t => t != null).ToArray(); }
+    })
+    .FirstOrDefault(t => typeof(Component).IsAssignableFrom(t) && (t.FullName == typeName || t.Name == typeName));
+if (type == null)
+{
+    throw new ArgumentException("Component type " + typeName + " not found");
+}
+
+return Resources.FindObjectsOfTypeAll(type)
+    .Cast<Component>()
+    .Where(component => component.gameObject.scene.IsValid())
+    .Take({{limit}})
+    .Select(component => component.gameObject.name)
+    .ToList();
@@ -0,0 +1,25 @@
+// @description List GameObjects in the open scenes that have components with a missing script.
+// @mode snippet
+// @param root string? Only search this GameObject and its children; the whole scene when omitted
+// @param includeInactive bool = true Also search inactive GameObjects
+string rootName = {{root}};
+IEnumerable<GameObject> candidates = Resources.FindObjectsOfTypeAll<GameObject>().Where(go => go.scene.IsValid());
+if (rootName != null)
+{
+    GameObject root = GameObject.Find(rootName);
+    if (root == null)
+    {
+        throw new ArgumentException("GameObject " + rootName + " not found");
+    }
+    candidates = root.GetComponentsInChildren<Transform>(true).Select(t => t.gameObject);
+}
+
+return candidates
+    .Where(go => {{includeInactive}} || go.activeInHierarchy)
+    .Where(go => GameObjectUtility.GetMonoBehavioursWithMissingScriptCount(go) > 0)
+    .Select(go => new
+    {
+        path = string.Join("/", go.GetComponentsInParent<Transform>(true).Reverse().Select(t => t.name).ToArray()),
+        missing = GameObjectUtility.GetMonoBehavioursWithMissingScriptCount(go),
+    })
+    .ToList();
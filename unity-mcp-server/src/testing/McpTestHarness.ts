@@ -0,0 +1,127 @@
+import { execFile } from "child_process";
+import { cp, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { promisify } from "util";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { getDefaultEnvironment, StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { getFreePort, MockUnityEditor, MockUnityEditorOptions } from "./MockUnityEditor.js";
+
+const packageDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+
+let buildDir: Promise<string> | null = null;
+
+/**
+ * Compile the server into a temporary directory once per test process, so the
+ * harness runs the same JavaScript `npm run build` produces without touching build/.
+ */
+function buildServer(): Promise<string> {
+  buildDir ??= (async () => {
+    const outDir = await mkdtemp(path.join(tmpdir(), "unity-mcp-e2e-"));
+    const tsc = path.join(packageDir, "node_modules", "typescript", "bin", "tsc");
+    await promisify(execFile)(process.execPath, [tsc, "--outDir", outDir], { cwd: packageDir });
+    for (const directory of [path.join("resources", "text"), path.join("scripts", "templates")]) {
+      await cp(path.join(packageDir, "src", directory), path.join(outDir, directory), { recursive: true });
+    }
+    return outDir;
+  })();
+  return buildDir;
+}
+
+/** Remove the compiled server; call from afterAll of the last suite using the harness. */
+export async function removeServerBuild(): Promise<void> {
+  if (!buildDir) return;
+  const dir = await buildDir;
+  buildDir = null;
+  await rm(dir, { recursive: true, force: true });
+}
+
+export interface McpTestHarnessOptions {
+  /** Extra UNITY_MCP_* settings, e.g. `{ UNITY_MCP_COMMAND_TIMEOUT_SECONDS: "1" }`. */
+  env?: Record<string, string>;
+}
+
+/**
+ * Runs the real server as a child process speaking MCP over stdio, with an MCP
+ * client attached and free ports for the Unity WebSocket and health servers.
+ * Pair it with MockUnityEditor to exercise the whole request path.
+ */
+export class McpTestHarness {
+  /** Everything the server wrote to stderr, for diagnosing failures. */
+  public stderr = "";
+
+  private constructor(
+    public readonly client: Client,
+    private readonly transport: StdioClientTransport,
+    public readonly port: number,
+    public readonly healthPort: number,
+    public readonly authToken: string,
+    /** Audit log of executed commands, separate for every server started. */
+    public readonly auditLogFile: string,
+  ) {}
+
+  public static async start(options: McpTestHarnessOptions = {}): Promise<McpTestHarness> {
+    const outDir = await buildServer();
+    const port = await getFreePort();
+    const healthPort = await getFreePort();
+    const authToken = "e2e-test-token-0123456789";
+    const auditLogFile = path.join(outDir, `audit-${port}.jsonl`);
+
+    const transport = new StdioClientTransport({
+      command: process.execPath,
+      args: [path.join(outDir, "index.js")],
+      env: {
+        ...getDefaultEnvironment(),
+        UNITY_MCP_PORT: String(port),
+        UNITY_MCP_HEALTH_PORT: String(healthPort),
+        UNITY_MCP_AUTH_TOKEN: authToken,
+        UNITY_MCP_CONNECTION_WAIT_SECONDS: "2",
+        UNITY_MCP_AUDIT_LOG_FILE: auditLogFile,
+        ...options.env,
+      },
+      stderr: "pipe",
+    });
+    const client = new Client({ name: "unity-mcp-e2e", version: "0.0.0" });
+    const harness = new McpTestHarness(client, transport, port, healthPort, authToken, auditLogFile);
+    transport.stderr?.on("data", (chunk: Buffer) => {
+      harness.stderr += chunk.toString();
+    });
+
+    await client.connect(transport);
+    await harness.waitForLog("WebSocket server is listening");
+    return harness;
+  }
+
+  /** A mock editor pointed at this server with the right token. Call connect() on it. */
+  public createEditor(options: Partial<MockUnityEditorOptions> = {}): MockUnityEditor {
+    return new MockUnityEditor({ url: `ws://127.0.0.1:${this.port}`, token: this.authToken, ...options });
+  }
+
+  /** Call a tool and return its first text content along with the error flag. */
+  public async callTool(name: string, args: Record<string, unknown> = {}): Promise<{ text: string; isError: boolean }> {
+    const result = await this.client.callTool({ name, arguments: args });
+    const content = result.content as { type: string; text?: string }[];
+    return { text: content[0]?.text ?? "", isError: result.isError === true };
+  }
+
+  /** Resolves once the server logged a line containing the text. */
+  public async waitForLog(text: string, timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!this.stderr.includes(text)) {
+      if (Date.now() > deadline) {
+        throw new Error(`Server did not log "${text}" within ${timeoutMs} ms. Output:\n${this.stderr}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  public async close(): Promise<void> {
+    // The server does not exit when stdin closes; stop it right away instead of
+    // waiting for the client transport's grace period
+    if (this.transport.pid !== null) {
+      process.kill(this.transport.pid, "SIGTERM");
+    }
+    await this.client.close();
+  }
+}
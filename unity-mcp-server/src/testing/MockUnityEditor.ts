@@ -0,0 +1,310 @@
+import { WebSocket } from "ws";
+import { createServer } from "net";
+import { PROTOCOL_VERSION } from "../communication/protocol.js";
+import { EditorStateChange, LogEntry, ProgressData, WelcomeData } from "../communication/messages.js";
+
+/** Message type the plugin answers each request type with. */
+export const RESPONSE_TYPES: Record<string, string> = {
+  executeEditorCommand: "commandResult",
+  getEditorState: "editorState",
+  getGameObjectDetails: "objectDetails",
+  findGameObjects: "foundGameObjects",
+  takeScreenshot: "screenshot",
+  manipulateScene: "sceneManipulationResult",
+  manageAssets: "assetManagementResult",
+};
+
+/** Payloads the mock answers with unless a test scripts something else. */
+export const DEFAULT_RESPONSES: Record<string, unknown> = {
+  executeEditorCommand: {
+    result: null,
+    logs: [],
+    errors: [],
+    warnings: [],
+    executionSuccess: true,
+  },
+  getEditorState: {
+    activeGameObjects: ["Main Camera", "Directional Light"],
+    selectedObjects: [],
+    playModeState: "Stopped",
+    sceneHierarchy: [
+      { name: "Main Camera", components: ["Transform", "Camera"], children: [] },
+      { name: "Directional Light", components: ["Transform", "Light"], children: [] },
+    ],
+    projectStructure: { scenes: ["Assets/Scenes/SampleScene.unity"], assets: [] },
+  },
+  getGameObjectDetails: {
+    name: "Main Camera",
+    active: true,
+    tag: "MainCamera",
+    layer: "Default",
+    transform: {
+      position: { x: 0, y: 1, z: -10 },
+      rotation: { x: 0, y: 0, z: 0 },
+      scale: { x: 1, y: 1, z: 1 },
+    },
+    components: [{ type: "Camera", data: { fieldOfView: 60 } }],
+  },
+  findGameObjects: {
+    objects: [
+      {
+        name: "Main Camera",
+        path: "Main Camera",
+        instanceId: -1204,
+        active: true,
+        tag: "MainCamera",
+        layer: "Default",
+        components: ["Transform", "Camera"],
+      },
+    ],
+    total: 1,
+  },
+  takeScreenshot: { base64: "iVBORw0KGgo=", format: "png" },
+  manipulateScene: { message: "Done", instanceId: 1234 },
+  manageAssets: { message: "Done", count: 0, results: [] },
+};
+
+/** A request the mock received from the server. */
+export interface MockRequest {
+  type: string;
+  requestId: string;
+  data: any;
+}
+
+/**
+ * How the mock answers a request:
+ * - `data`: reply with the matching result message carrying this payload
+ *   (use `{ error }` for a failure inside Unity)
+ * - `raw`: send this message verbatim, e.g. one that fails schema validation
+ * - `disconnect`: close the socket instead of replying
+ * - `ignore`: never reply, so the request times out
+ *
+ * `delayMs` postpones the reply or disconnect.
+ */
+export type MockResponse =
+  | { data: unknown; delayMs?: number }
+  | { raw: unknown; delayMs?: number }
+  | { disconnect: true; code?: number; delayMs?: number }
+  | { ignore: true };
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+export interface MockUnityEditorOptions {
+  /** WebSocket URL of the server, e.g. `ws://127.0.0.1:8080`. */
+  url: string;
+  /** Sent as `token` in the hello message. */
+  token?: string;
+  projectName?: string;
+  projectPath?: string;
+  unityVersion?: string;
+  platform?: string;
+  protocolVersion?: number;
+  /** Request types declared in hello; defaults to every type the plugin handles. */
+  messageTypes?: string[];
+  /** Leave the project, Unity version and platform out of hello, like plugins predating them. */
+  anonymous?: boolean;
+}
+
+/**
+ * A scriptable stand-in for the Unity plugin. It connects to UnityConnection
+ * over a real WebSocket, performs the hello handshake and answers each request
+ * type with a canned payload, or whatever a test scripted through respond().
+ */
+export class MockUnityEditor {
+  /** Every request received, in order, including `cancel` messages. */
+  public readonly requests: MockRequest[] = [];
+  public welcome: WelcomeData | null = null;
+  /** The `{ code, message }` of the last error message sent by the server. */
+  public lastError: { code: string; message: string } | null = null;
+
+  private socket: WebSocket | null = null;
+  private handlers = new Map<string, MockHandler>();
+  private waiters: { type: string; resolve: (request: MockRequest) => void }[] = [];
+
+  constructor(private readonly options: MockUnityEditorOptions) {}
+
+  public get isConnected(): boolean {
+    return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Script the answer to a request type. A handler is called for every request
+   * of that type; a plain response is used for all of them.
+   */
+  public respond(type: string, response: MockResponse | MockHandler): this {
+    this.handlers.set(type, typeof response === "function" ? response : () => response);
+    return this;
+  }
+
+  /** Script the answer to the next request of a type only, then fall back to the previous behaviour. */
+  public respondOnce(type: string, response: MockResponse | MockHandler): this {
+    const previous = this.handlers.get(type);
+    this.handlers.set(type, (request) => {
+      if (previous) this.handlers.set(type, previous);
+      else this.handlers.delete(type);
+      return typeof response === "function" ? response(request) : response;
+    });
+    return this;
+  }
+
+  /**
+   * Connect and send hello. Resolves with the welcome message, rejects if the
+   * server closes the connection instead (e.g. a wrong token).
+   */
+  public connect(): Promise<WelcomeData> {
+    const socket = new WebSocket(this.options.url);
+    this.socket = socket;
+
+    return new Promise<WelcomeData>((resolve, reject) => {
+      socket.on("open", () => {
+        this.sendMessage({
+          type: "hello",
+          data: {
+            version: "mock",
+            protocolVersion: this.options.protocolVersion ?? PROTOCOL_VERSION,
+            messageTypes: this.options.messageTypes ?? [...Object.keys(RESPONSE_TYPES), "cancel"],
+            ...(this.options.anonymous
+              ? {}
+              : {
+                  unityVersion: this.options.unityVersion ?? "2022.3.22f1",
+                  platform: this.options.platform ?? "LinuxEditor",
+                  projectPath: this.options.projectPath ?? "/projects/MockProject",
+                  projectName: this.options.projectName ?? "MockProject",
+                }),
+            token: this.options.token,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      });
+
+      socket.on("message", (raw: Buffer) => {
+        const message = JSON.parse(raw.toString());
+        if (message.type === "welcome") {
+          this.welcome = message.data;
+          resolve(message.data);
+        } else {
+          this.handleMessage(message);
+        }
+      });
+
+      socket.on("close", (code: number, reason: Buffer) => {
+        if (this.socket === socket) this.socket = null;
+        reject(new Error(`Connection closed during handshake (${code} ${reason.toString()})`));
+      });
+      socket.on("error", reject);
+    });
+  }
+
+  /** Resolves with the next request of a type received after this call. */
+  public waitForRequest(type: string, timeoutMs = 5000): Promise<MockRequest> {
+    return new Promise<MockRequest>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((waiter) => waiter.resolve !== done);
+        reject(new Error(`No ${type} request received within ${timeoutMs} ms`));
+      }, timeoutMs);
+      const done = (request: MockRequest) => {
+        clearTimeout(timer);
+        resolve(request);
+      };
+      this.waiters.push({ type, resolve: done });
+    });
+  }
+
+  /** Forward a Unity console entry, as the plugin does for Debug.Log. */
+  public sendLog(entry: Partial<LogEntry> & { message: string }): void {
+    this.sendMessage({
+      type: "log",
+      data: {
+        stackTrace: "",
+        logType: "Log",
+        timestamp: new Date().toISOString(),
+        ...entry,
+      },
+    });
+  }
+
+  /** Report progress on a request, as the plugin does during long operations. */
+  public sendProgress(requestId: string, progress: ProgressData): void {
+    this.sendMessage({ type: "progress", requestId, data: progress });
+  }
+
+  /** Push part of the editor state, as the plugin does when the scene, selection or play mode changes. */
+  public sendStateChange(change: EditorStateChange): void {
+    this.sendMessage({ type: "editorStateChanged", data: change });
+  }
+
+  /** Send any message, valid or not. */
+  public sendMessage(message: unknown): void {
+    this.socket?.send(typeof message === "string" ? message : JSON.stringify(message));
+  }
+
+  /** Close the socket the way a domain reload or editor shutdown would. Resolves once closed. */
+  public disconnect(code = 1001): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    if (!socket || socket.readyState === WebSocket.CLOSED) return Promise.resolve();
+
+    return new Promise<void>((resolve) => {
+      socket.once("close", () => resolve());
+      socket.close(code);
+    });
+  }
+
+  private handleMessage(message: { type: string; requestId?: string; data?: any }) {
+    if (message.type === "error") {
+      this.lastError = message.data;
+      return;
+    }
+    if (message.type === "pong" || message.requestId === undefined) return;
+
+    const request: MockRequest = { type: message.type, requestId: message.requestId, data: message.data };
+    this.requests.push(request);
+    const waiter = this.waiters.find((candidate) => candidate.type === request.type);
+    if (waiter) {
+      this.waiters.splice(this.waiters.indexOf(waiter), 1);
+      waiter.resolve(request);
+    }
+
+    // Cancellations are only recorded; a scripted response is still sent
+    if (request.type !== "cancel") {
+      void this.answer(request);
+    }
+  }
+
+  private async answer(request: MockRequest) {
+    const handler = this.handlers.get(request.type);
+    const response: MockResponse = handler
+      ? await handler(request)
+      : { data: DEFAULT_RESPONSES[request.type] ?? { error: `Unknown request type: ${request.type}` } };
+
+    if ("ignore" in response) return;
+    if (response.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, response.delayMs));
+    }
+
+    if ("disconnect" in response) {
+      await this.disconnect(response.code);
+    } else if ("raw" in response) {
+      this.sendMessage(response.raw);
+    } else {
+      this.sendMessage({
+        type: RESPONSE_TYPES[request.type] ?? "commandResult",
+        requestId: request.requestId,
+        data: response.data,
+      });
+    }
+  }
+}
+
+/** A TCP port nothing is listening on, for servers started by tests. */
+export function getFreePort(): Promise<number> {
+  return new Promise<number>((resolve, reject) => {
+    const server = createServer();
+    server.unref();
+    server.on("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      server.close(() => resolve(typeof address === "object" && address ? address.port : 0));
+    });
+  });
+}
@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpTestHarness, removeServerBuild } from './McpTestHarness.js';
+import { MockUnityEditor } from './MockUnityEditor.js';
+
+// Drives the compiled server over stdio with a real MCP client and a mock editor
+describe('MCP server end to end', () => {
+    let harness: McpTestHarness;
+    let editor: MockUnityEditor;
+
+    beforeAll(async () => {
+        harness = await McpTestHarness.start({ env: { UNITY_MCP_QUERY_TIMEOUT_SECONDS: '1' } });
+        editor = harness.createEditor();
+        await editor.connect();
+    }, 120_000);
+
+    afterAll(async () => {
+        await editor?.disconnect();
+        await harness?.close();
+        await removeServerBuild();
+    });
+
+    afterEach(async () => {
+        // Restore the canned responses and the connection between tests
+        editor.respond('takeScreenshot', { data: { base64: 'iVBORw0KGgo=', format: 'png' } });
+        if (!editor.isConnected) await editor.connect();
+    });
+
+    it('should list every tool', async () => {
+        const { tools } = await harness.client.listTools();
+
+        expect(tools.map((tool) => tool.name).sort()).toEqual([
+            'diff_editor_state',
+            'execute_editor_command',
+            'find_objects',
+            'get_editor_state',
+            'get_logs',
+            'get_object_details',
+            'list_editors',
+            'manage_assets',
+            'manipulate_scene',
+            'run_editor_script',
+            'take_screenshot',
+        ]);
+    });
+
+    it('should return the editor state from Unity', async () => {
+        const { text, isError } = await harness.callTool('get_editor_state');
+
+        expect(isError).toBe(false);
+        expect(JSON.parse(text)).toMatchObject({ playModeState: 'Stopped', activeGameObjects: ['Main Camera', 'Directional Light'] });
+    });
+
+    it('should send the code to Unity and return the command result', async () => {
+        editor.respondOnce('executeEditorCommand', {
+            data: { result: 42, logs: ['ran'], errors: [], warnings: [], executionSuccess: true },
+        });
+
+        const { text } = await harness.callTool('execute_editor_command', { code: 'return 42;' });
+
+        expect(editor.requests.at(-1)?.data).toEqual({ code: 'return 42;' });
+        expect(JSON.parse(text)).toMatchObject({ status: 'success', result: { result: 42, logs: ['ran'] } });
+    });
+
+    it('should refuse denylisted code the client cannot approve and audit every command', async () => {
+        const sent = editor.requests.length;
+
+        const { text } = await harness.callTool('execute_editor_command', { code: 'System.Diagnostics.Process.Start("cmd.exe");', mode: 'snippet' });
+
+        expect(editor.requests).toHaveLength(sent);
+        expect(JSON.parse(text)).toMatchObject({ status: 'error', violations: [{ rule: 'process', line: 1 }] });
+
+        const entries = readFileSync(harness.auditLogFile, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+        expect(entries.at(-2)).toMatchObject({ code: 'return 42;', decision: 'allowed', status: 'success', policy: 'confirm' });
+        expect(entries.at(-1)).toMatchObject({ tool: 'execute_editor_command', decision: 'denied' });
+    });
+
+    it('should run library scripts with validated arguments', async () => {
+        editor.respondOnce('executeEditorCommand', {
+            data: { result: ['Player'], logs: [], errors: [], warnings: [], executionSuccess: true },
+        });
+
+        const sent = editor.requests.length;
+        const invalid = await harness.callTool('run_editor_script', { script: 'find_components', arguments: { limit: 5 } });
+        expect(JSON.parse(invalid.text).error).toContain('typeName');
+
+        const { text } = await harness.callTool('run_editor_script', {
+            script: 'find_components',
+            arguments: { typeName: 'Rigidbody', limit: 5 },
+        });
+
+        expect(editor.requests).toHaveLength(sent + 1);
+        expect(editor.requests.at(-1)?.data.code).toContain('string typeName = "Rigidbody";');
+        expect(JSON.parse(text)).toMatchObject({ status: 'success', result: { result: ['Player'] } });
+    });
+
+    it('should expose library scripts as prompts and resources', async () => {
+        const { prompts } = await harness.client.listPrompts();
+        const { resources } = await harness.client.listResources();
+
+        expect(prompts.map((prompt) => prompt.name)).toContain('find_missing_scripts');
+        expect(resources.map((resource) => resource.uri)).toContain('file:///scripts/find_components.cs');
+    });
+
+    it('should notify subscribers when the editor pushes a state change', async () => {
+        const updated = new Promise<string>((resolve) => {
+            harness.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => resolve(notification.params.uri));
+        });
+        await harness.client.subscribeResource({ uri: 'unity://selection' });
+
+        editor.sendStateChange({ playModeState: 'Playing' });
+        editor.sendStateChange({ selectedObjects: ['Chair (3)'] });
+
+        expect(await updated).toBe('unity://selection');
+        const { contents } = await harness.client.readResource({ uri: 'unity://selection' });
+        expect(JSON.parse((contents[0] as { text: string }).text)).toEqual(['Chair (3)']);
+        await harness.client.unsubscribeResource({ uri: 'unity://selection' });
+    });
+
+    it('should address objects with a selector in find_objects, get_object_details and manipulate_scene', async () => {
+        const found = editor.waitForRequest('findGameObjects');
+        const { text } = await harness.callTool('find_objects', { selector: { tag: 'MainCamera' } });
+        expect((await found).data).toEqual({ selector: { tag: 'MainCamera' }, limit: 100 });
+        const [camera] = JSON.parse(text).objects;
+        expect(camera).toMatchObject({ path: 'Main Camera', instanceId: -1204 });
+
+        const details = editor.waitForRequest('getGameObjectDetails');
+        await harness.callTool('get_object_details', { target: { instanceId: camera.instanceId } });
+        expect((await details).data).toEqual({ target: { instanceId: -1204 } });
+
+        const manipulated = editor.waitForRequest('manipulateScene');
+        await harness.callTool('manipulate_scene', { action: 'delete_game_object', target: { path: 'Main Camera' } });
+        expect((await manipulated).data).toEqual({ action: 'delete_game_object', target: { path: 'Main Camera' } });
+    });
+
+    it('should reject empty selectors and manipulations without a target', async () => {
+        const empty = await harness.callTool('find_objects', { selector: {} });
+        const untargeted = await harness.callTool('manipulate_scene', { action: 'set_transform' });
+
+        expect(empty.isError).toBe(true);
+        expect(empty.text).toContain('Give at least one of path, instanceId, name, tag, layer or component');
+        expect(untargeted.isError).toBe(true);
+        expect(untargeted.text).toBe("Error: 'target' or 'name' is required for set_transform action.");
+    });
+
+    it('should send set_properties and flag properties Unity could not set', async () => {
+        editor.respondOnce('manipulateScene', {
+            data: {
+                message: "Set 1 of 2 properties of Light on 'Lamp'",
+                instanceId: 1234,
+                properties: [
+                    { path: 'm_Intensity', status: 'set', value: 2 },
+                    { path: 'm_Type', status: 'error', error: "'Laser' is not one of m_Type's values: Spot, Directional, Point, Area" },
+                ],
+            },
+        });
+        const request = editor.waitForRequest('manipulateScene');
+
+        const { text, isError } = await harness.callTool('manipulate_scene', {
+            action: 'set_properties',
+            target: { path: 'Lamp' },
+            details: { componentName: 'Light', properties: { intensity: 2, m_Type: 'Laser' } },
+        });
+
+        expect((await request).data.details).toEqual({ componentName: 'Light', properties: { intensity: 2, m_Type: 'Laser' } });
+        expect(isError).toBe(true);
+        expect(JSON.parse(text).properties.map((property: { status: string }) => property.status)).toEqual(['set', 'error']);
+    });
+
+    it('should require a component and properties for set_properties', async () => {
+        const { text, isError } = await harness.callTool('manipulate_scene', {
+            action: 'set_properties',
+            target: { path: 'Lamp' },
+            details: { componentName: 'Light', properties: {} },
+        });
+
+        expect(isError).toBe(true);
+        expect(text).toBe("Error: 'details.componentName' and 'details.properties' are required for set_properties action.");
+    });
+
+    it('should report Unity-side errors from scene manipulation', async () => {
+        editor.respondOnce('manipulateScene', { data: { error: 'GameObject not found: Player' } });
+
+        const { text, isError } = await harness.callTool('manipulate_scene', { action: 'delete_game_object', name: 'Player' });
+
+        expect(isError).toBe(true);
+        expect(text).toContain('GameObject not found: Player');
+    });
+
+    it('should return logs forwarded by the editor', async () => {
+        editor.sendLog({ message: 'Build finished', logType: 'Warning' });
+        await harness.waitForLog('Received message: log');
+
+        const { text } = await harness.callTool('get_logs', { types: ['Warning'], fields: ['message'] });
+
+        expect(JSON.parse(text)).toEqual([{ message: 'Build finished' }]);
+    });
+
+    it('should report a timeout when the editor does not answer', async () => {
+        editor.respond('takeScreenshot', { ignore: true });
+
+        const { text } = await harness.callTool('take_screenshot');
+
+        expect(text).toContain('timed out');
+    });
+
+    it('should honor timeoutSeconds and tell the editor to cancel', async () => {
+        editor.respondOnce('executeEditorCommand', { ignore: true });
+        const sent = editor.waitForRequest('executeEditorCommand');
+        const cancelled = editor.waitForRequest('cancel');
+
+        const { text } = await harness.callTool('execute_editor_command', { code: 'Lightmapping.Bake();', timeoutSeconds: 0.2 });
+
+        expect(JSON.parse(text).error).toContain('timed out after 0.2 seconds');
+        expect((await cancelled).requestId).toBe((await sent).requestId);
+    });
+
+    it('should forward MCP request cancellation to the editor', async () => {
+        editor.respondOnce('executeEditorCommand', { ignore: true });
+        const controller = new AbortController();
+        const cancelled = editor.waitForRequest('cancel');
+
+        const call = harness.client.callTool(
+            { name: 'execute_editor_command', arguments: { code: 'AssetDatabase.ImportAsset("Assets/Huge.fbx");' } },
+            undefined,
+            { signal: controller.signal },
+        );
+        const sent = await editor.waitForRequest('executeEditorCommand');
+        controller.abort('user gave up');
+
+        await expect(call).rejects.toThrow();
+        await expect(cancelled).resolves.toMatchObject({ requestId: sent.requestId });
+    });
+
+    it('should forward progress from the editor as MCP progress notifications', async () => {
+        editor.respondOnce('manageAssets', async ({ requestId }) => {
+            editor.sendProgress(requestId, { progress: 0, total: 2, message: 'Refreshing the AssetDatabase' });
+            editor.sendProgress(requestId, { progress: 0, total: 2 });
+            editor.sendProgress(requestId, { progress: 1, total: 2, message: 'Importing 3 assets' });
+            return { data: { message: 'AssetDatabase refreshed' }, delayMs: 50 };
+        });
+        const notifications: unknown[] = [];
+
+        await harness.client.callTool({ name: 'manage_assets', arguments: { action: 'refresh' } }, undefined, {
+            onprogress: (progress) => notifications.push(progress),
+        });
+
+        // Values that do not increase are dropped
+        expect(notifications).toEqual([
+            { progress: 0, total: 2, message: 'Refreshing the AssetDatabase' },
+            { progress: 1, total: 2, message: 'Importing 3 assets' },
+        ]);
+    });
+
+    it('should report a disconnect in the middle of a command', async () => {
+        editor.respondOnce('executeEditorCommand', { disconnect: true, delayMs: 50 });
+
+        const { text } = await harness.callTool('execute_editor_command', { code: 'EditorApplication.Exit(0);' });
+
+        expect(JSON.parse(text).error).toContain('disconnected');
+    });
+
+    it('should fail an asset refresh interrupted by a disconnect instead of replaying it', async () => {
+        editor.respondOnce('manageAssets', { disconnect: true, delayMs: 50 });
+
+        const { text, isError } = await harness.callTool('manage_assets', { action: 'refresh' });
+
+        expect(isError).toBe(true);
+        expect(text).toContain('disconnected');
+    });
+
+    it('should list the connected editor', async () => {
+        const { text } = await harness.callTool('list_editors');
+
+        expect(JSON.parse(text)).toMatchObject([{ projectName: 'MockProject', connected: true, isDefault: true }]);
+    });
+});
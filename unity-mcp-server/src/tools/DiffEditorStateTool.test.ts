@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HierarchyNode, UnityEditorState } from '../communication/messages.js';
+import { diffEditorState, diffEditorStates, EditorStateSnapshots } from './DiffEditorStateTool.js';
+
+function state(sceneHierarchy: HierarchyNode[], assets: string[] = []): UnityEditorState {
+    return {
+        activeGameObjects: [],
+        selectedObjects: [],
+        playModeState: 'Stopped',
+        sceneHierarchy,
+        projectStructure: { scenes: [], assets },
+    };
+}
+
+function node(name: string, instanceId: number, children: HierarchyNode[] = [], components = ['Transform']): HierarchyNode {
+    return { name, instanceId, components, children };
+}
+
+// Create a mock UnityConnection answering getEditorState with the given states in turn
+function createMockUnityConnection(...states: UnityEditorState[]) {
+    const sendRequest = vi.fn();
+    for (const next of states) sendRequest.mockResolvedValueOnce(next);
+    return { sendRequest };
+}
+
+describe('DiffEditorStateTool', () => {
+    const before = state(
+        [
+            node('Environment', 1, [node('Chair', 2, [], ['Transform', 'MeshRenderer']), node('Lamp', 3)]),
+            node('Spawn', 4),
+        ],
+        ['Assets/Chair.prefab', 'Assets/Old.mat']
+    );
+    const after = state(
+        [
+            node('Environment', 1, [node('Armchair', 2, [], ['Transform', 'MeshRenderer', 'BoxCollider'])]),
+            node('Spawn', 4, [node('Lamp', 3)]),
+            node('Mirror', 5, [], ['Transform', 'VRCMirrorReflection']),
+        ],
+        ['Assets/Chair.prefab', 'Assets/New.mat']
+    );
+
+    describe('diffEditorStates', () => {
+        it('should report added, removed, renamed and reparented objects, components and assets', () => {
+            const diff = diffEditorStates(before, after);
+
+            expect(diff.summary).toEqual({
+                objectsAdded: 1,
+                objectsRemoved: 0,
+                objectsRenamed: 1,
+                objectsReparented: 1,
+                componentChanges: 1,
+                assetsAdded: 1,
+                assetsRemoved: 1,
+            });
+            expect(diff.added).toEqual([{ path: 'Mirror', instanceId: 5, components: ['Transform', 'VRCMirrorReflection'] }]);
+            expect(diff.renamed).toEqual([{ path: 'Environment/Armchair', instanceId: 2, from: 'Chair' }]);
+            expect(diff.reparented).toEqual([{ path: 'Spawn/Lamp', instanceId: 3, from: 'Environment', to: 'Spawn' }]);
+            expect(diff.components).toEqual([{ path: 'Environment/Armchair', instanceId: 2, added: ['BoxCollider'], removed: [] }]);
+            expect(diff.assetsAdded).toEqual(['Assets/New.mat']);
+            expect(diff.assetsRemoved).toEqual(['Assets/Old.mat']);
+            expect(diff.removed).toBeUndefined();
+        });
+
+        it('should match objects by path when the plugin sends no instance IDs', () => {
+            const withoutIds = (value: UnityEditorState) =>
+                JSON.parse(JSON.stringify(value, (key, field) => (key === 'instanceId' ? undefined : field)));
+
+            const diff = diffEditorStates(withoutIds(before), withoutIds(after));
+
+            expect(diff.removed?.map((entry) => entry.path)).toEqual(['Environment/Chair', 'Environment/Lamp']);
+            expect(diff.added?.map((entry) => entry.path)).toEqual(['Environment/Armchair', 'Spawn/Lamp', 'Mirror']);
+            expect(diff.renamed).toBeUndefined();
+        });
+    });
+
+    describe('diffEditorState', () => {
+        it('should take a snapshot, then diff it against the current state', async () => {
+            const snapshots = new EditorStateSnapshots();
+            const connection = createMockUnityConnection(before, after);
+            const findSession = vi.fn().mockReturnValue('editor-1');
+
+            const taken = JSON.parse((await diffEditorState({}, snapshots, connection, findSession)).content[0].text);
+            expect(taken).toMatchObject({ snapshotId: 'snapshot-1', editor: 'editor-1' });
+
+            const diff = JSON.parse((await diffEditorState({ from: taken.snapshotId }, snapshots, connection, findSession)).content[0].text);
+            expect(diff).toMatchObject({ from: 'snapshot-1', to: 'snapshot-2', summary: { objectsAdded: 1 } });
+            expect(findSession).toHaveBeenLastCalledWith('editor-1');
+            expect(connection.sendRequest).toHaveBeenLastCalledWith('getEditorState', {}, 60000, { idempotent: true, editor: 'editor-1' });
+        });
+
+        it('should attribute the snapshot to the editor the request was sent to', async () => {
+            const connection = createMockUnityConnection(before);
+            const findSession = vi.fn().mockReturnValueOnce('editor-1').mockReturnValue('editor-2');
+
+            const taken = JSON.parse((await diffEditorState({}, new EditorStateSnapshots(), connection, findSession)).content[0].text);
+
+            expect(taken.editor).toBe('editor-1');
+            expect(connection.sendRequest).toHaveBeenCalledWith('getEditorState', {}, 60000, { idempotent: true, editor: 'editor-1' });
+        });
+
+        it('should not keep a snapshot when no editor can be named', async () => {
+            const snapshots = new EditorStateSnapshots();
+
+            const result = await diffEditorState({}, snapshots, createMockUnityConnection(before), () => undefined);
+            const parsed = JSON.parse(result.content[0].text);
+
+            expect(parsed.status).toBe('error');
+            expect(parsed.error).toContain('Could not tell which editor answered');
+            expect(snapshots.ids()).toEqual([]);
+        });
+
+        it('should report unknown snapshots without contacting Unity', async () => {
+            const connection = createMockUnityConnection();
+
+            const result = await diffEditorState({ from: 'snapshot-9' }, new EditorStateSnapshots(), connection, () => 'editor-1');
+            const parsed = JSON.parse(result.content[0].text);
+
+            expect(parsed.status).toBe('error');
+            expect(parsed.error).toContain('Unknown snapshot "snapshot-9"');
+            expect(connection.sendRequest).not.toHaveBeenCalled();
+        });
+    });
+});
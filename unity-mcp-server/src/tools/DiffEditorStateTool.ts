@@ -0,0 +1,261 @@
+import { UnityRequester } from "../communication/UnityConnection.js";
+import { UnityRequestTimeoutError } from "../communication/errors.js";
+import { UnityEditorState } from "../communication/messages.js";
+import { flattenHierarchy, HierarchyEntry } from "./GetEditorStateTool.js";
+
+/** A cached editor state diff_editor_state can compare against. */
+export interface EditorStateSnapshot {
+  id: string;
+  /** Session id of the editor the state came from. */
+  editor: string;
+  takenAt: Date;
+  state: UnityEditorState;
+}
+
+/** The session id an editor selector resolves to (the default editor without one), if any. */
+export type SessionLookup = (editor: string | undefined) => string | undefined;
+
+// Oldest snapshots are dropped beyond this; every one holds a whole editor state
+const MAX_SNAPSHOTS = 20;
+// Entries beyond this per list are counted in the summary but not listed
+const MAX_LISTED_CHANGES = 200;
+
+/** Snapshots taken by diff_editor_state, shared by all MCP clients of the server. */
+export class EditorStateSnapshots {
+  private snapshots = new Map<string, EditorStateSnapshot>();
+  private nextId = 1;
+
+  public add(editor: string, state: UnityEditorState): EditorStateSnapshot {
+    const snapshot = { id: `snapshot-${this.nextId++}`, editor, takenAt: new Date(), state };
+    this.snapshots.set(snapshot.id, snapshot);
+    if (this.snapshots.size > MAX_SNAPSHOTS) {
+      this.snapshots.delete(this.snapshots.keys().next().value!);
+    }
+    return snapshot;
+  }
+
+  public get(id: string): EditorStateSnapshot | undefined {
+    return this.snapshots.get(id);
+  }
+
+  public ids(): string[] {
+    return [...this.snapshots.keys()];
+  }
+}
+
+interface DiffEditorStateArgs {
+  /** Snapshot to compare from; without it a new snapshot is taken and returned. */
+  from?: string;
+  /** Snapshot to compare to; defaults to the current state. */
+  to?: string;
+  editor?: string;
+}
+
+type ObjectRef = Pick<HierarchyEntry, "path" | "instanceId">;
+
+/**
+ * Changes between two editor states. GameObjects are matched by instance ID
+ * when the plugin sends one, otherwise by hierarchy path (in which case renames
+ * and moves show up as a removal plus an addition).
+ */
+export function diffEditorStates(before: UnityEditorState, after: UnityEditorState) {
+  const beforeObjects = keyObjects(flattenHierarchy(before.sceneHierarchy));
+  const afterObjects = keyObjects(flattenHierarchy(after.sceneHierarchy));
+
+  const added: (ObjectRef & { components: string[] })[] = [];
+  const removed: ObjectRef[] = [];
+  const renamed: (ObjectRef & { from: string })[] = [];
+  const reparented: (ObjectRef & { from: string; to: string })[] = [];
+  const components: (ObjectRef & { added: string[]; removed: string[] })[] = [];
+
+  for (const [key, entry] of afterObjects) {
+    const previous = beforeObjects.get(key);
+    const ref = { path: entry.path, instanceId: entry.instanceId };
+    if (!previous) {
+      added.push({ ...ref, components: entry.components });
+      continue;
+    }
+
+    if (nameOf(previous.path) !== nameOf(entry.path)) {
+      renamed.push({ ...ref, from: nameOf(previous.path) });
+    }
+    if (parentOf(previous.path) !== parentOf(entry.path)) {
+      reparented.push({ ...ref, from: parentOf(previous.path) || "(scene root)", to: parentOf(entry.path) || "(scene root)" });
+    }
+    const componentsAdded = subtract(entry.components, previous.components);
+    const componentsRemoved = subtract(previous.components, entry.components);
+    if (componentsAdded.length > 0 || componentsRemoved.length > 0) {
+      components.push({ ...ref, added: componentsAdded, removed: componentsRemoved });
+    }
+  }
+  for (const [key, entry] of beforeObjects) {
+    if (!afterObjects.has(key)) removed.push({ path: entry.path, instanceId: entry.instanceId });
+  }
+
+  const assetsBefore = before.projectStructure.assets ?? [];
+  const assetsAfter = after.projectStructure.assets ?? [];
+  const assetsAdded = subtract(assetsAfter, assetsBefore);
+  const assetsRemoved = subtract(assetsBefore, assetsAfter);
+
+  return {
+    summary: {
+      objectsAdded: added.length,
+      objectsRemoved: removed.length,
+      objectsRenamed: renamed.length,
+      objectsReparented: reparented.length,
+      componentChanges: components.length,
+      assetsAdded: assetsAdded.length,
+      assetsRemoved: assetsRemoved.length,
+    },
+    playModeState:
+      before.playModeState !== after.playModeState ? { from: before.playModeState, to: after.playModeState } : undefined,
+    added: capped(added),
+    removed: capped(removed),
+    renamed: capped(renamed),
+    reparented: capped(reparented),
+    components: capped(components),
+    assetsAdded: capped(assetsAdded),
+    assetsRemoved: capped(assetsRemoved),
+  };
+}
+
+/**
+ * Take a snapshot of the editor state, or compare two snapshots (or a snapshot
+ * and the current state) and report what changed.
+ */
+export async function diffEditorState(
+  args: DiffEditorStateArgs,
+  snapshots: EditorStateSnapshots,
+  unityConnection: UnityRequester,
+  findSession: SessionLookup,
+  timeoutMs: number = 60_000
+): Promise<{ content: { type: "text"; text: string }[] }> {
+  const from = args.from === undefined ? undefined : snapshots.get(args.from);
+  const to = args.to === undefined ? undefined : snapshots.get(args.to);
+  const missing = [args.from && !from ? args.from : null, args.to && !to ? args.to : null].filter(Boolean);
+  if (missing.length > 0) {
+    return errorResult(
+      `Unknown snapshot ${missing.map((id) => `"${id}"`).join(" and ")}. Available snapshots: ${snapshots.ids().join(", ") || "none"}`
+    );
+  }
+  if (to && !from) {
+    return errorResult("Pass from together with to");
+  }
+
+  try {
+    // The current state of the editor the baseline came from, unless told otherwise
+    const current = to ?? (await takeSnapshot(snapshots, unityConnection, findSession, args.editor ?? from?.editor, timeoutMs));
+    if (!from) {
+      return textResult({
+        snapshotId: current.id,
+        editor: current.editor,
+        takenAt: current.takenAt.toISOString(),
+        message: `Snapshot taken. Call diff_editor_state with from: "${current.id}" to see what changed since.`,
+      });
+    }
+    if (from.editor !== current.editor) {
+      return errorResult(`Snapshots "${from.id}" and "${current.id}" are from different editors (${from.editor}, ${current.editor})`);
+    }
+
+    return textResult({ from: from.id, to: current.id, ...diffEditorStates(from.state, current.state) });
+  } catch (error) {
+    let errorMessage = "Unknown error";
+
+    if (error instanceof UnityRequestTimeoutError) {
+      errorMessage = `Getting editor state timed out after ${error.timeoutMs / 1000
+        } seconds. This may indicate an issue with the Unity Editor.`;
+    } else if (error instanceof Error) {
+      errorMessage = error.message;
+    }
+
+    return errorResult(`Failed to get editor state: ${errorMessage}`);
+  }
+}
+
+async function takeSnapshot(
+  snapshots: EditorStateSnapshots,
+  unityConnection: UnityRequester,
+  findSession: SessionLookup,
+  editor: string | undefined,
+  timeoutMs: number
+): Promise<EditorStateSnapshot> {
+  // Resolved first and the request pinned to it, so another editor becoming the
+  // default meanwhile cannot get the state attributed to it. With no editor
+  // connected yet the request waits for one, which is named afterwards.
+  const session = findSession(editor);
+  const state = await unityConnection.sendRequest<UnityEditorState>("getEditorState", {}, timeoutMs, {
+    idempotent: true,
+    editor: session ?? editor,
+  });
+  const answered = session ?? findSession(editor);
+  if (answered === undefined) {
+    throw new Error(`Could not tell which editor answered${editor ? ` for "${editor}"` : ""}; pass editor explicitly`);
+  }
+  return snapshots.add(answered, state);
+}
+
+/** Entries keyed by instance ID, or by path plus occurrence for objects sharing a path. */
+function keyObjects(entries: HierarchyEntry[]): Map<string, HierarchyEntry> {
+  const keyed = new Map<string, HierarchyEntry>();
+  const occurrences = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.instanceId !== undefined) {
+      keyed.set(`#${entry.instanceId}`, entry);
+      continue;
+    }
+    const occurrence = occurrences.get(entry.path) ?? 0;
+    occurrences.set(entry.path, occurrence + 1);
+    keyed.set(`${entry.path}\u0000${occurrence}`, entry);
+  }
+  return keyed;
+}
+
+function nameOf(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+function parentOf(path: string): string {
+  return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+}
+
+/** Items of `items` not in `other`, counting duplicates (e.g. two AudioSources). */
+function subtract(items: string[], other: string[]): string[] {
+  const remaining = new Map<string, number>();
+  for (const item of other) remaining.set(item, (remaining.get(item) ?? 0) + 1);
+  return items.filter((item) => {
+    const count = remaining.get(item) ?? 0;
+    if (count === 0) return true;
+    remaining.set(item, count - 1);
+    return false;
+  });
+}
+
+/** At most MAX_LISTED_CHANGES items; empty lists are left out of the diff. */
+function capped<T>(items: T[]): T[] | undefined {
+  return items.length > 0 ? items.slice(0, MAX_LISTED_CHANGES) : undefined;
+}
+
+function textResult(data: unknown) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+function errorResult(message: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({
+          error: message,
+          status: "error",
+        }),
+      },
+    ],
+  };
+}
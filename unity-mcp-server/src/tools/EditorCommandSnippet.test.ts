@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { remapDiagnostics, wrapSnippet } from './EditorCommandSnippet.js';
+
+describe('EditorCommandSnippet', () => {
+    describe('wrapSnippet', () => {
+        it('should wrap statements in EditorCommand.Execute and return null', () => {
+            const { code } = wrapSnippet('var go = new GameObject("Cube");\nSelection.activeGameObject = go;');
+
+            expect(code).toContain('using UnityEditor;');
+            expect(code).toContain('public class EditorCommand');
+            expect(code).toContain('public static object Execute()');
+            expect(code).toMatch(/Selection\.activeGameObject = go;\nreturn null;\n}\n}$/);
+        });
+
+        it('should return the value of a single expression', () => {
+            const { code } = wrapSnippet('Selection.objects\n    .Select(o => o.name)\n    .ToArray()');
+
+            expect(code).toContain('return ValueOf(() => Selection.objects\n    .Select(o => o.name)\n    .ToArray());');
+            expect(code).toContain('private static object ValueOf<T>(System.Func<T> func)');
+            expect(code).not.toMatch(/^return null;$/m);
+        });
+
+        it('should evaluate void calls and assignments through the same lambda', () => {
+            expect(wrapSnippet('Debug.Log("x")').code).toContain('return ValueOf(() => Debug.Log("x"));');
+            expect(wrapSnippet('Selection.activeObject = go').code).toContain('return ValueOf(() => Selection.activeObject = go);');
+            expect(wrapSnippet('Debug.Log("x")').code).toContain('private static object ValueOf(System.Action action) { action(); return null; }');
+        });
+
+        it('should return null for a snippet of only usings and comments', () => {
+            for (const snippet of ['using System.IO;', 'using System.IO;\n\n// nothing yet', '']) {
+                const wrapped = wrapSnippet(snippet);
+
+                expect(wrapped.returnLine).toBeNull();
+                expect(wrapped.code).toMatch(/public static object Execute\(\)\n{\n(\/\/ nothing yet\n)?return null;\n}\n}$/);
+            }
+        });
+
+        it('should add VRChat usings only when the editor has the assemblies', () => {
+            expect(wrapSnippet('1').code).not.toContain('VRC.SDKBase');
+
+            const { code } = wrapSnippet('1', ['VRCSDKBase', 'UdonSharp.Runtime']);
+
+            expect(code).toContain('using VRC.SDKBase;');
+            expect(code).toContain('using UdonSharp;');
+        });
+
+        it('should hoist using lines from the top of the snippet', () => {
+            const wrapped = wrapSnippet('using System.IO;\nusing UnityEngine;\n\nFile.Exists("a")');
+            const lines = wrapped.code.split('\n');
+
+            expect(lines.filter((line) => line === 'using UnityEngine;')).toHaveLength(1);
+            expect(lines.indexOf('using System.IO;')).toBeLessThan(lines.indexOf('public class EditorCommand'));
+            expect(wrapped.lineMap[lines.indexOf('using System.IO;')]).toBe(1);
+        });
+
+        it('should hoist using static and alias lines but not using statements', () => {
+            const wrapped = wrapSnippet('using static UnityEngine.Mathf;\nusing Dict = System.Collections.Generic.Dictionary<string, int>;\nusing (var s = File.OpenRead("a")) { s.ReadByte(); }');
+            const lines = wrapped.code.split('\n');
+            const classLine = lines.indexOf('public class EditorCommand');
+
+            expect(lines.indexOf('using static UnityEngine.Mathf;')).toBeLessThan(classLine);
+            expect(lines.indexOf('using Dict = System.Collections.Generic.Dictionary<string, int>;')).toBeLessThan(classLine);
+            expect(lines.indexOf('using (var s = File.OpenRead("a")) { s.ReadByte(); }')).toBeGreaterThan(classLine);
+        });
+
+        it('should ignore semicolons in strings and comments when detecting an expression', () => {
+            expect(wrapSnippet('Debug.Log("a;b")').code).toContain('return ValueOf(() => Debug.Log("a;b"));');
+            expect(wrapSnippet("string.Join(\";\", new[] { ';'.ToString() })").returnLine).not.toBeNull();
+            expect(wrapSnippet('@"C:\\dir\\"".txt;"').returnLine).not.toBeNull();
+            expect(wrapSnippet('/* a; b */\nSelection.count').code).toContain('return ValueOf(() => /* a; b */\nSelection.count);');
+            expect(wrapSnippet('Selection.count // selected; or not').code).toContain('return ValueOf(() => Selection.count); // selected; or not');
+            expect(wrapSnippet('var x = "a"; // no return').returnLine).toBeNull();
+        });
+    });
+
+    describe('remapDiagnostics', () => {
+        it('should map wrapped lines and columns back to the snippet', () => {
+            const wrapped = wrapSnippet('var x = 1;\nFoo bar = null;');
+            const line = wrapped.code.split('\n').indexOf('Foo bar = null;') + 1;
+
+            const [diagnostic] = remapDiagnostics(
+                [{ line, column: 1, code: 'CS0246', message: "The type or namespace name 'Foo' could not be found", severity: 'error' }],
+                wrapped,
+            );
+
+            expect(diagnostic).toMatchObject({ line: 2, column: 1 });
+        });
+
+        it('should undo the prefix of expression snippets', () => {
+            const wrapped = wrapSnippet('Foo.Bar');
+            const line = wrapped.code.split('\n').indexOf('return ValueOf(() => Foo.Bar);') + 1;
+
+            const [diagnostic] = remapDiagnostics(
+                [{ line, column: 'return ValueOf(() => '.length + 1, code: 'CS0103', message: "The name 'Foo' does not exist", severity: 'error' }],
+                wrapped,
+            );
+
+            expect(diagnostic).toMatchObject({ line: 1, column: 1 });
+        });
+
+        it('should attribute template errors to the nearest snippet line and drop template warnings', () => {
+            const wrapped = wrapSnippet('if (true) {\nDebug.Log("x");');
+            const lines = wrapped.code.split('\n');
+            const lastLine = lines.length;
+            const returnLine = lines.indexOf('return null;') + 1;
+
+            const diagnostics = remapDiagnostics(
+                [
+                    { line: lastLine, column: 2, code: 'CS1513', message: '} expected', severity: 'error' },
+                    { line: returnLine, column: 1, code: 'CS0162', message: 'Unreachable code detected', severity: 'warning' },
+                ],
+                wrapped,
+            );
+
+            expect(diagnostics).toEqual([{ line: 2, column: 1, code: 'CS1513', message: '} expected', severity: 'error' }]);
+        });
+    });
+});
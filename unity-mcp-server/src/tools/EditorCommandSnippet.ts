@@ -0,0 +1,182 @@
+import { CompilerDiagnostic } from "../communication/messages.js";
+
+const STANDARD_USINGS = [
+  "System",
+  "System.Collections.Generic",
+  "System.Linq",
+  "UnityEngine",
+  "UnityEditor",
+];
+
+/** Namespaces added when the editor declared the assembly that provides them. */
+const OPTIONAL_USINGS: { assembly: string; namespace: string }[] = [
+  { assembly: "VRCSDKBase", namespace: "VRC.SDKBase" },
+  { assembly: "UdonSharp.Runtime", namespace: "UdonSharp" },
+];
+
+// Expression snippets are evaluated through a lambda so void calls and assignments compile too
+const EXPRESSION_PREFIX = "return ValueOf(() => ";
+const EXPRESSION_SUFFIX = ");";
+
+// `using X;`, `using static X;` and `using Alias = X;`, but not using statements or declarations
+const USING_LINE = /^\s*using\s+(?:static\s+|\w+\s*=\s*)?[\w.]+(?:<[\w.,\s<>]*>)?\s*;\s*$/;
+
+/** A snippet wrapped into a compilable EditorCommand class. */
+export interface WrappedSnippet {
+  code: string;
+  /** For each line of `code`, the 1-based snippet line it came from, or null for template lines. */
+  lineMap: (number | null)[];
+  /** 0-based line of `code` the expression prefix was added to, for expression snippets. */
+  returnLine: number | null;
+}
+
+/**
+ * Wrap bare statements, or a single expression, in an EditorCommand class with
+ * a static Execute method. Snippet lines are copied unindented so compiler
+ * columns stay valid, and `using` lines at the top of the snippet are moved
+ * next to the template's usings.
+ *
+ * A snippet without any `;` outside strings and comments is treated as an
+ * expression and its value returned, or null for a void call. Statements, and
+ * snippets with no code at all, return null unless they return something
+ * themselves.
+ */
+export function wrapSnippet(snippet: string, assemblies: string[] = []): WrappedSnippet {
+  const lines: string[] = [];
+  const lineMap: (number | null)[] = [];
+  const add = (line: string, origin: number | null = null) => {
+    lines.push(line);
+    lineMap.push(origin);
+  };
+
+  const snippetLines = snippet.split(/\r?\n/);
+  let bodyStart = 0;
+  while (
+    bodyStart < snippetLines.length &&
+    (USING_LINE.test(snippetLines[bodyStart]) || snippetLines[bodyStart].trim() === "")
+  ) {
+    bodyStart++;
+  }
+
+  const usings = [
+    ...STANDARD_USINGS,
+    ...OPTIONAL_USINGS.filter(({ assembly }) => assemblies.includes(assembly)).map(({ namespace }) => namespace),
+  ];
+  for (const namespace of usings) {
+    add(`using ${namespace};`);
+  }
+  snippetLines.slice(0, bodyStart).forEach((line, index) => {
+    if (line.trim() !== "" && !usings.includes(line.trim().replace(/^using\s+|\s*;$/g, ""))) {
+      add(line, index + 1);
+    }
+  });
+
+  add("");
+  add("public class EditorCommand");
+  add("{");
+  add("public static object Execute()");
+  add("{");
+
+  const body = snippetLines.slice(bodyStart);
+  const code = maskLiteralsAndComments(body.join("\n")).split("\n");
+  const isEmpty = code.every((line) => line.trim() === "");
+  const isExpression = !isEmpty && !code.some((line) => line.includes(";"));
+  const returnLine = isExpression ? lines.length : null;
+  body.forEach((line, index) => {
+    const origin = bodyStart + index + 1;
+    const isFirst = index === 0;
+    const isLast = index === body.length - 1;
+    // The suffix goes after the expression, before any trailing comment
+    const end = isExpression && isLast ? code[index].trimEnd().length : line.length;
+    const prefix = isExpression && isFirst ? EXPRESSION_PREFIX : "";
+    const suffix = isExpression && isLast ? EXPRESSION_SUFFIX : "";
+    add(`${prefix}${line.slice(0, end)}${suffix}${line.slice(end)}`, origin);
+  });
+  if (!isExpression) {
+    add("return null;");
+  }
+
+  add("}");
+  if (isExpression) {
+    // Overload resolution prefers Func<T> whenever the expression has a value
+    add("private static object ValueOf(System.Action action) { action(); return null; }");
+    add("private static object ValueOf<T>(System.Func<T> func) { return func(); }");
+  }
+  add("}");
+
+  return { code: lines.join("\n"), lineMap, returnLine };
+}
+
+/**
+ * The code with comments and the contents of string and char literals replaced
+ * by spaces, so every other character keeps its line and column.
+ */
+function maskLiteralsAndComments(code: string): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, " ");
+  let result = "";
+  let i = 0;
+  while (i < code.length) {
+    const start = i;
+    if (code.startsWith("//", i)) {
+      const end = code.indexOf("\n", i);
+      i = end === -1 ? code.length : end;
+      result += blank(code.slice(start, i));
+    } else if (code.startsWith("/*", i)) {
+      const end = code.indexOf("*/", i + 2);
+      i = end === -1 ? code.length : end + 2;
+      result += blank(code.slice(start, i));
+    } else if (code[i] === '"' || code[i] === "'") {
+      const quote = code[i];
+      // @"..." and $@"..." escape quotes by doubling them and may span lines
+      const verbatim = quote === '"' && /@\$?$|\$@$/.test(code.slice(Math.max(0, i - 2), i));
+      i++;
+      while (i < code.length) {
+        if (verbatim && code.startsWith('""', i)) i += 2;
+        else if (!verbatim && code[i] === "\\") i += 2;
+        else if (code[i] === quote || (!verbatim && code[i] === "\n")) break;
+        else i++;
+      }
+      i = Math.min(i, code.length);
+      result += quote + blank(code.slice(start + 1, i));
+      if (code[i] === quote) {
+        result += quote;
+        i++;
+      }
+    } else {
+      result += code[i];
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Map diagnostics for wrapped code back to snippet lines. Errors in template
+ * lines (e.g. an unbalanced brace in the snippet) are attributed to the nearest
+ * snippet line; template-only warnings are dropped.
+ */
+export function remapDiagnostics(diagnostics: CompilerDiagnostic[], wrapped: WrappedSnippet): CompilerDiagnostic[] {
+  const result: CompilerDiagnostic[] = [];
+  for (const diagnostic of diagnostics) {
+    const origin = wrapped.lineMap[diagnostic.line - 1];
+    if (origin !== null && origin !== undefined) {
+      const shift = diagnostic.line - 1 === wrapped.returnLine ? EXPRESSION_PREFIX.length : 0;
+      result.push({ ...diagnostic, line: origin, column: Math.max(1, diagnostic.column - shift) });
+      continue;
+    }
+    if (diagnostic.severity === "warning") continue;
+
+    result.push({ ...diagnostic, line: nearestSnippetLine(wrapped.lineMap, diagnostic.line - 1), column: 1 });
+  }
+  return result;
+}
+
+function nearestSnippetLine(lineMap: (number | null)[], index: number): number {
+  for (let distance = 1; distance < lineMap.length; distance++) {
+    const before = lineMap[index - distance];
+    if (before !== null && before !== undefined) return before;
+    const after = lineMap[index + distance];
+    if (after !== null && after !== undefined) return after;
+  }
+  return 1;
+}
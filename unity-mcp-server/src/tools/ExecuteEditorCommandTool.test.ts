@@ -1,10 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { executeEditorCommand, resolveCommandResult, CommandResult } from './ExecuteEditorCommandTool.js';
+import { executeEditorCommand, CommandResult } from './ExecuteEditorCommandTool.js';
+import { UnityRequestTimeoutError } from '../communication/errors.js';
+import { CommandGuard } from '../policy/CommandGuard.js';
+import { CommandPolicy } from '../policy/CommandPolicy.js';
 
 // Create a mock UnityConnection
 function createMockUnityConnection() {
     return {
         sendMessage: vi.fn(),
+        sendRequest: vi.fn(),
         isConnected: vi.fn().mockReturnValue(true),
         getLogBuffer: vi.fn().mockReturnValue([]),
         close: vi.fn(),
@@ -62,13 +66,6 @@ describe('ExecuteEditorCommandTool', () => {
         }
       `;
 
-            const commandPromise = executeEditorCommand(code, mockUnityConnection as any);
-
-            // Verify sendMessage was called
-            expect(mockUnityConnection.sendMessage).toHaveBeenCalledWith('executeEditorCommand', {
-                code: code,
-            });
-
             // Simulate Unity response
             const mockResult: CommandResult = {
                 result: 'Hello World',
@@ -77,11 +74,17 @@ describe('ExecuteEditorCommandTool', () => {
                 warnings: [],
                 executionSuccess: true,
             };
+            mockUnityConnection.sendRequest.mockResolvedValue(mockResult);
 
-            // Resolve the command immediately
-            resolveCommandResult(mockResult);
+            const result = await executeEditorCommand(code, mockUnityConnection as any);
+
+            // Verify the request was sent
+            expect(mockUnityConnection.sendRequest).toHaveBeenCalledWith(
+                'executeEditorCommand',
+                { code: code },
+                60_000
+            );
 
-            const result = await commandPromise;
             const parsed = JSON.parse(result.content[0].text);
 
             expect(parsed.status).toBe('success');
@@ -92,12 +95,12 @@ describe('ExecuteEditorCommandTool', () => {
         it('should handle timeout error', async () => {
             const code = 'public class EditorCommand { public static object Execute() { return null; } }';
 
-            const commandPromise = executeEditorCommand(code, mockUnityConnection as any);
-
-            // Fast-forward time to trigger timeout
-            vi.advanceTimersByTime(60001);
+            // Simulate the connection giving up on the request
+            mockUnityConnection.sendRequest.mockRejectedValue(
+                new UnityRequestTimeoutError('executeEditorCommand', 60_000)
+            );
 
-            const result = await commandPromise;
+            const result = await executeEditorCommand(code, mockUnityConnection as any);
             const parsed = JSON.parse(result.content[0].text);
 
             expect(parsed.status).toBe('error');
@@ -108,8 +111,6 @@ describe('ExecuteEditorCommandTool', () => {
         it('should return command result with logs and warnings', async () => {
             const code = 'public class EditorCommand { public static object Execute() { return 42; } }';
 
-            const commandPromise = executeEditorCommand(code, mockUnityConnection as any);
-
             const mockResult: CommandResult = {
                 result: 42,
                 logs: ['Starting execution', 'Completed'],
@@ -117,30 +118,153 @@ describe('ExecuteEditorCommandTool', () => {
                 warnings: ['Performance warning'],
                 executionSuccess: true,
             };
+            mockUnityConnection.sendRequest.mockResolvedValue(mockResult);
 
-            resolveCommandResult(mockResult);
-
-            const result = await commandPromise;
+            const result = await executeEditorCommand(code, mockUnityConnection as any);
             const parsed = JSON.parse(result.content[0].text);
 
             expect(parsed.status).toBe('success');
             expect(parsed.result.logs).toEqual(['Starting execution', 'Completed']);
             expect(parsed.result.warnings).toEqual(['Performance warning']);
         });
-    });
+        it('should report compiler diagnostics with the offending source lines', async () => {
+            const code = [
+                'using UnityEngine;',
+                'public class EditorCommand {',
+                '    public static object Execute() {',
+                '        Foo bar = new Foo();',
+                '        int unused;',
+                '        return bar',
+                '    }',
+                '}',
+            ].join('\n');
 
-    describe('resolveCommandResult', () => {
-        it('should not throw when called without pending promise', () => {
             const mockResult: CommandResult = {
-                result: 'test',
+                result: null,
                 logs: [],
-                errors: [],
+                errors: ['[UnityMCP] Failed to execute editor command: Compilation failed'],
                 warnings: [],
-                executionSuccess: true,
+                executionSuccess: false,
+                errorDetails: {
+                    message: 'Compilation failed',
+                    stackTrace: '',
+                    type: 'CompilationException',
+                    diagnostics: [
+                        { line: 5, column: 13, code: 'CS0168', message: "The variable 'unused' is declared but never used", severity: 'warning' },
+                        { line: 6, column: 19, code: 'CS1002', message: '; expected', severity: 'error' },
+                        { line: 4, column: 9, code: 'CS0246', message: "The type or namespace name 'Foo' could not be found", severity: 'error' },
+                    ],
+                },
+            };
+            mockUnityConnection.sendRequest.mockResolvedValue(mockResult);
+
+            const result = await executeEditorCommand(code, mockUnityConnection as any);
+            const parsed = JSON.parse(result.content[0].text);
+
+            expect(parsed.status).toBe('error');
+            expect(parsed.error).toBe('C# compilation failed with 2 errors');
+            expect(parsed.diagnostics).toEqual([
+                {
+                    severity: 'error',
+                    code: 'CS0246',
+                    line: 4,
+                    column: 9,
+                    message: "The type or namespace name 'Foo' could not be found",
+                    source: '        Foo bar = new Foo();',
+                },
+                { severity: 'error', code: 'CS1002', line: 6, column: 19, message: '; expected', source: '        return bar' },
+                {
+                    severity: 'warning',
+                    code: 'CS0168',
+                    line: 5,
+                    column: 13,
+                    message: "The variable 'unused' is declared but never used",
+                    source: '        int unused;',
+                },
+            ]);
+        });
+
+        it('should keep returning runtime exceptions as the command result', async () => {
+            const mockResult: CommandResult = {
+                result: null,
+                logs: [],
+                errors: ['NullReferenceException'],
+                warnings: [],
+                executionSuccess: false,
+                errorDetails: { message: 'Object reference not set', stackTrace: '', type: 'NullReferenceException', diagnostics: null },
             };
+            mockUnityConnection.sendRequest.mockResolvedValue(mockResult);
+
+            const result = await executeEditorCommand('code', mockUnityConnection as any);
+            const parsed = JSON.parse(result.content[0].text);
+
+            expect(parsed.status).toBe('success');
+            expect(parsed.result.errorDetails.type).toBe('NullReferenceException');
+        });
+        it('should wrap snippets and report diagnostics against the snippet lines', async () => {
+            const snippet = 'var cube = GameObject.Find("Cube");\ncube.transform.Rotate(0, 45);\nreturn cube.name;';
+            mockUnityConnection.sendRequest.mockImplementation(async (_type: string, data: { code: string }) => {
+                const line = data.code.split('\n').indexOf('cube.transform.Rotate(0, 45);') + 1;
+                return {
+                    result: null,
+                    logs: [],
+                    errors: [],
+                    warnings: [],
+                    executionSuccess: false,
+                    errorDetails: {
+                        message: 'Compilation failed',
+                        stackTrace: '',
+                        type: 'CompilationException',
+                        diagnostics: [
+                            { line, column: 16, code: 'CS1501', message: "No overload for method 'Rotate' takes 2 arguments", severity: 'error' },
+                        ],
+                    },
+                };
+            });
+
+            const result = await executeEditorCommand(snippet, mockUnityConnection as any, 60000, { mode: 'snippet' });
+            const parsed = JSON.parse(result.content[0].text);
+
+            expect(mockUnityConnection.sendRequest.mock.calls[0][1].code).toContain('public class EditorCommand');
+            expect(parsed.diagnostics).toEqual([
+                {
+                    severity: 'error',
+                    code: 'CS1501',
+                    line: 2,
+                    column: 16,
+                    message: "No overload for method 'Rotate' takes 2 arguments",
+                    source: 'cube.transform.Rotate(0, 45);',
+                },
+            ]);
+        });
+
+        it('should refuse code the policy denies without contacting Unity, and audit it', async () => {
+            const guard = new CommandGuard(new CommandPolicy('read-only'));
+            const audit = vi.spyOn(guard, 'audit');
+
+            const result = await executeEditorCommand('System.IO.File.Delete("/etc/hosts");', mockUnityConnection as any, 60000, {
+                mode: 'snippet',
+                guard,
+            });
+            const parsed = JSON.parse(result.content[0].text);
+
+            expect(mockUnityConnection.sendRequest).not.toHaveBeenCalled();
+            expect(parsed.status).toBe('error');
+            expect(parsed.error).toContain('Command refused by the read-only policy');
+            expect(parsed.violations.map((violation: { rule: string }) => violation.rule)).toEqual(['file-write-outside-assets', 'file-write']);
+            expect(audit).toHaveBeenCalledWith(expect.objectContaining({ tool: 'execute_editor_command', decision: 'denied', status: 'error' }));
+        });
+
+        it('should audit allowed commands with their result', async () => {
+            const guard = new CommandGuard(new CommandPolicy('confirm'));
+            const audit = vi.spyOn(guard, 'audit');
+            mockUnityConnection.sendRequest.mockResolvedValue({ result: 3, logs: [], errors: [], warnings: [], executionSuccess: true });
+
+            await executeEditorCommand('return 1 + 2;', mockUnityConnection as any, 60000, { mode: 'snippet', guard });
 
-            // Should not throw
-            expect(() => resolveCommandResult(mockResult)).not.toThrow();
+            expect(audit).toHaveBeenCalledWith(
+                expect.objectContaining({ code: 'return 1 + 2;', decision: 'allowed', status: 'success', result: expect.stringContaining('"result": 3') })
+            );
         });
     });
 });
@@ -1,43 +1,62 @@
-import { UnityConnection } from "../communication/UnityConnection.js";
-import { LogEntry } from "./types.js";
-
-export interface CommandResult {
-  result: any;
-  logs: string[];
-  errors: string[];
-  warnings: string[];
-  executionSuccess: boolean;
-  errorDetails?: {
-    message: string;
-    stackTrace: string;
-    type: string;
-  };
-}
+import { UnityRequester } from "../communication/UnityConnection.js";
+import { UnityRequestTimeoutError } from "../communication/errors.js";
+import { CommandResult, CompilerDiagnostic } from "../communication/messages.js";
+import { CommandCaller, CommandGuard } from "../policy/CommandGuard.js";
+import { remapDiagnostics, wrapSnippet } from "./EditorCommandSnippet.js";
 
-export interface CommandResultHandler {
-  resolve: (value: CommandResult) => void;
-  reject: (reason?: any) => void;
-}
+export type { CommandResult };
 
-// Command state management
-let commandResultPromise: CommandResultHandler | null = null;
-let commandStartTime: number | null = null;
+// Source lines longer than this are cut in diagnostics
+const MAX_SOURCE_EXCERPT = 200;
 
-// Method to resolve the command result - called when results arrive from Unity
-export function resolveCommandResult(result: CommandResult): void {
-  if (commandResultPromise) {
-    commandResultPromise.resolve(result);
-    commandResultPromise = null;
-  }
+/**
+ * Compiler diagnostics with the offending line of the submitted code, errors
+ * first, so the caller can fix its code without echoing all of it back.
+ */
+export function describeDiagnostics(diagnostics: CompilerDiagnostic[], code: string) {
+  const lines = code.split(/\r?\n/);
+  return [...diagnostics]
+    .sort((a, b) => Number(a.severity === "warning") - Number(b.severity === "warning") || a.line - b.line)
+    .map((diagnostic) => {
+      const source = lines[diagnostic.line - 1]?.trimEnd();
+      return {
+        severity: diagnostic.severity,
+        code: diagnostic.code,
+        line: diagnostic.line,
+        column: diagnostic.column,
+        message: diagnostic.message,
+        source:
+          source !== undefined && source.length > MAX_SOURCE_EXCERPT
+            ? `${source.slice(0, MAX_SOURCE_EXCERPT)}...`
+            : source,
+      };
+    });
+}
+
+export interface ExecuteEditorCommandOptions {
+  /**
+   * "class" (default): `code` is a complete file with an EditorCommand class.
+   * "snippet": `code` is bare statements or an expression, wrapped by the server.
+   */
+  mode?: "class" | "snippet";
+  /** Optional assemblies the target editor declared, to pick usings for snippets. */
+  assemblies?: string[];
+  /** Safety policy and audit log applied before the code is sent. */
+  guard?: CommandGuard;
+  caller?: CommandCaller;
 }
 
+type ToolResult = { content: { type: "text"; text: string }[] };
+
 /**
  * Execute arbitrary C# code within the Unity Editor context.
  */
 export async function executeEditorCommand(
   code: string,
-  unityConnection: UnityConnection
-): Promise<{ content: { type: "text"; text: string }[] }> {
+  unityConnection: UnityRequester,
+  timeoutMs: number = 60_000,
+  options: ExecuteEditorCommandOptions = {}
+): Promise<ToolResult> {
   // Validate code parameter
   if (!code || typeof code !== "string" || code.trim().length === 0) {
     return {
@@ -53,37 +72,88 @@ export async function executeEditorCommand(
     };
   }
 
+  const { guard } = options;
+  if (!guard) return sendCommand(code, unityConnection, timeoutMs, options);
+
+  const caller = options.caller ?? { tool: "execute_editor_command" };
+  // The code as written is checked, not the snippet wrapper around it
+  const review = await guard.review(code, caller);
+  const audited = { tool: caller.tool, editor: caller.editor, code, decision: review.decision };
+  const violations = review.violations.length > 0 ? review.violations : undefined;
+
+  if (review.decision === "denied") {
+    const error = `Command refused by the ${guard.policy.mode} policy: ${review.reason}`;
+    guard.audit({ ...audited, violations, durationMs: 0, status: "error", error });
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({ error, status: "error", violations: review.violations }, null, 2),
+        },
+      ],
+    };
+  }
+
+  const startedAt = Date.now();
+  const result = await sendCommand(code, unityConnection, timeoutMs, options);
+  const text = result.content[0].text;
+  const outcome = JSON.parse(text) as { status?: string; error?: string };
+  guard.audit({
+    ...audited,
+    violations,
+    durationMs: Date.now() - startedAt,
+    status: outcome.status === "success" ? "success" : "error",
+    result: text,
+    error: outcome.error,
+  });
+  return result;
+}
+
+async function sendCommand(
+  code: string,
+  unityConnection: UnityRequester,
+  timeoutMs: number,
+  options: ExecuteEditorCommandOptions
+): Promise<ToolResult> {
   try {
     // Set command start time
-    commandStartTime = Date.now();
+    const commandStartTime = Date.now();
 
-    // Send command to Unity
-    unityConnection.sendMessage("executeEditorCommand", {
-      code: code,
-    });
+    const wrapped = options.mode === "snippet" ? wrapSnippet(code, options.assemblies) : null;
 
-    // Wait for result with enhanced timeout handling
-    const timeoutMs = 60_000;
-    const result = await Promise.race([
-      new Promise<CommandResult>((resolve, reject) => {
-        commandResultPromise = { resolve, reject };
-      }),
-      new Promise<never>((_, reject) =>
-        setTimeout(
-          () =>
-            reject(
-              new Error(
-                `Command execution timed out after ${timeoutMs / 1000
-                } seconds. This may indicate a long-running operation or an issue with the Unity Editor.`
-              )
-            ),
-          timeoutMs
-        )
-      ),
-    ]);
+    // Send command to Unity and wait for the matching result
+    const result = await unityConnection.sendRequest<CommandResult>(
+      "executeEditorCommand",
+      { code: wrapped ? wrapped.code : code },
+      timeoutMs
+    );
 
     // Calculate execution time
-    const executionTime = Date.now() - (commandStartTime || 0);
+    const executionTime = Date.now() - commandStartTime;
+
+    const reported = result.errorDetails?.diagnostics;
+    if (!result.executionSuccess && reported && reported.length > 0) {
+      // Line numbers refer to the code as the caller wrote it
+      const diagnostics = wrapped ? remapDiagnostics(reported, wrapped) : reported;
+      const errorCount = diagnostics.filter((diagnostic) => diagnostic.severity === "error").length;
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                error: `C# compilation failed with ${errorCount} error${errorCount === 1 ? "" : "s"}`,
+                status: "error",
+                diagnostics: describeDiagnostics(diagnostics, code),
+                executionTime: `${executionTime}ms`,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
 
     return {
       content: [
@@ -105,13 +175,14 @@ export async function executeEditorCommand(
     // Enhanced error handling with specific error types
     let errorMessage = "Unknown error";
 
-    if (error instanceof Error) {
+    if (error instanceof UnityRequestTimeoutError) {
+      errorMessage = `Command execution timed out after ${error.timeoutMs / 1000
+        } seconds. This may indicate a long-running operation (pass a larger timeoutSeconds) or an issue with the Unity Editor.`;
+    } else if (error instanceof Error) {
       if (error.message.includes("timed out")) {
         errorMessage = error.message;
       } else if (error.message.includes("NullReferenceException")) {
         errorMessage = "The code attempted to access a null object. Please check that all GameObject references exist.";
-      } else if (error.message.includes("CompileError")) {
-        errorMessage = "C# compilation error. Please check the syntax of your code.";
       } else {
         errorMessage = error.message;
       }
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UnityRequestTimeoutError } from '../communication/errors.js';
+import { findObjects } from './FindObjectsTool.js';
+
+const chair = (index: number) => ({
+    name: `Chair (${index})`,
+    path: `Environment/Props/Chair (${index})`,
+    instanceId: -1400 - index,
+    active: true,
+    tag: 'Untagged',
+    layer: 'Default',
+    components: ['Transform', 'MeshRenderer'],
+});
+
+describe('FindObjectsTool', () => {
+    it('should send the selector and limit and return the matches', async () => {
+        const sendRequest = vi.fn().mockResolvedValue({ objects: [chair(1), chair(2)], total: 2 });
+
+        const result = await findObjects({ name: 'Chair*', component: 'MeshRenderer' }, 10, { sendRequest });
+
+        expect(sendRequest).toHaveBeenCalledWith(
+            'findGameObjects',
+            { selector: { name: 'Chair*', component: 'MeshRenderer' }, limit: 10 },
+            30000,
+            { idempotent: true }
+        );
+        const parsed = JSON.parse(result.content[0].text);
+        expect(parsed.total).toBe(2);
+        expect(parsed.objects.map((object: { path: string }) => object.path)).toEqual([
+            'Environment/Props/Chair (1)',
+            'Environment/Props/Chair (2)',
+        ]);
+        expect(parsed.message).toBeUndefined();
+    });
+
+    it('should say when matches were left out by the limit', async () => {
+        const sendRequest = vi.fn().mockResolvedValue({ objects: [chair(1)], total: 40 });
+
+        const result = await findObjects({ name: 'Chair*' }, 1, { sendRequest });
+
+        expect(JSON.parse(result.content[0].text).message).toBe(
+            'Showing 1 of 40 matches. Narrow the selector or raise limit to see the rest.'
+        );
+    });
+
+    it('should return Unity-side errors and timeouts as error results', async () => {
+        const sendRequest = vi
+            .fn()
+            .mockResolvedValueOnce({ error: 'selector is required' })
+            .mockRejectedValueOnce(new UnityRequestTimeoutError('findGameObjects', 5000));
+
+        const failed = JSON.parse((await findObjects({ layer: 'Interactive' }, 100, { sendRequest })).content[0].text);
+        const timedOut = JSON.parse((await findObjects({ layer: 'Interactive' }, 100, { sendRequest })).content[0].text);
+
+        expect(failed).toEqual({ error: 'Failed to find objects: selector is required', status: 'error' });
+        expect(timedOut.error).toBe('Failed to find objects: Finding objects timed out after 5 seconds.');
+    });
+});
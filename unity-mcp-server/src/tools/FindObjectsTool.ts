@@ -0,0 +1,65 @@
+import { UnityRequester } from "../communication/UnityConnection.js";
+import { UnityRequestTimeoutError } from "../communication/errors.js";
+import { FoundGameObjects, ObjectSelector } from "../communication/messages.js";
+
+export const DEFAULT_FIND_LIMIT = 100;
+
+/**
+ * List the GameObjects in the open scenes matching a selector, with the path
+ * and instance ID other tools accept to address exactly one of them.
+ */
+export async function findObjects(
+  selector: ObjectSelector,
+  limit: number = DEFAULT_FIND_LIMIT,
+  unityConnection: UnityRequester,
+  timeoutMs: number = 30000
+): Promise<{ content: { type: "text"; text: string }[] }> {
+  try {
+    const found = await unityConnection.sendRequest<FoundGameObjects>(
+      "findGameObjects",
+      { selector, limit },
+      timeoutMs,
+      { idempotent: true }
+    );
+
+    if (found.error !== undefined) {
+      throw new Error(found.error);
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(
+            {
+              total: found.total,
+              objects: found.objects,
+              message:
+                found.total > found.objects.length
+                  ? `Showing ${found.objects.length} of ${found.total} matches. Narrow the selector or raise limit to see the rest.`
+                  : undefined,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  } catch (error) {
+    let errorMessage = error instanceof Error ? error.message : "Unknown error";
+    if (error instanceof UnityRequestTimeoutError) {
+      errorMessage = `Finding objects timed out after ${error.timeoutMs / 1000} seconds.`;
+    }
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            error: `Failed to find objects: ${errorMessage}`,
+            status: "error",
+          }),
+        },
+      ],
+    };
+  }
+}
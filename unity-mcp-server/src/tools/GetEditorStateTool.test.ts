@@ -1,10 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { getEditorState, resolveUnityEditorState, UnityEditorState } from './GetEditorStateTool.js';
+import { getEditorState, UnityEditorState } from './GetEditorStateTool.js';
+import { UnityRequestTimeoutError } from '../communication/errors.js';
 
 // Create a mock UnityConnection
 function createMockUnityConnection() {
     return {
         sendMessage: vi.fn(),
+        sendRequest: vi.fn(),
         isConnected: vi.fn().mockReturnValue(true),
         getLogBuffer: vi.fn().mockReturnValue([]),
         close: vi.fn(),
@@ -37,26 +39,27 @@ describe('GetEditorStateTool', () => {
         });
 
         it('should accept "Raw" format', async () => {
-            const editorStatePromise = getEditorState('Raw', mockUnityConnection as any);
-
-            // Verify sendMessage was called
-            expect(mockUnityConnection.sendMessage).toHaveBeenCalledWith('getEditorState', {});
-
             // Simulate Unity response
             const mockState: UnityEditorState = {
                 activeGameObjects: ['Player', 'Camera'],
                 selectedObjects: ['Player'],
                 playModeState: 'Stopped',
-                sceneHierarchy: { root: [] },
+                sceneHierarchy: [],
                 projectStructure: {
                     scenes: ['MainScene.unity'],
                     assets: ['Player.prefab'],
                 },
             };
 
-            resolveUnityEditorState(mockState);
+            mockUnityConnection.sendRequest.mockResolvedValue(mockState);
+
+            const result = await getEditorState('Raw', mockUnityConnection as any);
+
+            // Verify the request was sent
+            expect(mockUnityConnection.sendRequest).toHaveBeenCalledWith('getEditorState', {}, 60_000, {
+                idempotent: true,
+            });
 
-            const result = await editorStatePromise;
             const parsed = JSON.parse(result.content[0].text);
 
             expect(parsed.activeGameObjects).toEqual(['Player', 'Camera']);
@@ -65,12 +68,12 @@ describe('GetEditorStateTool', () => {
         });
 
         it('should handle timeout error', async () => {
-            const editorStatePromise = getEditorState('Raw', mockUnityConnection as any);
+            // Simulate the connection giving up on the request
+            mockUnityConnection.sendRequest.mockRejectedValue(
+                new UnityRequestTimeoutError('getEditorState', 60_000)
+            );
 
-            // Fast-forward time to trigger timeout
-            vi.advanceTimersByTime(60001);
-
-            const result = await editorStatePromise;
+            const result = await getEditorState('Raw', mockUnityConnection as any);
             const parsed = JSON.parse(result.content[0].text);
 
             expect(parsed.status).toBe('error');
@@ -79,50 +82,48 @@ describe('GetEditorStateTool', () => {
         });
 
         it('should return complete editor state with all fields', async () => {
-            const editorStatePromise = getEditorState('Raw', mockUnityConnection as any);
-
             const mockState: UnityEditorState = {
                 activeGameObjects: ['GameObject1', 'GameObject2', 'GameObject3'],
                 selectedObjects: ['GameObject1'],
                 playModeState: 'Playing',
-                sceneHierarchy: {
-                    root: [
-                        { name: 'Main Camera', children: [] },
-                        { name: 'Player', children: [{ name: 'Weapon', children: [] }] },
-                    ],
-                },
+                sceneHierarchy: [
+                    { name: 'Main Camera', components: ['Transform', 'Camera'], children: [] },
+                    {
+                        name: 'Player',
+                        components: ['Transform'],
+                        children: [{ name: 'Weapon', components: ['Transform'], children: [] }],
+                    },
+                ],
                 projectStructure: {
                     scenes: ['Scene1.unity', 'Scene2.unity'],
                     assets: ['Prefab1.prefab', 'Material1.mat'],
                 },
             };
 
-            resolveUnityEditorState(mockState);
+            mockUnityConnection.sendRequest.mockResolvedValue(mockState);
 
-            const result = await editorStatePromise;
+            const result = await getEditorState('Raw', mockUnityConnection as any);
             const parsed = JSON.parse(result.content[0].text);
 
             expect(parsed.activeGameObjects).toHaveLength(3);
             expect(parsed.playModeState).toBe('Playing');
-            expect(parsed.sceneHierarchy.root).toHaveLength(2);
+            expect(parsed.sceneHierarchy).toHaveLength(2);
             expect(parsed.projectStructure.scenes).toHaveLength(2);
         });
 
         it('should use default format when not specified', async () => {
             // When format is undefined or empty, it should default to "Raw"
-            const editorStatePromise = getEditorState('Raw', mockUnityConnection as any);
-
             const mockState: UnityEditorState = {
                 activeGameObjects: [],
                 selectedObjects: [],
                 playModeState: 'Stopped',
-                sceneHierarchy: {},
+                sceneHierarchy: [],
                 projectStructure: {},
             };
 
-            resolveUnityEditorState(mockState);
+            mockUnityConnection.sendRequest.mockResolvedValue(mockState);
 
-            const result = await editorStatePromise;
+            const result = await getEditorState('Raw', mockUnityConnection as any);
 
             // Should complete successfully without format error
             expect(result.content[0].type).toBe('text');
@@ -131,18 +132,101 @@ describe('GetEditorStateTool', () => {
         });
     });
 
-    describe('resolveUnityEditorState', () => {
-        it('should not throw when called without pending promise', () => {
-            const mockState: UnityEditorState = {
-                activeGameObjects: [],
-                selectedObjects: [],
-                playModeState: 'Stopped',
-                sceneHierarchy: {},
-                projectStructure: {},
-            };
+    describe('formats', () => {
+        const world: UnityEditorState = {
+            activeGameObjects: ['Environment', 'Props', 'Chair', 'Chair (3)', 'Table', 'VRCWorld'],
+            selectedObjects: ['Chair (3)'],
+            playModeState: 'Stopped',
+            sceneHierarchy: [
+                {
+                    name: 'Environment',
+                    components: ['Transform'],
+                    children: [
+                        {
+                            name: 'Props',
+                            components: ['Transform'],
+                            children: [
+                                { name: 'Chair', components: ['Transform', 'MeshRenderer'], children: [] },
+                                { name: 'Chair (3)', components: ['Transform', 'MeshRenderer'], children: [] },
+                                { name: 'Table', components: ['Transform', 'MeshRenderer'], children: [] },
+                            ],
+                        },
+                    ],
+                },
+                null,
+                { name: 'VRCWorld', components: ['Transform', 'VRCSceneDescriptor'], children: [] },
+            ],
+            projectStructure: {
+                scenes: ['Assets/Scenes/World.unity'],
+                assets: ['Assets/Prefabs/Chair.prefab', 'Assets/Prefabs/Table.prefab', 'Assets/Materials/Wood.mat', 'Assets/Scenes/World.unity'],
+            },
+        };
+
+        async function query(format: string, args: Record<string, unknown> = {}) {
+            mockUnityConnection.sendRequest.mockResolvedValue(world);
+            const result = await getEditorState(format, mockUnityConnection as any, 60_000, args);
+            return JSON.parse(result.content[0].text);
+        }
+
+        it('should summarize counts, root objects and asset groups', async () => {
+            const parsed = await query('Summary');
+
+            expect(parsed.hierarchy).toEqual({
+                objectCount: 6,
+                maxDepth: 2,
+                rootObjectCount: 2,
+                rootObjects: [
+                    { name: 'Environment', childCount: 1 },
+                    { name: 'VRCWorld', childCount: 0 },
+                ],
+            });
+            expect(parsed.assets).toEqual({
+                count: 4,
+                byExtension: { '.prefab': 2, '.mat': 1, '.unity': 1 },
+                byFolder: { 'Assets/Prefabs': 2, 'Assets/Materials': 1, 'Assets/Scenes': 1 },
+            });
+            expect(parsed.selectedObjects).toEqual(['Chair (3)']);
+        });
+
+        it('should filter the hierarchy by path, name and depth', async () => {
+            expect((await query('HierarchyOnly', { maxDepth: 1 })).objects.map((entry: { path: string }) => entry.path)).toEqual([
+                'Environment',
+                'Environment/Props',
+                'VRCWorld',
+            ]);
+
+            const chairs = await query('HierarchyOnly', { path: 'environment/**', name: 'Chair*' });
+            expect(chairs.total).toBe(2);
+            expect(chairs.objects[1]).toEqual({
+                path: 'Environment/Props/Chair (3)',
+                depth: 2,
+                components: ['Transform', 'MeshRenderer'],
+                childCount: 0,
+            });
+            expect(chairs.nextCursor).toBeUndefined();
+        });
+
+        it('should render the hierarchy as a text outline in the Tree format', async () => {
+            mockUnityConnection.sendRequest.mockResolvedValue(world);
+
+            const result = await getEditorState('Tree', mockUnityConnection as any, 60_000, { maxDepth: 1 });
+
+            expect(result.content[0].text).toBe('Environment (1 child)\n  Props (3 children)\nVRCWorld [VRCSceneDescriptor]');
+        });
+
+        it('should page through assets with cursors tied to the query', async () => {
+            const first = await query('AssetsOnly', { path: 'Assets/**', limit: 3 });
+            expect(first).toMatchObject({ total: 4, offset: 0 });
+            expect(first.assets).toHaveLength(3);
+
+            const second = await query('AssetsOnly', { path: 'Assets/**', limit: 3, cursor: first.nextCursor });
+            expect(second.assets).toEqual(['Assets/Scenes/World.unity']);
+            expect(second.nextCursor).toBeUndefined();
 
-            // Should not throw
-            expect(() => resolveUnityEditorState(mockState)).not.toThrow();
+            mockUnityConnection.sendRequest.mockClear();
+            const mismatched = await query('AssetsOnly', { path: 'Assets/Prefabs/*', cursor: first.nextCursor });
+            expect(mismatched.error).toContain('Invalid cursor');
+            expect(mockUnityConnection.sendRequest).not.toHaveBeenCalled();
         });
     });
 });
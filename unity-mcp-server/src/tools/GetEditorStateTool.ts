@@ -1,41 +1,60 @@
-import { UnityConnection } from "../communication/UnityConnection.js";
-
-export interface UnityEditorState {
-  activeGameObjects: string[];
-  selectedObjects: string[];
-  playModeState: string;
-  sceneHierarchy: any;
-  projectStructure: {
-    scenes?: string[];
-    assets?: string[];
-    [key: string]: string[] | undefined;
-  };
-}
+import { UnityRequester } from "../communication/UnityConnection.js";
+import { UnityRequestTimeoutError } from "../communication/errors.js";
+import { HierarchyNode, UnityEditorState } from "../communication/messages.js";
+import { globToRegExp } from "./glob.js";
+import { renderHierarchyTree } from "./HierarchyTree.js";
 
-export interface UnityEditorStateHandler {
-  resolve: (value: UnityEditorState) => void;
-  reject: (reason?: any) => void;
-}
+export type { UnityEditorState };
 
-// Command state management
-let unityEditorStatePromise: UnityEditorStateHandler | null = null;
+/**
+ * - Raw: the complete editor state as sent by Unity
+ * - Summary: counts and top-level names, to decide where to drill down
+ * - HierarchyOnly: scene objects with their paths, filtered and paged
+ * - AssetsOnly: asset paths, filtered and paged
+ * - Tree: the scene hierarchy as an indented text outline within a token budget
+ */
+export const EDITOR_STATE_FORMATS = ["Raw", "Summary", "HierarchyOnly", "AssetsOnly", "Tree"] as const;
 
-// Method to resolve the editor state - called when results arrive from Unity
-export function resolveUnityEditorState(result: UnityEditorState): void {
-  if (unityEditorStatePromise) {
-    unityEditorStatePromise.resolve(result);
-    unityEditorStatePromise = null;
-  }
+/** Filters and paging for the HierarchyOnly, AssetsOnly and Tree formats. */
+export interface EditorStateQuery {
+  /** Glob on the hierarchy path ("Environment/**") or asset path ("Assets/Prefabs/*.prefab"). */
+  path?: string;
+  /** Glob on the object name or asset file name. */
+  name?: string;
+  /** Deepest hierarchy level to include; 0 is the root objects. */
+  maxDepth?: number;
+  /** Page size. */
+  limit?: number;
+  /** nextCursor from the previous page of the same query. */
+  cursor?: string;
+  /** Approximate size of the Tree outline. */
+  maxTokens?: number;
+}
+
+/** One scene object in the HierarchyOnly format. */
+export interface HierarchyEntry {
+  path: string;
+  depth: number;
+  components: string[];
+  childCount: number;
+  active?: boolean;
+  instanceId?: number;
 }
 
+const DEFAULT_PAGE_SIZE = 100;
+// Names and groups beyond this are counted but not listed in a summary
+const SUMMARY_LIST_LIMIT = 20;
+
 /**
  * Retrieve the current state of the Unity Editor.
  */
 export async function getEditorState(
   format: string,
-  unityConnection: UnityConnection
+  unityConnection: UnityRequester,
+  timeoutMs: number = 60_000,
+  query: EditorStateQuery = {}
 ): Promise<{ content: { type: "text"; text: string }[] }> {
-  const validFormats = ["Raw"];
+  const validFormats: readonly string[] = EDITOR_STATE_FORMATS;
 
   if (format && !validFormats.includes(format)) {
     return {
@@ -51,33 +70,53 @@ export async function getEditorState(
     };
   }
 
+  // Reject a bad cursor before asking Unity for anything
+  const offset = decodeCursor(query.cursor, format, query);
+  if (offset === null) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify({
+            error: "Invalid cursor: pass the nextCursor of the previous page with the same format and filters",
+            status: "error",
+          }),
+        },
+      ],
+    };
+  }
+
   try {
-    // Send command to Unity to get editor state
-    unityConnection.sendMessage("getEditorState", {});
-
-    // Wait for result with timeout handling
-    const timeoutMs = 60_000;
-    const editorState = await Promise.race([
-      new Promise<UnityEditorState>((resolve, reject) => {
-        unityEditorStatePromise = { resolve, reject };
-      }),
-      new Promise<never>((_, reject) =>
-        setTimeout(
-          () =>
-            reject(
-              new Error(
-                `Getting editor state timed out after ${timeoutMs / 1000
-                } seconds. This may indicate an issue with the Unity Editor.`
-              )
-            ),
-          timeoutMs
-        )
-      ),
-    ]);
+    // Send command to Unity to get editor state and wait for the matching result
+    const editorState = await unityConnection.sendRequest<UnityEditorState>(
+      "getEditorState",
+      {},
+      timeoutMs,
+      { idempotent: true }
+    );
 
     // Process the response based on format
     let responseData: any;
     switch (format) {
+      case "Summary":
+        responseData = summarizeEditorState(editorState);
+        break;
+      case "HierarchyOnly":
+        responseData = page("objects", flattenHierarchy(editorState.sceneHierarchy, query), offset, format, query);
+        break;
+      case "AssetsOnly":
+        responseData = page("assets", filterAssets(editorState.projectStructure.assets ?? [], query), offset, format, query);
+        break;
+      case "Tree":
+        // Plain text: braces and indentation would cost more than the names
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: renderHierarchyTree(editorState.sceneHierarchy, query),
+            },
+          ],
+        };
       case "Raw":
       default:
         responseData = editorState;
@@ -95,7 +134,10 @@ export async function getEditorState(
   } catch (error) {
     let errorMessage = "Unknown error";
 
-    if (error instanceof Error) {
+    if (error instanceof UnityRequestTimeoutError) {
+      errorMessage = `Getting editor state timed out after ${error.timeoutMs / 1000
+        } seconds. This may indicate an issue with the Unity Editor.`;
+    } else if (error instanceof Error) {
       errorMessage = error.message;
     }
 
@@ -112,3 +154,120 @@ export async function getEditorState(
     };
   }
 }
+
+/**
+ * Scene objects in hierarchy order with their full paths ("Environment/Props/Chair"),
+ * down to maxDepth and matching the path and name globs.
+ */
+export function flattenHierarchy(
+  roots: (HierarchyNode | null)[],
+  query: Pick<EditorStateQuery, "path" | "name" | "maxDepth"> = {}
+): HierarchyEntry[] {
+  const pathPattern = query.path ? globToRegExp(query.path) : null;
+  const namePattern = query.name ? globToRegExp(query.name) : null;
+  const entries: HierarchyEntry[] = [];
+
+  const visit = (node: HierarchyNode, parentPath: string, depth: number) => {
+    const path = parentPath ? `${parentPath}/${node.name}` : node.name;
+    if ((!pathPattern || pathPattern.test(path)) && (!namePattern || namePattern.test(node.name))) {
+      entries.push({
+        path,
+        depth,
+        components: node.components,
+        childCount: node.children.length,
+        active: node.active,
+        instanceId: node.instanceId,
+      });
+    }
+    if (query.maxDepth === undefined || depth < query.maxDepth) {
+      for (const child of node.children) visit(child, path, depth + 1);
+    }
+  };
+
+  for (const root of roots) {
+    // Roots the plugin failed to serialize arrive as null
+    if (root) visit(root, "", 0);
+  }
+  return entries;
+}
+
+function filterAssets(assets: string[], query: EditorStateQuery): string[] {
+  const pathPattern = query.path ? globToRegExp(query.path) : null;
+  const namePattern = query.name ? globToRegExp(query.name) : null;
+  return assets.filter(
+    (asset) =>
+      (!pathPattern || pathPattern.test(asset)) &&
+      (!namePattern || namePattern.test(asset.slice(asset.lastIndexOf("/") + 1)))
+  );
+}
+
+/** Counts and top-level names, small enough for any project. */
+export function summarizeEditorState(state: UnityEditorState) {
+  const objects = flattenHierarchy(state.sceneHierarchy);
+  const roots = objects.filter((entry) => entry.depth === 0);
+  const assets = state.projectStructure.assets ?? [];
+
+  return {
+    playModeState: state.playModeState,
+    selectedObjects: state.selectedObjects,
+    activeGameObjectCount: state.activeGameObjects.length,
+    hierarchy: {
+      objectCount: objects.length,
+      maxDepth: objects.reduce((deepest, entry) => Math.max(deepest, entry.depth), 0),
+      rootObjectCount: roots.length,
+      rootObjects: roots.slice(0, SUMMARY_LIST_LIMIT).map(({ path, childCount }) => ({ name: path, childCount })),
+    },
+    scenes: state.projectStructure.scenes ?? [],
+    assets: {
+      count: assets.length,
+      byExtension: countTop(assets, (asset) => {
+        const fileName = asset.slice(asset.lastIndexOf("/") + 1);
+        return fileName.includes(".") ? fileName.slice(fileName.lastIndexOf(".")).toLowerCase() : "(none)";
+      }),
+      byFolder: countTop(assets, (asset) => asset.split("/").slice(0, 2).join("/")),
+    },
+  };
+}
+
+/** The most common keys with their counts, most common first. */
+function countTop(items: string[], keyOf: (item: string) => string): Record<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = keyOf(item);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return Object.fromEntries([...counts].sort((a, b) => b[1] - a[1]).slice(0, SUMMARY_LIST_LIMIT));
+}
+
+function page<T>(key: string, items: T[], offset: number, format: string, query: EditorStateQuery) {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const end = offset + limit;
+  return {
+    total: items.length,
+    offset,
+    [key]: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor(end, format, query) : undefined,
+  };
+}
+
+// A cursor is only valid for the format and filters it was issued for
+function queryKey(format: string, query: EditorStateQuery): string {
+  return JSON.stringify([format, query.path ?? null, query.name ?? null, query.maxDepth ?? null]);
+}
+
+function encodeCursor(offset: number, format: string, query: EditorStateQuery): string {
+  return Buffer.from(JSON.stringify({ offset, query: queryKey(format, query) })).toString("base64url");
+}
+
+/** The offset a cursor points at, 0 without one, or null if it does not belong to this query. */
+function decodeCursor(cursor: string | undefined, format: string, query: EditorStateQuery): number | null {
+  if (!cursor) return 0;
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return Number.isInteger(decoded.offset) && decoded.offset >= 0 && decoded.query === queryKey(format, query)
+      ? decoded.offset
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ObjectDetails } from '../communication/messages.js';
+import { fitToBudget, getObjectDetails, renderDetails } from './GetObjectDetailsTool.js';
+
+function details(components: ObjectDetails['components'], children?: ObjectDetails[]): ObjectDetails {
+    return {
+        name: 'Fence',
+        active: true,
+        tag: 'Untagged',
+        layer: 'Default',
+        transform: {
+            position: { x: 0, y: 0, z: 0 },
+            rotation: { x: 0, y: 0, z: 0 },
+            scale: { x: 1, y: 1, z: 1 },
+        },
+        components,
+        ...(children ? { childCount: children.length, children } : {}),
+    } as ObjectDetails;
+}
+
+const points = (count: number) => Array.from({ length: count }, (_, i) => ({ x: i, y: 0, z: 0 }));
+
+describe('GetObjectDetailsTool', () => {
+    describe('fitToBudget', () => {
+        it('should leave details within the budget untouched', () => {
+            const small = details([{ type: 'BoxCollider', data: { isTrigger: false } }]);
+
+            expect(fitToBudget(small, 1000)).toEqual([]);
+            expect(small.components).toEqual([{ type: 'BoxCollider', data: { isTrigger: false } }]);
+        });
+
+        it('should cut the largest field arrays first and report their original length', () => {
+            const large = details([
+                { type: 'LineRenderer', data: { positions: points(400), widths: [1, 2, 3] } },
+                { type: 'BoxCollider', data: { isTrigger: false } },
+            ]);
+
+            const truncated = fitToBudget(large, 500);
+
+            expect(truncated).toEqual([{ path: 'components[0].data.positions', shown: 12, total: 400 }]);
+            expect(large.components).toHaveLength(2);
+            expect((large.components as { data: { widths: number[] } }[])[0].data.widths).toEqual([1, 2, 3]);
+            expect(renderDetails(large, truncated).length).toBeLessThanOrEqual(2000);
+        });
+
+        it('should cut children once the field arrays cannot shrink further', () => {
+            const children = Array.from({ length: 40 }, (_, i) =>
+                details([{ type: 'MeshRenderer', data: { enabled: true, index: i } }])
+            );
+            const parent = details([], children);
+
+            const truncated = fitToBudget(parent, 500);
+
+            expect(truncated).toEqual([{ path: 'children', shown: 2, total: 40 }]);
+            expect(parent.children).toHaveLength(2);
+            expect(parent.childCount).toBe(40);
+        });
+
+        it('should only report arrays that are left after the later passes', () => {
+            const children = Array.from({ length: 8 }, () => details([{ type: 'LineRenderer', data: { positions: points(40) } }]));
+            const parent = details([], children);
+
+            const truncated = fitToBudget(parent, 150);
+
+            const shownChildren = (parent.children as ObjectDetails[]).length;
+            expect(shownChildren).toBeLessThan(8);
+            expect(truncated).toEqual([
+                ...Array.from({ length: shownChildren }, (_, i) => ({
+                    path: `children[${i}].components[0].data.positions`,
+                    shown: 1,
+                    total: 40,
+                })),
+                { path: 'children', shown: shownChildren, total: 8 },
+            ]);
+        });
+    });
+
+    it('should forward the filters to Unity and apply maxTokens to the result', async () => {
+        const sendRequest = vi
+            .fn()
+            .mockResolvedValue(details([{ type: 'LineRenderer', data: { positions: points(400) } }]));
+
+        const result = await getObjectDetails({ target: { path: 'Environment/Fence' } }, { sendRequest }, 30000, {
+            components: ['LineRenderer'],
+            fields: ['LineRenderer.positions'],
+            childDepth: 1,
+            maxTokens: 500,
+        });
+
+        expect(sendRequest).toHaveBeenCalledWith(
+            'getGameObjectDetails',
+            { target: { path: 'Environment/Fence' }, components: ['LineRenderer'], fields: ['LineRenderer.positions'], childDepth: 1 },
+            30000,
+            { idempotent: true }
+        );
+        expect(result.content[0].text.length).toBeLessThanOrEqual(500 * 4);
+        const parsed = JSON.parse(result.content[0].text);
+        expect(parsed.truncated).toEqual([{ path: 'components[0].data.positions', shown: 12, total: 400 }]);
+    });
+});
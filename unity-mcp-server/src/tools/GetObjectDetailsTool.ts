@@ -1,83 +1,160 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { UnityConnection } from "../communication/UnityConnection.js";
-
-// Request/Response types matching C# implementation
-interface ObjectDetails {
-  name: string;
-  active: boolean;
-  tag: string;
-  layer: string;
-  transform: {
-    position: { x: number; y: number; z: number };
-    rotation: { x: number; y: number; z: number };
-    scale: { x: number; y: number; z: number };
-  };
-  components: {
-    type: string;
-    data: Record<string, any>;
-  }[];
+import { UnityRequester } from "../communication/UnityConnection.js";
+import { UnityRequestTimeoutError } from "../communication/errors.js";
+import { ObjectDetails, ObjectSelector } from "../communication/messages.js";
+
+/** The object to inspect: an exact name, or a selector that must match exactly one object. */
+export type ObjectTarget = { objectName: string; target?: undefined } | { objectName?: undefined; target: ObjectSelector };
+
+/** What to report about the object; the filters are applied by the plugin. */
+export interface ObjectDetailsQuery {
+  /** Only components of these types (base types such as Collider match too). */
+  components?: string[];
+  excludeComponents?: string[];
+  /** Only these fields of each component, as `name` or `Type.name`. */
+  fields?: string[];
+  /** Levels of children to report with their own details; 0 for the object only. */
+  childDepth?: number;
+  /** Approximate size of the result; the largest arrays are cut until it fits. */
+  maxTokens?: number;
 }
 
-interface ObjectDetailsHandler {
-  resolve: (value: ObjectDetails) => void;
-  reject: (reason?: any) => void;
+/** An array the budget cut, e.g. `{ path: "components[2].data.points", shown: 25, total: 200 }`. */
+export interface TruncatedArray {
+  path: string;
+  shown: number;
+  total: number;
 }
 
-// Queue for pending requests
-let objectDetailsPromise: ObjectDetailsHandler | null = null;
+export const DEFAULT_DETAILS_TOKENS = 8000;
+
+// Rough size of a token in characters, as in HierarchyTree
+const CHARS_PER_TOKEN = 4;
+
+interface ArrayRef {
+  owner: Record<string, unknown> | unknown[];
+  key: string | number;
+  path: string;
+}
+
+/**
+ * Cut arrays in place until the text returned for the details, including the
+ * list of what was cut, is at most maxTokens. Field values are cut first, then
+ * children, then component lists, so the object itself is the last thing to
+ * lose detail. Each step halves the largest array of the current kind. Returns
+ * what was cut; the result can still exceed the budget when nothing is left to
+ * cut.
+ */
+export function fitToBudget(details: ObjectDetails, maxTokens: number = DEFAULT_DETAILS_TOKENS): TruncatedArray[] {
+  const budget = maxTokens * CHARS_PER_TOKEN;
+  // Original length of every array cut, by path
+  const totals = new Map<string, number>();
+  // Later passes can drop the children or components holding an array cut
+  // earlier, so report the arrays that are left with their final length
+  const report = () =>
+    (["fields", "children", "components"] as const)
+      .flatMap((kind) => collectArrays(details, "", kind))
+      .filter((ref) => totals.has(ref.path))
+      .map((ref) => ({ path: ref.path, shown: current(ref).length, total: totals.get(ref.path)! }));
+  let size = renderDetails(details, []).length;
+
+  for (const kind of ["fields", "children", "components"] as const) {
+    while (size > budget) {
+      const candidates = collectArrays(details, "", kind).filter((ref) => current(ref).length > 1);
+      if (candidates.length === 0) break;
 
-export function resolveObjectDetails(result: any): void {
-  if (objectDetailsPromise) {
-    if (result.error) {
-      objectDetailsPromise.reject(new Error(result.error));
-    } else {
-      objectDetailsPromise.resolve(result);
+      const sizes = candidates.map((ref) => JSON.stringify(current(ref)).length);
+      const largest = candidates[sizes.indexOf(Math.max(...sizes))];
+      const items = current(largest);
+      const shown = Math.floor(items.length / 2);
+      (largest.owner as Record<string | number, unknown>)[largest.key] = items.slice(0, shown);
+      if (!totals.has(largest.path)) totals.set(largest.path, items.length);
+      size = renderDetails(details, report()).length;
     }
-    objectDetailsPromise = null;
+  }
+
+  return report();
+}
+
+/** The text get_object_details returns, listing what was cut when anything was. */
+export function renderDetails(details: ObjectDetails, truncated: TruncatedArray[]): string {
+  return JSON.stringify(truncated.length > 0 ? { ...details, truncated } : details, null, 2);
+}
+
+function current(ref: ArrayRef): unknown[] {
+  return (ref.owner as Record<string | number, unknown[]>)[ref.key];
+}
+
+/** Arrays of one kind in an object's details, including its reported children. */
+function collectArrays(details: Record<string, unknown>, path: string, kind: "fields" | "children" | "components"): ArrayRef[] {
+  const refs: ArrayRef[] = [];
+  const components = Array.isArray(details.components) ? (details.components as Record<string, unknown>[]) : [];
+  const children = Array.isArray(details.children) ? (details.children as Record<string, unknown>[]) : [];
+
+  if (kind === "components" && components.length > 0) {
+    refs.push({ owner: details, key: "components", path: `${path}components` });
+  }
+  if (kind === "children" && children.length > 0) {
+    refs.push({ owner: details, key: "children", path: `${path}children` });
+  }
+  if (kind === "fields") {
+    components.forEach((component, index) => {
+      if (typeof component.data === "object" && component.data !== null) {
+        collectValueArrays(component.data as Record<string, unknown>, `${path}components[${index}].data`, refs);
+      }
+    });
+  }
+  children.forEach((child, index) => refs.push(...collectArrays(child, `${path}children[${index}].`, kind)));
+  return refs;
+}
+
+function collectValueArrays(value: Record<string, unknown> | unknown[], path: string, refs: ArrayRef[]) {
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item !== "object" || item === null) continue;
+    const itemKey = Array.isArray(value) ? Number(key) : key;
+    const itemPath = Array.isArray(value) ? `${path}[${key}]` : `${path}.${key}`;
+    if (Array.isArray(item)) refs.push({ owner: value, key: itemKey, path: itemPath });
+    collectValueArrays(item as Record<string, unknown>, itemPath, refs);
   }
 }
 
 export async function getObjectDetails(
-  objectName: string,
-  unityConnection: UnityConnection
+  object: ObjectTarget,
+  unityConnection: UnityRequester,
+  timeoutMs: number = 30000,
+  query: ObjectDetailsQuery = {}
 ): Promise<{ content: { type: "text"; text: string }[] }> {
   try {
-    unityConnection.sendMessage("getGameObjectDetails", {
-      objectName: objectName,
-    });
-
+    const { maxTokens, ...filters } = query;
     // Wait for result with timeout
-    const timeoutMs = 30000;
-    const details = await Promise.race([
-      new Promise<ObjectDetails>((resolve, reject) => {
-        objectDetailsPromise = { resolve, reject };
-      }),
-      new Promise<never>((_, reject) =>
-        setTimeout(
-          () =>
-            reject(
-              new Error(
-                `Getting object details timed out after ${
-                  timeoutMs / 1000
-                } seconds.`
-              )
-            ),
-          timeoutMs
-        )
-      ),
-    ]);
+    const details = await unityConnection.sendRequest<ObjectDetails>(
+      "getGameObjectDetails",
+      { ...(object.target ? { target: object.target } : { objectName: object.objectName }), ...filters },
+      timeoutMs,
+      { idempotent: true }
+    );
 
+    if (details.error !== undefined) {
+      throw new Error(details.error);
+    }
+
+    const truncated = fitToBudget(details, maxTokens);
     return {
       content: [
         {
           type: "text" as const,
-          text: JSON.stringify(details, null, 2),
+          text: renderDetails(details, truncated),
         },
       ],
     };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    let errorMessage = error instanceof Error ? error.message : "Unknown error";
+    if (error instanceof UnityRequestTimeoutError) {
+      errorMessage = `Getting object details timed out after ${
+        error.timeoutMs / 1000
+      } seconds.`;
+    }
     return {
       content: [
         {
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { HierarchyNode } from '../communication/messages.js';
+import { renderHierarchyTree } from './HierarchyTree.js';
+
+function node(name: string, children: HierarchyNode[] = [], extra: Partial<HierarchyNode> = {}): HierarchyNode {
+    return { name, components: ['Transform'], children, ...extra };
+}
+
+describe('renderHierarchyTree', () => {
+    const chairs = Array.from({ length: 40 }, (_, index) => node(`Chair (${index})`, [], { components: ['Transform', 'MeshRenderer'], instanceId: 2000 + index }));
+    const world = [
+        node('Environment', [node('Props', chairs, { instanceId: 1100 })], { instanceId: 1000 }),
+        null,
+        node('VRCWorld', [], { components: ['Transform', 'VRCSceneDescriptor'], active: false, instanceId: 3000 }),
+    ];
+
+    it('should render an indented outline with ids, components, child counts and the active flag', () => {
+        const tree = renderHierarchyTree(world, { maxDepth: 1 });
+
+        expect(tree).toBe(
+            [
+                'Environment #1000 (1 child)',
+                '  Props #1100 (40 children)',
+                'VRCWorld #3000 [VRCSceneDescriptor] (inactive)',
+            ].join('\n')
+        );
+    });
+
+    it('should collapse what does not fit the token budget, keeping the upper levels', () => {
+        const tree = renderHierarchyTree(world, { maxTokens: 60 });
+        const lines = tree.split('\n');
+
+        expect(tree.length).toBeLessThanOrEqual(60 * 4 + 40);
+        expect(lines[0]).toBe('Environment #1000 (1 child)');
+        expect(lines).toContain('VRCWorld #3000 [VRCSceneDescriptor] (inactive)');
+        expect(lines[2]).toBe('    Chair (0) #2000 [MeshRenderer]');
+        expect(lines.find((line) => line.includes('more children'))).toMatch(/^ {4}… \d+ more children$/);
+    });
+
+    it('should start from the objects matching the path or name globs', () => {
+        const tree = renderHierarchyTree(world, { name: 'chair (1?)' });
+
+        expect(tree.split('\n')).toEqual(Array.from({ length: 10 }, (_, index) => `Environment/Props/Chair (1${index}) #${2010 + index} [MeshRenderer]`));
+        expect(renderHierarchyTree(world, { path: 'Nowhere/*' })).toBe('No GameObjects match the filter.');
+    });
+});
@@ -0,0 +1,131 @@
+import { HierarchyNode } from "../communication/messages.js";
+import { globToRegExp } from "./glob.js";
+
+export interface HierarchyTreeOptions {
+  /** Approximate size of the outline; subtrees that do not fit are collapsed. */
+  maxTokens?: number;
+  /** Deepest level to show, counted from the objects the outline starts at (0 for those only). */
+  maxDepth?: number;
+  /** Only show the subtrees whose hierarchy path or name matches these globs. */
+  path?: string;
+  name?: string;
+}
+
+export const DEFAULT_TREE_TOKENS = 4000;
+
+// Rough size of a token in characters, good enough for budgeting
+const CHARS_PER_TOKEN = 4;
+const INDENT = "  ";
+
+interface TreeItem {
+  node: HierarchyNode;
+  label: string;
+  depth: number;
+  /** No further children are shown once one did not fit. */
+  closed: boolean;
+  children: TreeItem[];
+}
+
+/**
+ * Render the scene hierarchy as an indented outline, one object per line:
+ *
+ *     Environment #-1204 (1 child)
+ *       Props #-1318 (40 children)
+ *         Chair (3) #-1402 [MeshFilter, MeshRenderer, BoxCollider] (inactive)
+ *         … 39 more children
+ *
+ * Components are listed without Transform. The outline is filled level by
+ * level until maxTokens is used up, so the upper levels are always shown and
+ * large subtrees are collapsed into "… N more children".
+ */
+export function renderHierarchyTree(roots: (HierarchyNode | null)[], options: HierarchyTreeOptions = {}): string {
+  const tops = selectRoots(roots, options);
+  if (tops.length === 0) {
+    return options.path || options.name ? "No GameObjects match the filter." : "The scene is empty.";
+  }
+
+  let budget = (options.maxTokens ?? DEFAULT_TREE_TOKENS) * CHARS_PER_TOKEN;
+  const topItems: TreeItem[] = [];
+  const rootParent = { closed: false, children: topItems };
+  // Breadth first; a node is shown only if its parent and earlier siblings are, so
+  // the shown children of every node are its first ones
+  let level: { node: HierarchyNode; label: string; parent: typeof rootParent }[] = tops.map((top) => ({
+    ...top,
+    parent: rootParent,
+  }));
+
+  for (let depth = 0; level.length > 0; depth++) {
+    const next: typeof level = [];
+    for (const { node, label, parent } of level) {
+      if (parent.closed) continue;
+      const line = describeNode(node, label, depth);
+      if (line.length + 1 > budget) {
+        parent.closed = true;
+        continue;
+      }
+
+      budget -= line.length + 1;
+      const item: TreeItem = { node, label, depth, closed: false, children: [] };
+      parent.children.push(item);
+      if (options.maxDepth === undefined || depth < options.maxDepth) {
+        next.push(...node.children.map((child) => ({ node: child, label: child.name, parent: item })));
+      }
+    }
+    level = next;
+  }
+
+  const lines: string[] = [];
+  const write = (items: TreeItem[], total: number, depth: number) => {
+    // Children cut by maxDepth are only shown in their parent's child count
+    if (options.maxDepth !== undefined && depth > options.maxDepth) return;
+    for (const item of items) {
+      lines.push(describeNode(item.node, item.label, item.depth));
+      write(item.children, item.node.children.length, depth + 1);
+    }
+    if (total > items.length) {
+      const hidden = total - items.length;
+      const noun = depth === 0 ? "objects" : hidden === 1 ? "child" : "children";
+      lines.push(`${INDENT.repeat(depth)}… ${hidden} more ${noun}`);
+    }
+  };
+  write(topItems, tops.length, 0);
+  return lines.join("\n");
+}
+
+/** The nodes the outline starts from, labelled with their full path when filtered. */
+function selectRoots(roots: (HierarchyNode | null)[], options: HierarchyTreeOptions) {
+  const present = roots.filter((root): root is HierarchyNode => root !== null);
+  if (!options.path && !options.name) return present.map((node) => ({ node, label: node.name }));
+
+  const pathPattern = options.path ? globToRegExp(options.path) : null;
+  const namePattern = options.name ? globToRegExp(options.name) : null;
+  const matches: { node: HierarchyNode; label: string }[] = [];
+  const visit = (node: HierarchyNode, parentPath: string) => {
+    const path = parentPath ? `${parentPath}/${node.name}` : node.name;
+    if ((!pathPattern || pathPattern.test(path)) && (!namePattern || namePattern.test(node.name))) {
+      // The match's descendants appear under it, not again as roots
+      matches.push({ node, label: path });
+      return;
+    }
+    for (const child of node.children) visit(child, path);
+  };
+  for (const root of present) visit(root, "");
+  return matches;
+}
+
+function describeNode(node: HierarchyNode, label: string, depth: number): string {
+  const components = node.components.filter((component) => component !== "Transform");
+  const notes: string[] = [];
+  if (node.children.length > 0) {
+    notes.push(`${node.children.length} ${node.children.length === 1 ? "child" : "children"}`);
+  }
+  if (node.active === false) notes.push("inactive");
+
+  return (
+    INDENT.repeat(depth) +
+    label +
+    (node.instanceId !== undefined ? ` #${node.instanceId}` : "") +
+    (components.length > 0 ? ` [${components.join(", ")}]` : "") +
+    (notes.length > 0 ? ` (${notes.join(", ")})` : "")
+  );
+}
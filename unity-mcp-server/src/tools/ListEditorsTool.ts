@@ -0,0 +1,24 @@
+import { UnityConnection } from "../communication/UnityConnection.js";
+
+/**
+ * List the Unity Editors known to the server and which one tool calls go to by default.
+ */
+export function listEditors(
+  unityConnection: UnityConnection
+): { content: { type: "text"; text: string }[] } {
+  const defaultSession = unityConnection.getDefaultSession();
+
+  const editors = unityConnection.getSessions().map((session) => ({
+    ...session.describe(),
+    isDefault: session === defaultSession,
+  }));
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(editors, null, 2),
+      },
+    ],
+  };
+}
@@ -1,59 +1,52 @@
 import { z } from "zod";
-import { UnityConnection } from "../communication/UnityConnection.js";
+import { ToolCallOptions, UnityConnection } from "../communication/UnityConnection.js";
+import { AssetManagementResult } from "../communication/messages.js";
+import { editorArgument, resolveTimeoutMs, timeoutArgument } from "./types.js";
 
-interface AssetManagementResult {
-    message?: string;
-    count?: number;
-    results?: any[];
-    error?: string;
-}
-
-let assetResolvers: ((result: AssetManagementResult) => void)[] = [];
-
-export function resolveAssetManagement(result: AssetManagementResult) {
-    if (assetResolvers.length > 0) {
-        const resolve = assetResolvers.shift();
-        resolve?.(result);
-    }
-}
-
-export const ManageAssetsTool = (unityConnection: UnityConnection) => ({
+export const ManageAssetsTool = (unityConnection: UnityConnection, timeoutMs: number = 60000) => ({
     name: "manage_assets",
     description: "Search for assets or refresh the AssetDatabase.",
     inputSchema: z.object({
         action: z.enum(["search", "refresh"]).describe("The action to perform."),
-        filter: z.string().optional().describe("Filter string for search (e.g., 't:Material', 'MyScript'). Required if action is 'search'.")
+        filter: z.string().optional().describe("Filter string for search (e.g., 't:Material', 'MyScript'). Required if action is 'search'."),
+        editor: editorArgument,
+        timeoutSeconds: timeoutArgument
     }),
-    handler: async (args: any) => {
-        if (!unityConnection.isConnected()) {
+    handler: async (args: any, call: ToolCallOptions = {}) => {
+        if (args.action === "search" && !args.filter) {
             return {
-                content: [{ type: "text", text: "Error: Unity Editor is not connected." }],
+                content: [{ type: "text", text: "Error: 'filter' is required for search action." }],
                 isError: true,
             };
         }
 
-        if (args.action === "search" && !args.filter) {
+        try {
+            const { editor, timeoutSeconds, ...request } = args;
+            const result = await unityConnection.forEditor(editor, call).sendRequest<AssetManagementResult>(
+                "manageAssets",
+                request,
+                resolveTimeoutMs(timeoutSeconds, timeoutMs),
+                // A search is safe to repeat after a reconnect; a refresh may itself have
+                // caused the reload that dropped the connection, so it is not replayed
+                { idempotent: request.action === "search" }
+            );
+
+            if (result.error) {
+                return {
+                    content: [{ type: "text", text: `Error: ${result.error}` }],
+                    isError: true,
+                };
+            }
+
             return {
-                content: [{ type: "text", text: "Error: 'filter' is required for search action." }],
+                content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "Unknown error";
+            return {
+                content: [{ type: "text", text: `Error: ${errorMessage}` }],
                 isError: true,
             };
         }
-
-        return new Promise((resolve) => {
-            assetResolvers.push((result) => {
-                if (result.error) {
-                    resolve({
-                        content: [{ type: "text", text: `Error: ${result.error}` }],
-                        isError: true,
-                    });
-                } else {
-                    resolve({
-                        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-                    });
-                }
-            });
-
-            unityConnection.sendMessage("manageAssets", args);
-        });
     },
 });
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { UnityConnection } from '../communication/UnityConnection.js';
+import { getFreePort, MockUnityEditor } from '../testing/MockUnityEditor.js';
+import { ManipulateSceneTool } from './ManipulateSceneTool.js';
+
+const AUTH_TOKEN = 'manipulate-scene-token-01';
+
+describe('ManipulateSceneTool', () => {
+    let connection: UnityConnection;
+    let editor: MockUnityEditor;
+    let tool: ReturnType<typeof ManipulateSceneTool>;
+
+    beforeEach(async () => {
+        const port = await getFreePort();
+        connection = new UnityConnection(port, await getFreePort(), { host: '127.0.0.1', authToken: AUTH_TOKEN });
+        editor = new MockUnityEditor({ url: `ws://127.0.0.1:${port}`, token: AUTH_TOKEN });
+        await editor.connect();
+        tool = ManipulateSceneTool(connection, 2000);
+    });
+
+    afterEach(async () => {
+        await editor.disconnect();
+        connection.close();
+    });
+
+    describe('set_properties schema', () => {
+        it('should accept a component and property values of any shape', () => {
+            const parsed = tool.inputSchema.safeParse({
+                action: 'set_properties',
+                target: { path: 'Environment/Lamp' },
+                details: {
+                    componentName: 'Light',
+                    properties: { m_Intensity: 2, m_Color: '#FFCC99', m_Enabled: true, m_Cookie: null, m_Size: { x: 2, y: 1, z: 2 } },
+                },
+            });
+
+            expect(parsed.success).toBe(true);
+        });
+
+        it('should reject unknown actions and properties that are not an object', () => {
+            expect(tool.inputSchema.safeParse({ action: 'set_property', name: 'Lamp' }).success).toBe(false);
+            expect(
+                tool.inputSchema.safeParse({ action: 'set_properties', name: 'Lamp', details: { componentName: 'Light', properties: [2] } })
+                    .success,
+            ).toBe(false);
+        });
+    });
+
+    it('should forward the properties to Unity and report each one', async () => {
+        editor.respondOnce('manipulateScene', {
+            data: { message: 'Set 1 of 1 properties on Light', properties: [{ path: 'm_Intensity', status: 'set', value: 2 }] },
+        });
+        const properties = { m_Intensity: 2 };
+
+        const result = await tool.handler({ action: 'set_properties', target: { path: 'Environment/Lamp' }, details: { componentName: 'Light', properties } });
+
+        expect(editor.requests.at(-1)?.data).toEqual({ action: 'set_properties', target: { path: 'Environment/Lamp' }, details: { componentName: 'Light', properties } });
+        expect(result.isError).toBeUndefined();
+        expect(JSON.parse(result.content[0].text).properties).toEqual([{ path: 'm_Intensity', status: 'set', value: 2 }]);
+    });
+
+    it('should mark a partly applied set_properties as an error', async () => {
+        editor.respondOnce('manipulateScene', {
+            data: {
+                message: 'Set 1 of 2 properties on Light',
+                properties: [
+                    { path: 'm_Intensity', status: 'set', value: 2 },
+                    { path: 'm_Flicker', status: 'error', error: 'Property not found' },
+                ],
+            },
+        });
+
+        const result = await tool.handler({
+            action: 'set_properties',
+            name: 'Lamp',
+            details: { componentName: 'Light', properties: { m_Intensity: 2, m_Flicker: true } },
+        });
+
+        expect(result.isError).toBe(true);
+        expect(JSON.parse(result.content[0].text).properties[1]).toMatchObject({ status: 'error', error: 'Property not found' });
+    });
+
+    it('should require a component and at least one property without contacting Unity', async () => {
+        const missingComponent = await tool.handler({ action: 'set_properties', name: 'Lamp', details: { properties: { m_Intensity: 2 } } });
+        const noProperties = await tool.handler({ action: 'set_properties', name: 'Lamp', details: { componentName: 'Light', properties: {} } });
+
+        for (const result of [missingComponent, noProperties]) {
+            expect(result.isError).toBe(true);
+            expect(result.content[0].text).toContain("'details.componentName' and 'details.properties' are required");
+        }
+        expect(editor.requests).toEqual([]);
+    });
+});
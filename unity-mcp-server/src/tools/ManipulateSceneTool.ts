@@ -1,31 +1,18 @@
 import { z } from "zod";
-import { UnityConnection } from "../communication/UnityConnection.js";
+import { ToolCallOptions, UnityConnection } from "../communication/UnityConnection.js";
+import { SceneManipulationResult } from "../communication/messages.js";
+import { editorArgument, objectSelectorArgument, resolveTimeoutMs, timeoutArgument } from "./types.js";
 
-interface SceneManipulationResult {
-    message?: string;
-    instanceId?: number;
-    error?: string;
-}
-
-// Queue of resolvers to handle concurrent requests
-let manipulationResolvers: ((result: SceneManipulationResult) => void)[] = [];
-
-export function resolveSceneManipulation(result: SceneManipulationResult) {
-    if (manipulationResolvers.length > 0) {
-        const resolve = manipulationResolvers.shift();
-        resolve?.(result);
-    }
-}
-
-export const ManipulateSceneTool = (unityConnection: UnityConnection) => ({
+export const ManipulateSceneTool = (unityConnection: UnityConnection, timeoutMs: number = 30000) => ({
     name: "manipulate_scene",
-    description: "Create, delete, or modify GameObjects in the active scene. Supports creating new objects with components, deleting objects, modifying transform (position/rotation/scale), and adding/removing components.",
+    description: "Create, delete, or modify GameObjects in the active scene. Supports creating new objects with components, deleting objects, modifying transform (position/rotation/scale), adding/removing components, and setting serialized properties of a component (set_properties, e.g. a Light's m_Intensity or a BoxCollider's m_Size).",
     inputSchema: z.object({
-        action: z.enum(["create_game_object", "delete_game_object", "set_transform", "manage_component"]).describe("The action to perform."),
-        name: z.string().describe("Name of the GameObject to manipulate. For creation, this is the new name. For others, it's the target name."),
+        action: z.enum(["create_game_object", "delete_game_object", "set_transform", "manage_component", "set_properties"]).describe("The action to perform."),
+        name: z.string().optional().describe("For create_game_object, the new object's name. For other actions, the exact name of the object when no target is given."),
+        target: objectSelectorArgument.optional().describe("Selects the GameObject to delete, transform, change components or set properties on. Must match exactly one object; takes precedence over name."),
         details: z.object({
             components: z.array(z.string()).optional().describe("List of component names to add upon creation (e.g. ['BoxCollider', 'Light'])."),
-            parent: z.string().optional().describe("Name of the parent object to attach to."),
+            parent: z.union([z.string(), objectSelectorArgument]).optional().describe("Parent to attach the new object to: a name or hierarchy path, or a selector matching exactly one object."),
             position: z.object({ x: z.number(), y: z.number(), z: z.number() }).optional(),
             rotation: z.object({ x: z.number(), y: z.number(), z: z.number() }).optional(),
             scale: z.object({ x: z.number(), y: z.number(), z: z.number() }).optional(),
@@ -35,46 +22,62 @@ export const ManipulateSceneTool = (unityConnection: UnityConnection) => ({
             newRotation: z.object({ x: z.number(), y: z.number(), z: z.number() }).optional(),
             newScale: z.object({ x: z.number(), y: z.number(), z: z.number() }).optional(),
 
-            // For manage_component
+            // For manage_component and set_properties
             componentName: z.string().optional(),
-            componentAction: z.enum(["add", "remove"]).optional()
-        }).optional()
+            componentAction: z.enum(["add", "remove"]).optional(),
+
+            // For set_properties
+            properties: z.record(z.unknown()).optional().describe(
+                "Serialized property paths of componentName mapped to new values, e.g. { \"m_Intensity\": 2, \"m_Color\": { \"r\": 1, \"g\": 0.8, \"b\": 0.6 }, \"m_Size\": { \"x\": 2, \"y\": 1, \"z\": 2 } }. " +
+                "Paths are as in the Inspector's debug mode; 'intensity' also finds 'm_Intensity'. Values: numbers, booleans, strings, enum names, " +
+                "vectors {x,y,z,w}, colors {r,g,b,a} or '#RRGGBB', arrays, and object references as a selector ({ path: 'Environment/Door' }), " +
+                "{ assetPath } or { guid } for assets, or null to clear. Each property is reported separately; valid ones are applied even if others fail."
+            )
+        }).optional(),
+        editor: editorArgument,
+        timeoutSeconds: timeoutArgument
     }),
-    handler: async (args: any) => {
-        if (!unityConnection.isConnected()) {
+    handler: async (args: any, call: ToolCallOptions = {}) => {
+        if (args.action === "create_game_object" ? !args.name : !args.name && !args.target) {
+            const required = args.action === "create_game_object" ? "'name'" : "'target' or 'name'";
+            return {
+                content: [{ type: "text", text: `Error: ${required} is required for ${args.action} action.` }],
+                isError: true,
+            };
+        }
+        if (args.action === "set_properties" && (!args.details?.componentName || Object.keys(args.details?.properties ?? {}).length === 0)) {
             return {
-                content: [{ type: "text", text: "Error: Unity Editor is not connected." }],
+                content: [{ type: "text", text: "Error: 'details.componentName' and 'details.properties' are required for set_properties action." }],
                 isError: true,
             };
         }
 
-        return new Promise((resolve) => {
-            // Set up the resolver
-            manipulationResolvers.push((result) => {
-                if (result.error) {
-                    resolve({
-                        content: [{ type: "text", text: `Error: ${result.error}` }],
-                        isError: true,
-                    });
-                } else {
-                    resolve({
-                        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
-                    });
-                }
-            });
+        try {
+            const { editor, timeoutSeconds, ...request } = args;
+            const result = await unityConnection.forEditor(editor, call).sendRequest<SceneManipulationResult>(
+                "manipulateScene",
+                request,
+                resolveTimeoutMs(timeoutSeconds, timeoutMs)
+            );
 
-            // Send the request
-            unityConnection.sendMessage("manipulateScene", args);
+            if (result.error !== undefined) {
+                return {
+                    content: [{ type: "text", text: `Error: ${result.error}` }],
+                    isError: true,
+                };
+            }
 
-            // Timeout fallback
-            setTimeout(() => {
-                // Check if this request is still pending (simple heuristic)
-                // In a robust system, we'd use IDs. Here we rely on FIFO.
-                // If we timeout, we should probably resolve to error to unblock.
-                // But removing specific resolver is hard without ID.
-                // Rely on UnityConnection timeout or global timeout for now.
-                // Assuming Unity responds within reason.
-            }, 30000);
-        });
+            return {
+                content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+                // Partly applied set_properties still reports every property, but as a failure
+                isError: result.properties?.some((property) => property.status === "error") || undefined,
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : "Unknown error";
+            return {
+                content: [{ type: "text", text: `Error: ${errorMessage}` }],
+                isError: true,
+            };
+        }
     },
 });
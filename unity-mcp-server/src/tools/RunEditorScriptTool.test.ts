@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EditorScript } from '../scripts/EditorScript.js';
+import { CommandGuard } from '../policy/CommandGuard.js';
+import { CommandPolicy } from '../policy/CommandPolicy.js';
+import { describeScriptLibrary, runEditorScript } from './RunEditorScriptTool.js';
+
+const COUNT_OBJECTS = EditorScript.parse(
+    `// @description Count GameObjects with a name
+// @mode snippet
+// @param name string Name to count
+// @param includeInactive bool = false Also count inactive objects
+return Resources.FindObjectsOfTypeAll<GameObject>().Count(go => go.name == {{name}} && ({{includeInactive}} || go.activeInHierarchy));`,
+    'count_objects.cs'
+);
+
+function createMockUnityConnection() {
+    return {
+        sendRequest: vi.fn().mockResolvedValue({ result: 3, logs: [], errors: [], warnings: [], executionSuccess: true }),
+    };
+}
+
+describe('RunEditorScriptTool', () => {
+    it('should list every script with its signature in the description', () => {
+        expect(describeScriptLibrary([COUNT_OBJECTS])).toContain(
+            '- count_objects(name: string, includeInactive?: bool = false): Count GameObjects with a name'
+        );
+        expect(describeScriptLibrary([])).toContain('The script library is empty.');
+    });
+
+    it('should render the script as a snippet and run it in Unity', async () => {
+        const unityConnection = createMockUnityConnection();
+
+        const result = await runEditorScript('count_objects', { name: 'Chair' }, [COUNT_OBJECTS], unityConnection);
+
+        const code = unityConnection.sendRequest.mock.calls[0][1].code;
+        expect(unityConnection.sendRequest.mock.calls[0][0]).toBe('executeEditorCommand');
+        expect(code).toContain('public class EditorCommand');
+        expect(code).toContain('go.name == "Chair" && (false || go.activeInHierarchy)');
+        expect(JSON.parse(result.content[0].text).result.result).toBe(3);
+    });
+
+    it('should report unknown scripts and invalid arguments without contacting Unity', async () => {
+        const unityConnection = createMockUnityConnection();
+
+        const unknown = JSON.parse((await runEditorScript('delete_everything', {}, [COUNT_OBJECTS], unityConnection)).content[0].text);
+        const invalid = JSON.parse(
+            (await runEditorScript('count_objects', { name: 42 }, [COUNT_OBJECTS], unityConnection)).content[0].text
+        );
+
+        expect(unityConnection.sendRequest).not.toHaveBeenCalled();
+        expect(unknown).toEqual({ error: 'Unknown script "delete_everything". Available scripts: count_objects', status: 'error' });
+        expect(invalid.status).toBe('error');
+        expect(invalid.error).toContain('Expected count_objects(name: string, includeInactive?: bool = false)');
+    });
+
+    it('should audit the rendered code as coming from run_editor_script', async () => {
+        const unityConnection = createMockUnityConnection();
+        const guard = new CommandGuard(new CommandPolicy('confirm'));
+        const audit = vi.spyOn(guard, 'audit');
+
+        await runEditorScript('count_objects', { name: 'Chair' }, [COUNT_OBJECTS], unityConnection, 60000, { guard });
+
+        expect(audit).toHaveBeenCalledWith(
+            expect.objectContaining({ tool: 'run_editor_script', decision: 'allowed', code: expect.stringContaining('"Chair"') })
+        );
+    });
+});
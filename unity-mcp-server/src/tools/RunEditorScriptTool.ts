@@ -0,0 +1,63 @@
+import { UnityRequester } from "../communication/UnityConnection.js";
+import { EditorScript, EditorScriptError } from "../scripts/EditorScript.js";
+import { ExecuteEditorCommandOptions, executeEditorCommand } from "./ExecuteEditorCommandTool.js";
+
+/** Tool description listing the library, so the LLM sees each script's parameters. */
+export function describeScriptLibrary(scripts: EditorScript[]): string {
+  const entries = scripts.map((script) => `- ${script.signature()}: ${script.description}`);
+  return [
+    "Run a named C# script from the server's script library in the Unity Editor. Arguments are type-checked before anything is sent to Unity.",
+    scripts.length > 0 ? `Available scripts:\n${entries.join("\n")}` : "The script library is empty.",
+  ].join("\n");
+}
+
+/**
+ * Render a library script with the given arguments and execute it like
+ * execute_editor_command. Unknown scripts and invalid arguments are reported
+ * without contacting Unity.
+ */
+export async function runEditorScript(
+  scriptName: string,
+  args: Record<string, unknown> | undefined,
+  scripts: EditorScript[],
+  unityConnection: UnityRequester,
+  timeoutMs: number = 60_000,
+  options: Omit<ExecuteEditorCommandOptions, "mode"> = {}
+): Promise<{ content: { type: "text"; text: string }[] }> {
+  const script = scripts.find((candidate) => candidate.name === scriptName);
+  if (!script) {
+    return errorResult(
+      `Unknown script "${scriptName}". Available scripts: ${scripts.map((candidate) => candidate.name).join(", ") || "none"}`
+    );
+  }
+
+  let code: string;
+  try {
+    code = script.render(args);
+  } catch (error) {
+    if (error instanceof EditorScriptError) {
+      return errorResult(`${error.message}. Expected ${script.signature()}`);
+    }
+    throw error;
+  }
+
+  return executeEditorCommand(code, unityConnection, timeoutMs, {
+    ...options,
+    mode: script.mode,
+    caller: options.caller ?? { tool: "run_editor_script" },
+  });
+}
+
+function errorResult(message: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify({
+          error: message,
+          status: "error",
+        }),
+      },
+    ],
+  };
+}
@@ -1,55 +1,23 @@
-import { UnityConnection } from "../communication/UnityConnection.js";
-
-// Request/Response types matching C# implementation
-interface ScreenshotResult {
-    base64: string;
-    format: string;
-    error?: string;
-}
-
-interface ScreenshotHandler {
-    resolve: (value: ScreenshotResult) => void;
-    reject: (reason?: any) => void;
-}
-
-// Queue for pending requests
-let screenshotPromise: ScreenshotHandler | null = null;
-
-export function resolveScreenshot(result: any): void {
-    if (screenshotPromise) {
-        if (result.error) {
-            screenshotPromise.reject(new Error(result.error));
-        } else {
-            screenshotPromise.resolve(result);
-        }
-        screenshotPromise = null;
-    }
-}
+import { UnityRequester } from "../communication/UnityConnection.js";
+import { UnityRequestTimeoutError } from "../communication/errors.js";
+import { ScreenshotResult } from "../communication/messages.js";
 
 export async function takeScreenshot(
-    unityConnection: UnityConnection
+    unityConnection: UnityRequester,
+    timeoutMs: number = 30000
 ): Promise<{ content: ({ type: "text"; text: string } | { type: "image"; data: string; mimeType: string })[] }> {
     try {
-        unityConnection.sendMessage("takeScreenshot", {});
-
         // Wait for result with timeout
-        const timeoutMs = 30000;
-        const result = await Promise.race([
-            new Promise<ScreenshotResult>((resolve, reject) => {
-                screenshotPromise = { resolve, reject };
-            }),
-            new Promise<never>((_, reject) =>
-                setTimeout(
-                    () =>
-                        reject(
-                            new Error(
-                                `Screenshot capture timed out after ${timeoutMs / 1000} seconds.`
-                            )
-                        ),
-                    timeoutMs
-                )
-            ),
-        ]);
+        const result = await unityConnection.sendRequest<ScreenshotResult>(
+            "takeScreenshot",
+            {},
+            timeoutMs,
+            { idempotent: true }
+        );
+
+        if (result.error !== undefined) {
+            throw new Error(result.error);
+        }
 
         return {
             content: [
@@ -61,7 +29,10 @@ export async function takeScreenshot(
             ],
         };
     } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "Unknown error";
+        let errorMessage = error instanceof Error ? error.message : "Unknown error";
+        if (error instanceof UnityRequestTimeoutError) {
+            errorMessage = `Screenshot capture timed out after ${error.timeoutMs / 1000} seconds.`;
+        }
         return {
             content: [
                 {
@@ -1,4 +1,4 @@
 export * from "./types.js";
-export { executeEditorCommand, CommandResult, resolveCommandResult } from "./ExecuteEditorCommandTool.js";
-export { getEditorState, UnityEditorState, resolveUnityEditorState } from "./GetEditorStateTool.js";
+export { executeEditorCommand, CommandResult } from "./ExecuteEditorCommandTool.js";
+export { getEditorState, UnityEditorState } from "./GetEditorStateTool.js";
 export { getLogs } from "./GetLogsTool.js";
@@ -1,12 +1,47 @@
+import { z } from "zod";
 import { UnityConnection } from "../communication/UnityConnection.js";
+import { LogEntry } from "../communication/messages.js";
 
-export interface LogEntry {
-  message: string;
-  stackTrace: string;
-  logType: string;
-  timestamp: string;
+/** Optional `editor` argument shared by every tool that talks to Unity. */
+export const editorArgument = z.string().min(1).optional().describe(
+  "Target Unity Editor: session id, project name or project path as shown by list_editors. Defaults to the most recently active editor."
+);
+
+/** Optional `timeoutSeconds` argument of the tools that wait for Unity. */
+export const timeoutArgument = z.number().positive().max(3600).optional().describe(
+  "Seconds to wait for Unity before giving up, for long operations such as lightmap bakes or large imports. Defaults to the server's configured timeout."
+);
+
+/**
+ * GameObject selector shared by find_objects, get_object_details and
+ * manipulate_scene. Every criterion given must match.
+ */
+export const objectSelectorArgument = z
+  .object({
+    path: z.string().min(1).optional().describe(
+      "Hierarchy path from the scene root, e.g. 'Environment/Props/Chair (3)'. Glob: * matches within one level, ** across levels, ? one character."
+    ),
+    instanceId: z.number().int().optional().describe(
+      "Instance ID as returned by find_objects, get_editor_state (Tree format) or manipulate_scene."
+    ),
+    name: z.string().min(1).optional().describe("Object name glob, e.g. 'Chair*'. Case-insensitive."),
+    tag: z.string().min(1).optional().describe("Tag the object must have, e.g. 'Player'."),
+    layer: z.string().min(1).optional().describe("Layer name the object must be on, e.g. 'Interactive'."),
+    component: z.string().min(1).optional().describe(
+      "Component type the object must have, e.g. 'BoxCollider' or 'UdonBehaviour'. Base types such as 'Collider' match too."
+    ),
+  })
+  .refine((selector) => Object.values(selector).some((value) => value !== undefined), {
+    message: "Give at least one of path, instanceId, name, tag, layer or component",
+  });
+
+/** The per-call timeout if one was given, otherwise the configured default. */
+export function resolveTimeoutMs(timeoutSeconds: number | undefined, defaultMs: number): number {
+  return timeoutSeconds === undefined ? defaultMs : timeoutSeconds * 1000;
 }
 
+export type { LogEntry };
+
 // Legacy interfaces for backwards compatibility
 export interface ToolDefinition {
   name: string;
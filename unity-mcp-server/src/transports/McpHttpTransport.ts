@@ -0,0 +1,135 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { randomUUID } from "crypto";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+
+/** Endpoints served by McpHttpTransport. */
+export const MCP_HTTP_PATHS = ["/mcp", "/sse", "/messages"];
+
+interface HttpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+/**
+ * Serves MCP over HTTP so several clients can share one long-running server:
+ * Streamable HTTP on /mcp, and the older HTTP+SSE transport (GET /sse, POST
+ * /messages) for clients that do not support it yet. Every client session gets
+ * its own McpServer from the factory; they all share the same Unity connection.
+ */
+export class McpHttpTransport {
+  private sessions = new Map<string, HttpSession>();
+
+  constructor(private readonly createServer: () => McpServer) {}
+
+  public get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  public async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+
+    switch (url.pathname) {
+      case "/mcp":
+        return this.handleStreamableRequest(req, res);
+      case "/sse":
+        return this.handleSseConnect(req, res);
+      case "/messages":
+        return this.handleSseMessage(req, res, url.searchParams.get("sessionId"));
+      default:
+        sendError(res, 404, "Not Found");
+    }
+  }
+
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse) {
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendError(res, 404, `Unknown MCP session ${sessionId}`);
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendError(res, 400, "Missing Mcp-Session-Id header");
+      return;
+    }
+
+    // New client: the transport rejects anything but an initialize request
+    const server = this.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport });
+        console.error(`[Unity MCP] MCP client connected over HTTP (session ${id})`);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) this.removeSession(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  }
+
+  private async handleSseConnect(req: IncomingMessage, res: ServerResponse) {
+    if (req.method !== "GET") {
+      sendError(res, 405, "Method Not Allowed");
+      return;
+    }
+
+    const server = this.createServer();
+    const transport = new SSEServerTransport("/messages", res);
+    const sessionId = transport.sessionId;
+    this.sessions.set(sessionId, { server, transport });
+    transport.onclose = () => this.removeSession(sessionId);
+
+    console.error(`[Unity MCP] MCP client connected over SSE (session ${sessionId})`);
+    // connect() starts the transport, which writes the SSE headers and endpoint event
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null) {
+    if (req.method !== "POST") {
+      sendError(res, 405, "Method Not Allowed");
+      return;
+    }
+
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendError(res, 404, `Unknown MCP session ${sessionId ?? "(missing sessionId)"}`);
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  private removeSession(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.sessions.delete(sessionId);
+    console.error(`[Unity MCP] MCP client session ${sessionId} closed`);
+    session.server.close().catch((error) => {
+      console.error(`[Unity MCP] Error closing MCP session ${sessionId}:`, error);
+    });
+  }
+
+  public async close(): Promise<void> {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map((session) => session.server.close()));
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}